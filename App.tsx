@@ -11,16 +11,28 @@ import MediaLibraryPage from './pages/MediaLibraryPage';
 import UserConversationsPage from './pages/UserConversationsPage';
 import AdminLoginPage from './pages/AdminLoginPage';
 import ReportsPage from './pages/ReportsPage';
-import { BackIcon, FaqIcon, MediaIcon, ChatIcon, MenuIcon, DashboardIcon, SpinnerIcon, ReportsIcon, ChipIcon } from './components/icons';
+import AdminUsersPage from './pages/AdminUsersPage';
+import AuditLogPage from './pages/AuditLogPage';
+import TraceViewerPage from './pages/TraceViewerPage';
+import CachePage from './pages/CachePage';
+import { BackIcon, FaqIcon, MediaIcon, ChatIcon, MenuIcon, DashboardIcon, SpinnerIcon, ReportsIcon, ChipIcon, LogoutIcon, LockIcon, LogsIcon, TablesIcon } from './components/icons';
 import { api } from './lib/apiClient';
-import { isAdmin, setAdminStatus } from './lib/auth';
+import { isAdmin, setAdminSession, setAdminRole, clearAdminSession, getSessionExpiresAt, getAdminRole } from './lib/auth';
+import { hasPermission, type AdminPermission, type AdminRole } from './lib/roles';
+
+// Refresh the admin session once less than this much time is left on it
+const SESSION_REFRESH_THRESHOLD_MS = 2 * 60 * 60 * 1000;
+const SESSION_CHECK_INTERVAL_MS = 15 * 60 * 1000;
 
 // FIX: Changed JSX.Element to React.ReactElement to resolve "Cannot find namespace 'JSX'" error.
-const ProtectedRoute = ({ children }: { children: React.ReactElement }) => {
+const ProtectedRoute = ({ children, permission }: { children: React.ReactElement; permission?: AdminPermission }) => {
     const isAuthenticated = isAdmin();
     if (!isAuthenticated) {
         return <Navigate to="/login" replace />;
     }
+    if (permission && !hasPermission(getAdminRole(), permission)) {
+        return <Navigate to="/dashboard" replace />;
+    }
     return children;
 };
 
@@ -53,6 +65,7 @@ const AppContent: React.FC = () => {
     const [stats, setStats] = useState<DashboardStats | null>(null);
     const [loading, setLoading] = useState(true);
     const [isAuthenticated, setIsAuthenticated] = useState(isAdmin());
+    const [adminRole, setAdminRoleState] = useState<AdminRole | null>(getAdminRole());
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
     const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
 
@@ -115,6 +128,34 @@ const AppContent: React.FC = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [isAuthenticated]);
 
+    // Validate the admin session with the server and keep it fresh
+    useEffect(() => {
+        if (!isAuthenticated) return;
+
+        const checkSession = async () => {
+            try {
+                const expiresAt = getSessionExpiresAt();
+                const remainingMs = expiresAt ? new Date(expiresAt).getTime() - Date.now() : 0;
+                if (remainingMs < SESSION_REFRESH_THRESHOLD_MS) {
+                    const { token, expiresAt: nextExpiresAt, user } = await api.refreshSession();
+                    setAdminSession(token, nextExpiresAt, user);
+                    setAdminRoleState(user.role);
+                } else {
+                    const { user } = await api.getSession();
+                    setAdminRole(user.role);
+                    setAdminRoleState(user.role);
+                }
+            } catch (error) {
+                console.error('Admin session check failed:', error);
+                if (!isAdmin()) setIsAuthenticated(false);
+            }
+        };
+
+        checkSession();
+        const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [isAuthenticated]);
+
     // Close mobile menu if clicking outside
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -141,6 +182,8 @@ const AppContent: React.FC = () => {
         }
     }, []);
 
+    const can = (permission: AdminPermission) => hasPermission(adminRole, permission);
+
     const isDashboard = location.pathname.startsWith('/dashboard');
     const isDebugPage = location.pathname.startsWith('/dashboard/debug');
 
@@ -150,6 +193,10 @@ const AppContent: React.FC = () => {
         if (location.pathname.includes('/conversations')) return 'User Conversations';
         if (location.pathname.includes('/reports')) return 'Reports';
         if (location.pathname.includes('/suggestions')) return 'Suggestions';
+        if (location.pathname.includes('/admins')) return 'Admin Accounts';
+        if (location.pathname.includes('/audit')) return 'Audit Log';
+        if (location.pathname.includes('/traces')) return 'Query Trace';
+        if (location.pathname.includes('/cache')) return 'Response Cache';
         if (location.pathname.includes('/dashboard')) return 'Dashboard';
         return 'Assistant';
     };
@@ -158,6 +205,20 @@ const AppContent: React.FC = () => {
         navigate('/chat');
     };
 
+    const handleAdminLogout = async () => {
+        try {
+            await api.logout();
+        } catch (error) {
+            console.error('Admin logout failed:', error);
+        }
+        clearAdminSession();
+        setIsAuthenticated(false);
+        setAdminRoleState(null);
+        setIsMobileMenuOpen(false);
+        navigate('/chat');
+        showToast('Logged out of the dashboard', 'success');
+    };
+
     const handleMobileNav = (path: string) => {
         navigate(path);
         setIsMobileMenuOpen(false);
@@ -183,20 +244,52 @@ const AppContent: React.FC = () => {
                                 <DashboardIcon className="w-4 h-4 flex-shrink-0" /> <span>Dashboard</span>
                             </button>
                         )}
-                        <button onClick={() => navigate('/dashboard/conversations')} className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[140px] h-9"><ChatIcon className="w-4 h-4 flex-shrink-0" /> <span>Conversations</span></button>
-                        <button onClick={() => navigate('/dashboard/suggestions')} className={`px-4 py-2 rounded-full font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9 ${location.pathname.includes('/suggestions')
-                            ? 'bg-primary text-background'
-                            : 'bg-surface-light text-text-primary hover:bg-primary hover:text-background'
-                            }`}><ChipIcon className="w-4 h-4 flex-shrink-0" /> <span>Suggestions</span>
-                        </button>
-                        <button onClick={() => navigate('/dashboard/reports')} className={`px-4 py-2 rounded-full font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9 ${location.pathname.includes('/reports')
-                            ? 'bg-primary text-background'
-                            : 'bg-surface-light text-text-primary hover:bg-primary hover:text-background'
-                            }`}>
-                            <ReportsIcon className="w-4 h-4 flex-shrink-0" /> <span>Reports</span>
-                        </button>
-                        <button onClick={() => navigate('/dashboard/faqs')} className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9"><FaqIcon className="w-4 h-4 flex-shrink-0" /> <span>FAQs</span></button>
-                        <button onClick={() => navigate('/dashboard/media')} className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9"><MediaIcon className="w-4 h-4 flex-shrink-0" /> <span>Media</span></button>
+                        {can('conversations') && (
+                            <button onClick={() => navigate('/dashboard/conversations')} className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[140px] h-9"><ChatIcon className="w-4 h-4 flex-shrink-0" /> <span>Conversations</span></button>
+                        )}
+                        {can('suggestions') && (
+                            <button onClick={() => navigate('/dashboard/suggestions')} className={`px-4 py-2 rounded-full font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9 ${location.pathname.includes('/suggestions')
+                                ? 'bg-primary text-background'
+                                : 'bg-surface-light text-text-primary hover:bg-primary hover:text-background'
+                                }`}><ChipIcon className="w-4 h-4 flex-shrink-0" /> <span>Suggestions</span>
+                            </button>
+                        )}
+                        {can('reports') && (
+                            <button onClick={() => navigate('/dashboard/reports')} className={`px-4 py-2 rounded-full font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9 ${location.pathname.includes('/reports')
+                                ? 'bg-primary text-background'
+                                : 'bg-surface-light text-text-primary hover:bg-primary hover:text-background'
+                                }`}>
+                                <ReportsIcon className="w-4 h-4 flex-shrink-0" /> <span>Reports</span>
+                            </button>
+                        )}
+                        {can('faqs') && (
+                            <button onClick={() => navigate('/dashboard/faqs')} className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9"><FaqIcon className="w-4 h-4 flex-shrink-0" /> <span>FAQs</span></button>
+                        )}
+                        {can('media') && (
+                            <button onClick={() => navigate('/dashboard/media')} className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9"><MediaIcon className="w-4 h-4 flex-shrink-0" /> <span>Media</span></button>
+                        )}
+                        {can('admin_users') && (
+                            <button onClick={() => navigate('/dashboard/admins')} className={`px-4 py-2 rounded-full font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9 ${location.pathname.includes('/admins')
+                                ? 'bg-primary text-background'
+                                : 'bg-surface-light text-text-primary hover:bg-primary hover:text-background'
+                                }`}><LockIcon className="w-4 h-4 flex-shrink-0" /> <span>Admins</span>
+                            </button>
+                        )}
+                        {can('settings') && (
+                            <button onClick={() => navigate('/dashboard/cache')} className={`px-4 py-2 rounded-full font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9 ${location.pathname.includes('/cache')
+                                ? 'bg-primary text-background'
+                                : 'bg-surface-light text-text-primary hover:bg-primary hover:text-background'
+                                }`}><TablesIcon className="w-4 h-4 flex-shrink-0" /> <span>Cache</span>
+                            </button>
+                        )}
+                        {can('audit') && (
+                            <button onClick={() => navigate('/dashboard/audit')} className={`px-4 py-2 rounded-full font-semibold transition-colors flex items-center justify-center gap-2 text-sm min-w-[100px] h-9 ${location.pathname.includes('/audit')
+                                ? 'bg-primary text-background'
+                                : 'bg-surface-light text-text-primary hover:bg-primary hover:text-background'
+                                }`}><LogsIcon className="w-4 h-4 flex-shrink-0" /> <span>Audit</span>
+                            </button>
+                        )}
+                        <button onClick={handleAdminLogout} className="bg-accent text-white px-4 py-2 rounded-full hover:bg-accent-hover font-semibold transition-colors flex items-center justify-center gap-2 text-sm h-9" title="Log out of the dashboard"><LogoutIcon className="w-4 h-4 flex-shrink-0" /> <span>Logout</span></button>
                     </div>
                     <div className="md:hidden" ref={mobileMenuRef}>
                         <button onClick={() => setIsMobileMenuOpen(prev => !prev)} className="p-2 rounded-full hover:bg-surface-light transition-colors"><MenuIcon /></button>
@@ -213,17 +306,46 @@ const AppContent: React.FC = () => {
                                             </button>
                                         </li>
                                     )}
-                                    <li><button onClick={() => handleMobileNav('/dashboard/conversations')} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-surface-light transition-colors"><ChatIcon /> Conversations</button></li>
-                                    <li><button onClick={() => handleMobileNav('/dashboard/suggestions')} className={`w-full text-left flex items-center gap-3 px-3 py-2 rounded-md transition-colors ${location.pathname.includes('/suggestions')
-                                        ? 'bg-primary/20 text-primary'
-                                        : 'hover:bg-surface-light'
-                                        }`}><ChipIcon /> Suggestions</button></li>
-                                    <li><button onClick={() => handleMobileNav('/dashboard/reports')} className={`w-full text-left flex items-center gap-3 px-3 py-2 rounded-md transition-colors ${location.pathname.includes('/reports')
-                                        ? 'bg-primary/20 text-primary'
-                                        : 'hover:bg-surface-light'
-                                        }`}><ReportsIcon /> Reports</button></li>
-                                    <li><button onClick={() => handleMobileNav('/dashboard/faqs')} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-surface-light transition-colors"><FaqIcon /> FAQs</button></li>
-                                    <li><button onClick={() => handleMobileNav('/dashboard/media')} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-surface-light transition-colors"><MediaIcon /> Media</button></li>
+                                    {can('conversations') && (
+                                        <li><button onClick={() => handleMobileNav('/dashboard/conversations')} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-surface-light transition-colors"><ChatIcon /> Conversations</button></li>
+                                    )}
+                                    {can('suggestions') && (
+                                        <li><button onClick={() => handleMobileNav('/dashboard/suggestions')} className={`w-full text-left flex items-center gap-3 px-3 py-2 rounded-md transition-colors ${location.pathname.includes('/suggestions')
+                                            ? 'bg-primary/20 text-primary'
+                                            : 'hover:bg-surface-light'
+                                            }`}><ChipIcon /> Suggestions</button></li>
+                                    )}
+                                    {can('reports') && (
+                                        <li><button onClick={() => handleMobileNav('/dashboard/reports')} className={`w-full text-left flex items-center gap-3 px-3 py-2 rounded-md transition-colors ${location.pathname.includes('/reports')
+                                            ? 'bg-primary/20 text-primary'
+                                            : 'hover:bg-surface-light'
+                                            }`}><ReportsIcon /> Reports</button></li>
+                                    )}
+                                    {can('faqs') && (
+                                        <li><button onClick={() => handleMobileNav('/dashboard/faqs')} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-surface-light transition-colors"><FaqIcon /> FAQs</button></li>
+                                    )}
+                                    {can('media') && (
+                                        <li><button onClick={() => handleMobileNav('/dashboard/media')} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-surface-light transition-colors"><MediaIcon /> Media</button></li>
+                                    )}
+                                    {can('admin_users') && (
+                                        <li><button onClick={() => handleMobileNav('/dashboard/admins')} className={`w-full text-left flex items-center gap-3 px-3 py-2 rounded-md transition-colors ${location.pathname.includes('/admins')
+                                            ? 'bg-primary/20 text-primary'
+                                            : 'hover:bg-surface-light'
+                                            }`}><LockIcon /> Admins</button></li>
+                                    )}
+                                    {can('settings') && (
+                                        <li><button onClick={() => handleMobileNav('/dashboard/cache')} className={`w-full text-left flex items-center gap-3 px-3 py-2 rounded-md transition-colors ${location.pathname.includes('/cache')
+                                            ? 'bg-primary/20 text-primary'
+                                            : 'hover:bg-surface-light'
+                                            }`}><TablesIcon /> Response Cache</button></li>
+                                    )}
+                                    {can('audit') && (
+                                        <li><button onClick={() => handleMobileNav('/dashboard/audit')} className={`w-full text-left flex items-center gap-3 px-3 py-2 rounded-md transition-colors ${location.pathname.includes('/audit')
+                                            ? 'bg-primary/20 text-primary'
+                                            : 'hover:bg-surface-light'
+                                            }`}><LogsIcon /> Audit Log</button></li>
+                                    )}
+                                    <li><button onClick={handleAdminLogout} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-surface-light transition-colors text-accent"><LogoutIcon /> Logout</button></li>
                                 </ul>
                             </div>
                         )}
@@ -233,7 +355,7 @@ const AppContent: React.FC = () => {
 
             <main className="relative flex-1 overflow-y-auto bg-background">
                 <Routes>
-                    <Route path="/login" element={<AdminLoginPage onLoginSuccess={() => setIsAuthenticated(true)} />} />
+                    <Route path="/login" element={<AdminLoginPage onLoginSuccess={() => { setIsAuthenticated(true); setAdminRoleState(getAdminRole()); }} />} />
                     <Route path="/chat" element={
                         <ChatbotPage
                             faqs={faqs}
@@ -242,12 +364,16 @@ const AppContent: React.FC = () => {
                             showToast={showToast}
                         />
                     } />
-                    <Route path="/dashboard" element={<ProtectedRoute><DashboardPage faqs={faqs} stats={stats} loading={loading} refreshData={fetchData} showToast={showToast} /></ProtectedRoute>} />
-                    <Route path="/dashboard/faqs" element={<ProtectedRoute><ManageFaqsPage faqs={faqs} media={media} refreshData={fetchData} loading={loading} showToast={showToast} /></ProtectedRoute>} />
-                    <Route path="/dashboard/media" element={<ProtectedRoute><MediaLibraryPage media={media} refreshData={fetchData} loading={loading} showToast={showToast} /></ProtectedRoute>} />
-                    <Route path="/dashboard/conversations" element={<ProtectedRoute><UserConversationsPage /></ProtectedRoute>} />
-                    <Route path="/dashboard/reports" element={<ProtectedRoute><ReportsPage showToast={showToast} /></ProtectedRoute>} />
-                    <Route path="/dashboard/suggestions" element={<ProtectedRoute><ManageSuggestionsPage refreshData={fetchData} showToast={showToast} /></ProtectedRoute>} />
+                    <Route path="/dashboard" element={<ProtectedRoute><DashboardPage faqs={faqs} stats={stats} loading={loading} refreshData={fetchData} showToast={showToast} adminRole={adminRole} /></ProtectedRoute>} />
+                    <Route path="/dashboard/faqs" element={<ProtectedRoute permission="faqs"><ManageFaqsPage faqs={faqs} media={media} refreshData={fetchData} loading={loading} showToast={showToast} /></ProtectedRoute>} />
+                    <Route path="/dashboard/media" element={<ProtectedRoute permission="media"><MediaLibraryPage media={media} refreshData={fetchData} loading={loading} showToast={showToast} /></ProtectedRoute>} />
+                    <Route path="/dashboard/conversations" element={<ProtectedRoute permission="conversations"><UserConversationsPage /></ProtectedRoute>} />
+                    <Route path="/dashboard/reports" element={<ProtectedRoute permission="reports"><ReportsPage showToast={showToast} /></ProtectedRoute>} />
+                    <Route path="/dashboard/suggestions" element={<ProtectedRoute permission="suggestions"><ManageSuggestionsPage refreshData={fetchData} showToast={showToast} /></ProtectedRoute>} />
+                    <Route path="/dashboard/admins" element={<ProtectedRoute permission="admin_users"><AdminUsersPage showToast={showToast} /></ProtectedRoute>} />
+                    <Route path="/dashboard/cache" element={<ProtectedRoute permission="settings"><CachePage faqs={faqs} showToast={showToast} /></ProtectedRoute>} />
+                    <Route path="/dashboard/audit" element={<ProtectedRoute permission="audit"><AuditLogPage showToast={showToast} /></ProtectedRoute>} />
+                    <Route path="/dashboard/traces/:queryId" element={<ProtectedRoute permission="traces"><TraceViewerPage showToast={showToast} /></ProtectedRoute>} />
                     <Route path="/" element={<Navigate to="/chat" replace />} />
                     <Route path="*" element={<Navigate to="/chat" replace />} />
                 </Routes>
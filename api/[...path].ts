@@ -1,47 +1,149 @@
 // Vercel Edge Function: Main API endpoint (catch-all route)
 // Handles all /api/* routes
 
-import { createClient } from '@libsql/client';
-import OpenAI from 'openai';
+import type { Client } from '@libsql/client';
+import type { FAQRevision } from '../types';
 import * as dbHelpers from '../lib/dbHelpers';
+import { createDb, isLocalMode } from '../lib/turso';
+import {
+  LLM_PROVIDER_IDS,
+  createLlmForRequest,
+  createProviders,
+  defaultAssignments,
+  loadLlmAssignments,
+  saveLlmAssignments,
+  type Llm,
+} from '../lib/llm';
+import {
+  createSession,
+  refreshSession,
+  revokeAllSessions,
+  revokeSession,
+  timingSafeEqual,
+} from '../lib/session';
+import { guardAdminRoute, requireAdmin, type AdminRouteRule } from '../lib/adminGuard';
+import { hashPassword, verifyAgainstDummyHash, verifyPassword } from '../lib/passwords';
+import { listAudit, recordAudit, type AuditEntry } from '../lib/audit';
+import { summarizeLlmUsage, withLlmUsage } from '../lib/llmUsage';
+import { getLlmBudgetStatus, saveLlmBudget } from '../lib/llmBudget';
+import { MAX_CLINIC_FIELD_LENGTH, loadClinicContact, saveClinicContact } from '../lib/clinicContact';
+import { dbRateLimitStore, findRateLimitRule, guardRateLimit, type RateLimitRule } from '../lib/rateLimit';
+import {
+  clearResponseCache,
+  deleteResponseCacheEntry,
+  evictCachedFaqMatches,
+  evictCachedMedia,
+  getResponseCacheEntry,
+  listResponseCache,
+  loadSemanticCacheThreshold,
+  parseSemanticCacheThreshold,
+  purgeCachedFaq,
+  refreshCachedFaqAnswers,
+  saveSemanticCacheThreshold,
+  setResponseCachePinned,
+  MIN_SEMANTIC_CACHE_THRESHOLD,
+  SEMANTIC_CACHE_THRESHOLD_KEY,
+} from '../lib/responseCache';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKeyStatement,
+  isValidIdempotencyKey,
+  releaseIdempotencyKey,
+} from '../lib/idempotency';
+import { isAdminRole } from '../lib/roles';
+import { loadTrace, summarizeCacheOutcomes, summarizeFallbacks } from '../lib/pipeline/trace';
 
 export const config = { runtime: 'edge' };
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-password',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Helper: Get admin password from env or header
-function getAdminPassword(req: Request): string | null {
-  const headerPassword = req.headers.get('x-admin-password');
-  if (headerPassword) return headerPassword;
-  return process.env.ADMIN_PASSWORD || null;
+// Admin-only routes, checked before any handler runs. Anything not listed is public
+// (the chatbot's own calls: users, conversations, messages, report submission, FAQ counters).
+const ADMIN_ROUTES: AdminRouteRule[] = [
+  { methods: ['GET'], pattern: /^\/api\/auth\/session$/ },
+  { methods: ['POST'], pattern: /^\/api\/auth\/refresh$/ },
+  { methods: ['POST'], pattern: /^\/api\/auth\/revoke-all$/, permission: 'admin_users' },
+  { methods: ['GET', 'POST'], pattern: /^\/api\/admin-users$/, permission: 'admin_users' },
+  { methods: ['PUT', 'DELETE'], pattern: /^\/api\/admin-users\/\d+$/, permission: 'admin_users' },
+  { methods: ['POST', 'DELETE'], pattern: /^\/api\/faqs$/, permission: 'faqs' },
+  { methods: ['PUT', 'DELETE'], pattern: /^\/api\/faqs\/\d+$/, permission: 'faqs' },
+  { methods: ['POST'], pattern: /^\/api\/faqs\/generate-intent$/, permission: 'faqs' },
+  { methods: ['GET'], pattern: /^\/api\/faqs\/deleted$/, permission: 'faqs' },
+  { methods: ['GET'], pattern: /^\/api\/faqs\/\d+\/revisions$/, permission: 'faqs' },
+  { methods: ['POST'], pattern: /^\/api\/faqs\/\d+\/revisions\/\d+\/restore$/, permission: 'faqs' },
+  { methods: ['POST', 'DELETE'], pattern: /^\/api\/media$/, permission: 'media' },
+  { methods: ['PUT', 'DELETE'], pattern: /^\/api\/media\/\d+$/, permission: 'media' },
+  { methods: ['GET'], pattern: /^\/api\/stats$/, permission: 'stats' },
+  { methods: ['GET'], pattern: /^\/api\/usage$/, permission: 'stats' },
+  { methods: ['GET'], pattern: /^\/api\/conversations$/, permission: 'conversations' },
+  { methods: ['GET'], pattern: /^\/api\/conversations\/urgent$/, permission: 'conversations' },
+  { methods: ['POST'], pattern: /^\/api\/conversations\/\d+\/follow-up$/, permission: 'conversations' },
+  { methods: ['GET', 'DELETE'], pattern: /^\/api\/reports$/, permission: 'reports' },
+  { methods: ['PUT'], pattern: /^\/api\/reports\/\d+\/status$/, permission: 'reports' },
+  { methods: ['POST', 'DELETE'], pattern: /^\/api\/reports\/categories$/, permission: 'reports' },
+  { methods: ['POST'], pattern: /^\/api\/reports\/categories\/reorder$/, permission: 'reports' },
+  { methods: ['DELETE'], pattern: /^\/api\/reset-all-user-data$/, permission: 'reset_data' },
+  { methods: ['GET', 'PUT'], pattern: /^\/api\/settings\/cache$/, permission: 'settings' },
+  { methods: ['GET', 'DELETE'], pattern: /^\/api\/cache$/, permission: 'settings' },
+  { methods: ['GET'], pattern: /^\/api\/cache\/stats$/, permission: 'settings' },
+  { methods: ['DELETE'], pattern: /^\/api\/cache\/\d+$/, permission: 'settings' },
+  { methods: ['PUT'], pattern: /^\/api\/cache\/\d+\/pin$/, permission: 'settings' },
+  { methods: ['GET'], pattern: /^\/api\/settings\/budget$/, permission: 'stats' },
+  { methods: ['PUT'], pattern: /^\/api\/settings\/budget$/, permission: 'settings' },
+  { methods: ['GET', 'PUT'], pattern: /^\/api\/settings\/llm$/, permission: 'settings' },
+  { methods: ['GET', 'PUT'], pattern: /^\/api\/settings\/clinic$/, permission: 'settings' },
+  { methods: ['GET'], pattern: /^\/api\/audit-log$/, permission: 'audit' },
+  { methods: ['GET'], pattern: /^\/api\/traces\/[\w-]+$/, permission: 'traces' },
+];
+
+// Public write routes, throttled per userId (when the body has one), per IP and globally.
+// /api/chat has its own `chat` bucket (api/chat.ts), and login attempts are limited per IP.
+const RATE_LIMITED_ROUTES: RateLimitRule[] = [
+  { methods: ['POST'], pattern: /^\/api\/users$/, bucket: 'write' },
+  { methods: ['POST'], pattern: /^\/api\/conversations$/, bucket: 'write' },
+  { methods: ['PATCH'], pattern: /^\/api\/conversations\/\d+$/, bucket: 'write' },
+  { methods: ['POST'], pattern: /^\/api\/messages$/, bucket: 'write' },
+  { methods: ['POST'], pattern: /^\/api\/reports$/, bucket: 'write' },
+  { methods: ['POST'], pattern: /^\/api\/faqs\/\d+\/increment$/, bucket: 'write' },
+  { methods: ['POST'], pattern: /^\/api\/auth\/login$/, bucket: 'login' },
+];
+
+// Helper: Public shape of an admin account
+function toAdminUserResponse(row: any) {
+  return { id: row.id, username: row.username, role: row.role, created_at: row.created_at };
 }
 
-// Helper: Check if request requires admin
-function requireAdmin(req: Request): { authorized: boolean; error?: string } {
-  const adminPassword = process.env.ADMIN_PASSWORD;
-  if (!adminPassword) {
-    return { authorized: false, error: 'Server configuration error: Admin password not set' };
-  }
+// Helper: Keep a copy of an FAQ's current content before it is overwritten or deleted
+async function saveFaqRevision(db: Client, faq: any, createdBy: string | null, reason: FAQRevision['reason']) {
+  await dbHelpers.insert(db, 'faq_revisions', {
+    faq_id: faq.id,
+    question: faq.question,
+    answer: faq.answer,
+    intent: faq.intent,
+    media_ids: typeof faq.media_ids === 'string' ? faq.media_ids : JSON.stringify(faq.media_ids || []),
+    created_at: new Date().toISOString(),
+    created_by: createdBy,
+    reason,
+  });
+}
 
-  const providedPassword = getAdminPassword(req);
-  if (!providedPassword || providedPassword !== adminPassword) {
-    return { authorized: false, error: 'Access denied. Admin privileges required.' };
+// Helper: Evict the cached replies an FAQ edit makes stale (lib/responseCache.ts)
+async function invalidateCachedFaq(db: Client, before: any, after: any) {
+  const id = Number(after.id);
+  if (before.question !== after.question || before.intent !== after.intent) {
+    await evictCachedFaqMatches(db, id);
+  } else if (before.answer !== after.answer || (before.media_ids || '[]') !== (after.media_ids || '[]')) {
+    await refreshCachedFaqAnswers(db, id);
   }
-
-  return { authorized: true };
 }
 
 // Helper: Calculate embedding
-async function calculateEmbedding(text: string, openai: OpenAI): Promise<number[]> {
+async function calculateEmbedding(db: Client, text: string, llm: Llm): Promise<number[]> {
   try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text,
-    });
-    return response.data[0]?.embedding || [];
+    return await withLlmUsage(db, 'calculateEmbedding', llm, llm => llm.embed(text));
   } catch (err) {
     console.error('Error calculating embedding:', err);
     return [];
@@ -49,10 +151,9 @@ async function calculateEmbedding(text: string, openai: OpenAI): Promise<number[
 }
 
 // Helper: Generate canonical intent from question
-async function generateCanonicalIntent(question: string, openai: OpenAI): Promise<string> {
+async function generateCanonicalIntent(db: Client, question: string, llm: Llm): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const reply = await withLlmUsage(db, 'generateCanonicalIntent', llm, llm => llm.chat('intent', {
       messages: [
         {
           role: 'system',
@@ -82,10 +183,10 @@ Respond with ONLY the intent phrase, nothing else.`,
         },
       ],
       temperature: 0.1,
-      max_tokens: 20,
-    });
+      maxTokens: 20,
+    }));
 
-    const intent = response.choices[0]?.message?.content?.trim() || '';
+    const intent = reply.trim();
     // Clean up any punctuation or extra words
     return intent
       .toLowerCase()
@@ -139,16 +240,7 @@ export default async function handler(req: Request) {
 
   try {
     // Get Turso client
-    const tursoUrl = process.env.TURSO_DATABASE_URL || 'libsql://dentalcare-ai-zunxo7.aws-ap-south-1.turso.io';
-    const tursoAuthToken = process.env.TURSO_AUTH_TOKEN || '';
-    const db = createClient({
-      url: tursoUrl,
-      authToken: tursoAuthToken || undefined,
-    });
-
-    // Get OpenAI client (for embeddings)
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    const openai = openaiApiKey ? new OpenAI({ apiKey: openaiApiKey }) : null;
+    const db = createDb();
 
     // Parse URL - Vercel automatically handles /api/* routing
     const url = new URL(req.url);
@@ -165,6 +257,19 @@ export default async function handler(req: Request) {
       }
     }
 
+    const rateLimitRule = findRateLimitRule(RATE_LIMITED_ROUTES, method, path);
+    if (rateLimitRule) {
+      const limited = await guardRateLimit(req, dbRateLimitStore(db), rateLimitRule.bucket, corsHeaders);
+      if (limited) return limited;
+    }
+
+    const adminCheck = await guardAdminRoute(req, db, ADMIN_ROUTES, method, path);
+    if (adminCheck && !adminCheck.authorized) {
+      return errorResponse(adminCheck.error || 'Access denied', adminCheck.status || 401);
+    }
+    const adminSession = adminCheck?.session;
+    const audit = (entry: AuditEntry) => recordAudit(db, adminSession, `${method} ${path}`, entry);
+
     // Route: /api/health
     if (path === '/api/health' && method === 'GET') {
       // Test database connection
@@ -175,7 +280,8 @@ export default async function handler(req: Request) {
           database: 'connected',
           env: {
             hasTursoUrl: !!process.env.TURSO_DATABASE_URL,
-            hasOpenAI: !!process.env.OPENAI_API_KEY
+            hasOpenAI: !!process.env.OPENAI_API_KEY,
+            localMode: isLocalMode()
           }
         });
       } catch (dbError: any) {
@@ -187,6 +293,197 @@ export default async function handler(req: Request) {
       }
     }
 
+    // Route: /api/auth/login
+    if (path === '/api/auth/login' && method === 'POST') {
+      const body = await req.json().catch(() => ({}));
+      const { username, password } = body || {};
+
+      if (!username || !password || typeof username !== 'string' || typeof password !== 'string') {
+        return errorResponse('username and password are required', 400);
+      }
+
+      const normalizedUsername = username.trim().toLowerCase();
+      let adminUser = await dbHelpers.selectOne(db, 'admin_users', { column: 'username', value: normalizedUsername });
+
+      if (!adminUser) {
+        // Bootstrap: with no accounts yet, ADMIN_PASSWORD creates the first owner
+        const adminCount = await dbHelpers.count(db, 'admin_users');
+        const adminPassword = process.env.ADMIN_PASSWORD;
+        if (adminCount === 0 && adminPassword && timingSafeEqual(password, adminPassword)) {
+          adminUser = await dbHelpers.insert(db, 'admin_users', {
+            username: normalizedUsername,
+            password_hash: await hashPassword(password),
+            role: 'owner',
+            created_at: new Date().toISOString(),
+          });
+          console.log(`[AUTH] Bootstrapped first owner account: ${normalizedUsername}`);
+        } else {
+          // Same PBKDF2 cost as a wrong password, so response times do not reveal which usernames exist
+          await verifyAgainstDummyHash(password);
+        }
+      } else if (!(await verifyPassword(password, adminUser.password_hash))) {
+        adminUser = null;
+      }
+
+      if (!adminUser) {
+        return errorResponse('Incorrect username or password. Please try again.', 401);
+      }
+
+      try {
+        const { token, session } = await createSession(
+          db,
+          { id: Number(adminUser.id), username: adminUser.username, role: adminUser.role },
+          req.headers.get('user-agent')
+        );
+        return jsonResponse({
+          token,
+          expiresAt: session.expiresAt,
+          user: { id: session.adminUserId, username: session.username, role: session.role },
+        });
+      } catch (error: any) {
+        console.error('Login failed:', error);
+        return errorResponse(error.message || 'Failed to create session', 500);
+      }
+    }
+
+    // Route: /api/auth/session
+    if (path === '/api/auth/session' && method === 'GET') {
+      const session = adminSession!;
+      return jsonResponse({
+        valid: true,
+        expiresAt: session.expiresAt,
+        user: { id: session.adminUserId, username: session.username, role: session.role },
+      });
+    }
+
+    // Route: /api/auth/refresh
+    if (path === '/api/auth/refresh' && method === 'POST') {
+      const { token, session } = await refreshSession(db, adminSession!);
+      return jsonResponse({
+        token,
+        expiresAt: session.expiresAt,
+        user: { id: session.adminUserId, username: session.username, role: session.role },
+      });
+    }
+
+    // Route: /api/auth/logout
+    if (path === '/api/auth/logout' && method === 'POST') {
+      // Best effort: an already-invalid token still logs out cleanly
+      const logoutCheck = await requireAdmin(req, db);
+      if (logoutCheck.authorized) {
+        await revokeSession(db, logoutCheck.session!.id);
+      }
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    // Route: /api/auth/revoke-all
+    if (path === '/api/auth/revoke-all' && method === 'POST') {
+      const revoked = await revokeAllSessions(db);
+      await audit({ action: 'revoke', entityType: 'admin_session', after: { revoked } });
+      return jsonResponse({ success: true, revoked });
+    }
+
+    // Route: /api/admin-users
+    if (path === '/api/admin-users' && method === 'GET') {
+      const data = await dbHelpers.selectAll(db, 'admin_users', 'id, username, role, created_at', { column: 'created_at', ascending: true });
+      return jsonResponse((data || []).map(toAdminUserResponse));
+    }
+
+    if (path === '/api/admin-users' && method === 'POST') {
+      const body = await req.json();
+      const { username, password, role } = body || {};
+
+      if (typeof username !== 'string' || !username.trim() || typeof password !== 'string' || !password) {
+        return errorResponse('username and password are required', 400);
+      }
+      if (!isAdminRole(role)) {
+        return errorResponse('role must be one of owner, editor, reviewer', 400);
+      }
+      if (password.length < 8) {
+        return errorResponse('Password must be at least 8 characters', 400);
+      }
+
+      const normalizedUsername = username.trim().toLowerCase();
+      const existing = await dbHelpers.selectOne(db, 'admin_users', { column: 'username', value: normalizedUsername });
+      if (existing) {
+        return errorResponse('An admin with that username already exists', 409);
+      }
+
+      const data = await dbHelpers.insert(db, 'admin_users', {
+        username: normalizedUsername,
+        password_hash: await hashPassword(password),
+        role,
+        created_at: new Date().toISOString(),
+      });
+      await audit({ action: 'create', entityType: 'admin_user', entityId: data.id, after: toAdminUserResponse(data) });
+      return jsonResponse(toAdminUserResponse(data), 201);
+    }
+
+    // Route: /api/admin-users/:id
+    const adminUserIdMatch = path.match(/^\/api\/admin-users\/(\d+)$/);
+    if (adminUserIdMatch && method === 'PUT') {
+      const id = parseInt(adminUserIdMatch[1]);
+      const body = await req.json();
+      const { role, password } = body || {};
+
+      const existing = await dbHelpers.selectOne(db, 'admin_users', { column: 'id', value: id });
+      if (!existing) return errorResponse('Admin not found', 404);
+
+      const updateData: any = {};
+      if (role !== undefined) {
+        if (!isAdminRole(role)) {
+          return errorResponse('role must be one of owner, editor, reviewer', 400);
+        }
+        if (existing.role === 'owner' && role !== 'owner') {
+          const ownerCount = await dbHelpers.count(db, 'admin_users', { column: 'role', value: 'owner' });
+          if (ownerCount <= 1) {
+            return errorResponse('Cannot demote the last owner', 400);
+          }
+        }
+        updateData.role = role;
+      }
+      if (password !== undefined) {
+        if (typeof password !== 'string' || password.length < 8) {
+          return errorResponse('Password must be at least 8 characters', 400);
+        }
+        updateData.password_hash = await hashPassword(password);
+      }
+      if (Object.keys(updateData).length === 0) {
+        return errorResponse('role or password is required', 400);
+      }
+
+      const data = await dbHelpers.update(db, 'admin_users', updateData, { column: 'id', value: id });
+
+      // A new password signs the account out everywhere
+      if (updateData.password_hash) {
+        await revokeAllSessions(db, id);
+      }
+
+      await audit({
+        action: 'update',
+        entityType: 'admin_user',
+        entityId: id,
+        before: toAdminUserResponse(existing),
+        after: { ...toAdminUserResponse(data), ...(updateData.password_hash && { password_changed: true }) },
+      });
+      return jsonResponse(toAdminUserResponse(data));
+    }
+
+    if (adminUserIdMatch && method === 'DELETE') {
+      const id = parseInt(adminUserIdMatch[1]);
+      if (id === adminSession!.adminUserId) {
+        return errorResponse('You cannot delete your own account', 400);
+      }
+
+      const existing = await dbHelpers.selectOne(db, 'admin_users', { column: 'id', value: id });
+      await revokeAllSessions(db, id);
+      await dbHelpers.deleteWhere(db, 'admin_users', { column: 'id', value: id });
+      if (existing) {
+        await audit({ action: 'delete', entityType: 'admin_user', entityId: id, before: toAdminUserResponse(existing) });
+      }
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
     // Route: /api/faqs
     if (path === '/api/faqs' && method === 'GET') {
       try {
@@ -199,7 +496,7 @@ export default async function handler(req: Request) {
         return jsonResponse(data || []);
       } catch (error: any) {
         if (error.message?.includes('no such table')) {
-          return errorResponse('Tables not found. Please run the SQL schema in Turso database.', 500);
+          return errorResponse('Tables not found. Run `npm run db:migrate` against this database.', 500);
         }
         throw error;
       }
@@ -217,12 +514,13 @@ export default async function handler(req: Request) {
         return errorResponse('intent is required', 400);
       }
 
-      if (!openai) {
-        return errorResponse('OpenAI API key not configured', 500);
+      const llm = await createLlmForRequest(db);
+      if (!llm) {
+        return errorResponse('No LLM provider configured', 500);
       }
 
       // Generate embedding from intent (not question)
-      const embedding = await calculateEmbedding(intent, openai);
+      const embedding = await calculateEmbedding(db, intent, llm);
 
       const data = await dbHelpers.insert(db, 'faqs', {
         question,
@@ -234,12 +532,22 @@ export default async function handler(req: Request) {
         asked_count: 0,
       });
 
+      // Questions that matched no FAQ may match the new one
+      await evictCachedFaqMatches(db, null);
+      await audit({ action: 'create', entityType: 'faq', entityId: data.id, after: data });
       return jsonResponse(data, 201);
     }
 
     if (path === '/api/faqs' && method === 'DELETE') {
+      const before = await dbHelpers.selectAll(db, 'faqs');
+      // Each FAQ keeps its history plus a final `delete` revision, so it can be restored.
+      // The id sequence is kept too: a new FAQ must not take over a deleted FAQ's revisions.
+      for (const faq of before || []) {
+        await saveFaqRevision(db, faq, adminSession?.username ?? null, 'delete');
+      }
       await dbHelpers.deleteAll(db, 'faqs');
-      await resetSequence(db, 'faqs');
+      await clearResponseCache(db);
+      await audit({ action: 'delete_all', entityType: 'faq', before });
       return new Response(null, { status: 204, headers: corsHeaders });
     }
 
@@ -263,7 +571,8 @@ export default async function handler(req: Request) {
       if (!existingFaq) return errorResponse('FAQ not found', 404);
 
       const intentChanged = existingFaq.intent !== intent;
-      const needsEmbeddingRecalc = intentChanged;
+      // A missing embedding (cleared while no provider was configured) is filled in on the next save
+      const needsEmbeddingRecalc = intentChanged || !existingFaq.embedding;
 
       const updateData: any = {
         question,
@@ -276,24 +585,130 @@ export default async function handler(req: Request) {
         updateData.media_ids = JSON.stringify(media_ids);
       }
 
-      if (needsEmbeddingRecalc && openai) {
+      const llm = needsEmbeddingRecalc ? await createLlmForRequest(db) : null;
+      if (llm) {
         // Generate embedding from intent (not question)
-        const embedding = await calculateEmbedding(intent, openai);
+        const embedding = await calculateEmbedding(db, intent, llm);
         updateData.embedding = JSON.stringify(embedding);
         updateData.embedding_updated_at = new Date().toISOString();
+      } else if (needsEmbeddingRecalc) {
+        // The old vector would keep matching the previous intent, so the FAQ goes unmatched instead
+        console.warn(`[FAQ] No LLM provider configured: embedding of FAQ ${id} cleared until its intent is saved again`);
+        updateData.embedding = null;
+        updateData.embedding_updated_at = null;
+      }
+
+      const contentChanged =
+        existingFaq.question !== question ||
+        existingFaq.answer !== answer ||
+        intentChanged ||
+        (updateData.media_ids !== undefined && updateData.media_ids !== (existingFaq.media_ids || '[]'));
+      if (contentChanged) {
+        await saveFaqRevision(db, existingFaq, adminSession?.username ?? null, 'edit');
       }
 
       const data = await dbHelpers.update(db, 'faqs', updateData, { column: 'id', value: id });
       if (!data) return errorResponse('FAQ not found', 404);
+      await invalidateCachedFaq(db, existingFaq, data);
+      await audit({ action: 'update', entityType: 'faq', entityId: id, before: existingFaq, after: data });
       return jsonResponse(data);
     }
 
     if (faqIdMatch && method === 'DELETE') {
       const id = parseInt(faqIdMatch[1]);
+      const existingFaq = await dbHelpers.selectOne(db, 'faqs', { column: 'id', value: id });
+      if (existingFaq) {
+        // The revisions are kept, ending with the deleted content, so the FAQ can be restored
+        await saveFaqRevision(db, existingFaq, adminSession?.username ?? null, 'delete');
+      }
       await dbHelpers.deleteWhere(db, 'faqs', { column: 'id', value: id });
+      await evictCachedFaqMatches(db, id);
+      if (existingFaq) {
+        await audit({ action: 'delete', entityType: 'faq', entityId: id, before: existingFaq });
+      }
       return new Response(null, { status: 204, headers: corsHeaders });
     }
 
+    // Route: /api/faqs/deleted (the content each deleted FAQ had when it was deleted)
+    if (path === '/api/faqs/deleted' && method === 'GET') {
+      const result = await db.execute(`
+        SELECT r.* FROM faq_revisions r
+        WHERE r.reason = 'delete'
+          AND r.faq_id NOT IN (SELECT id FROM faqs)
+          AND r.id = (SELECT MAX(id) FROM faq_revisions WHERE faq_id = r.faq_id)
+        ORDER BY r.id DESC
+      `);
+      return jsonResponse(result.rows);
+    }
+
+    // Route: /api/faqs/:id/revisions
+    const faqRevisionsMatch = path.match(/^\/api\/faqs\/(\d+)\/revisions$/);
+    if (faqRevisionsMatch && method === 'GET') {
+      const id = parseInt(faqRevisionsMatch[1]);
+      const data = await dbHelpers.selectWhere(db, 'faq_revisions', { column: 'faq_id', value: id }, '*', { column: 'id', ascending: false });
+      return jsonResponse(data || []);
+    }
+
+    // Route: /api/faqs/:id/revisions/:revisionId/restore
+    const faqRestoreMatch = path.match(/^\/api\/faqs\/(\d+)\/revisions\/(\d+)\/restore$/);
+    if (faqRestoreMatch && method === 'POST') {
+      const id = parseInt(faqRestoreMatch[1]);
+      const revisionId = parseInt(faqRestoreMatch[2]);
+
+      const revision = await dbHelpers.selectOne(db, 'faq_revisions', { column: 'id', value: revisionId });
+      if (!revision || Number(revision.faq_id) !== id) return errorResponse('Revision not found', 404);
+
+      const existingFaq = await dbHelpers.selectOne(db, 'faqs', { column: 'id', value: id });
+      if (!existingFaq) {
+        // A deleted FAQ comes back under its old id, so its revisions still belong to it
+        const llm = await createLlmForRequest(db);
+        if (!llm) {
+          return errorResponse('No LLM provider configured', 500);
+        }
+        const embedding = await calculateEmbedding(db, revision.intent, llm);
+        const data = await dbHelpers.insert(db, 'faqs', {
+          id,
+          question: revision.question,
+          answer: revision.answer,
+          intent: revision.intent,
+          embedding: JSON.stringify(embedding),
+          embedding_updated_at: new Date().toISOString(),
+          media_ids: revision.media_ids || '[]',
+          asked_count: 0,
+        });
+        // Questions that matched no FAQ may match the restored one
+        await evictCachedFaqMatches(db, null);
+        await audit({ action: 'restore', entityType: 'faq', entityId: id, after: data });
+        return jsonResponse(data, 201);
+      }
+
+      const updateData: any = {
+        question: revision.question,
+        answer: revision.answer,
+        intent: revision.intent,
+        media_ids: revision.media_ids || '[]',
+        updated_at: new Date().toISOString(),
+      };
+
+      if (existingFaq.intent !== revision.intent) {
+        const llm = await createLlmForRequest(db);
+        if (!llm) {
+          return errorResponse('No LLM provider configured', 500);
+        }
+        const embedding = await calculateEmbedding(db, revision.intent, llm);
+        updateData.embedding = JSON.stringify(embedding);
+        updateData.embedding_updated_at = new Date().toISOString();
+      }
+
+      // The version being replaced becomes a revision too, so a restore can itself be undone
+      await saveFaqRevision(db, existingFaq, adminSession?.username ?? null, 'restore');
+
+      const data = await dbHelpers.update(db, 'faqs', updateData, { column: 'id', value: id });
+      await invalidateCachedFaq(db, existingFaq, data);
+      await audit({ action: 'restore', entityType: 'faq', entityId: id, before: existingFaq, after: data });
+      return jsonResponse(data);
+    }
+
     // Route: /api/faqs/:id/increment
     const faqIncrementMatch = path.match(/^\/api\/faqs\/(\d+)\/increment$/);
     if (faqIncrementMatch && method === 'POST') {
@@ -317,12 +732,13 @@ export default async function handler(req: Request) {
         return errorResponse('question is required', 400);
       }
 
-      if (!openai) {
-        return errorResponse('OpenAI API key not configured', 500);
+      const llm = await createLlmForRequest(db);
+      if (!llm) {
+        return errorResponse('No LLM provider configured', 500);
       }
 
       try {
-        const intent = await generateCanonicalIntent(question, openai);
+        const intent = await generateCanonicalIntent(db, question, llm);
         return jsonResponse({ intent });
       } catch (error: any) {
         return errorResponse(error.message || 'Failed to generate intent', 500);
@@ -341,7 +757,7 @@ export default async function handler(req: Request) {
         return jsonResponse(data || []);
       } catch (error: any) {
         if (error.message?.includes('no such table')) {
-          return errorResponse('Tables not found. Please run the SQL schema in Turso database.', 500);
+          return errorResponse('Tables not found. Run `npm run db:migrate` against this database.', 500);
         }
         throw error;
       }
@@ -356,12 +772,16 @@ export default async function handler(req: Request) {
       }
 
       const data = await dbHelpers.insert(db, 'media', { title, url, type });
+      await audit({ action: 'create', entityType: 'media', entityId: data.id, after: data });
       return jsonResponse(data, 201);
     }
 
     if (path === '/api/media' && method === 'DELETE') {
+      const before = await dbHelpers.selectAll(db, 'media');
       await dbHelpers.deleteAll(db, 'media');
       await resetSequence(db, 'media');
+      await clearResponseCache(db);
+      await audit({ action: 'delete_all', entityType: 'media', before });
       return new Response(null, { status: 204, headers: corsHeaders });
     }
 
@@ -376,14 +796,22 @@ export default async function handler(req: Request) {
         return errorResponse('title, url and type are required', 400);
       }
 
+      const existingMedia = await dbHelpers.selectOne(db, 'media', { column: 'id', value: id });
       const data = await dbHelpers.update(db, 'media', { title, url, type }, { column: 'id', value: id });
       if (!data) return errorResponse('Media not found', 404);
+      await evictCachedMedia(db, id);
+      await audit({ action: 'update', entityType: 'media', entityId: id, before: existingMedia, after: data });
       return jsonResponse(data);
     }
 
     if (mediaIdMatch && method === 'DELETE') {
       const id = parseInt(mediaIdMatch[1]);
+      const existingMedia = await dbHelpers.selectOne(db, 'media', { column: 'id', value: id });
       await dbHelpers.deleteWhere(db, 'media', { column: 'id', value: id });
+      await evictCachedMedia(db, id);
+      if (existingMedia) {
+        await audit({ action: 'delete', entityType: 'media', entityId: id, before: existingMedia });
+      }
       return new Response(null, { status: 204, headers: corsHeaders });
     }
 
@@ -511,13 +939,11 @@ export default async function handler(req: Request) {
     }
 
     if (path === '/api/conversations' && method === 'GET') {
-      const adminCheck = requireAdmin(req);
-      if (!adminCheck.authorized) return errorResponse(adminCheck.error || 'Access denied', 403);
-
       try {
         const result = await db.execute(`
           SELECT 
             c.id, c.user_id, c.created_at, c.title, c.is_deleted_by_user,
+            c.urgent_flagged_at, c.urgent_followed_up_at,
             u.id as user_id_joined, u.name as user_name, u.created_at as user_created_at
           FROM conversations c
           LEFT JOIN users u ON c.user_id = u.id
@@ -530,6 +956,8 @@ export default async function handler(req: Request) {
           created_at: row.created_at,
           title: row.title,
           is_deleted_by_user: row.is_deleted_by_user,
+          urgent_flagged_at: row.urgent_flagged_at,
+          urgent_followed_up_at: row.urgent_followed_up_at,
           user: row.user_id_joined ? {
             id: row.user_id_joined,
             name: row.user_name,
@@ -543,6 +971,50 @@ export default async function handler(req: Request) {
       }
     }
 
+    // Route: /api/conversations/urgent - conversations flagged by the URGENT route, those awaiting follow-up first
+    if (path === '/api/conversations/urgent' && method === 'GET') {
+      const result = await db.execute(`
+        SELECT c.id, c.title, c.urgent_flagged_at, c.urgent_followed_up_at, u.name AS user_name,
+               (SELECT m.text FROM chat_messages m
+                WHERE m.conversation_id = c.id AND m.sender = 'user' AND m.route = 'URGENT'
+                ORDER BY m.created_at DESC LIMIT 1) AS message
+        FROM conversations c
+        LEFT JOIN users u ON c.user_id = u.id
+        WHERE c.urgent_flagged_at IS NOT NULL
+        ORDER BY c.urgent_followed_up_at IS NOT NULL, c.urgent_flagged_at DESC
+        LIMIT 50
+      `);
+      return jsonResponse(result.rows.map((row: any) => ({
+        id: row.id,
+        title: row.title,
+        userName: row.user_name,
+        flaggedAt: row.urgent_flagged_at,
+        followedUpAt: row.urgent_followed_up_at,
+        message: row.message,
+      })));
+    }
+
+    // Route: /api/conversations/:id/follow-up - staff have followed up an urgent conversation
+    const followUpMatch = path.match(/^\/api\/conversations\/(\d+)\/follow-up$/);
+    if (followUpMatch && method === 'POST') {
+      const id = parseInt(followUpMatch[1]);
+      const existing = await dbHelpers.selectOne(db, 'conversations', { column: 'id', value: id });
+      if (!existing?.urgent_flagged_at) {
+        return errorResponse('Conversation is not flagged as urgent', 404);
+      }
+
+      const followedUpAt = new Date().toISOString();
+      await dbHelpers.update(db, 'conversations', { urgent_followed_up_at: followedUpAt }, { column: 'id', value: id });
+      await audit({
+        action: 'update',
+        entityType: 'conversation',
+        entityId: id,
+        before: { urgent_followed_up_at: existing.urgent_followed_up_at ?? null },
+        after: { urgent_followed_up_at: followedUpAt },
+      });
+      return jsonResponse({ success: true, followedUpAt });
+    }
+
     // Route: /api/conversations/:id
     const conversationIdMatch = path.match(/^\/api\/conversations\/(\d+)$/);
     if (conversationIdMatch && method === 'PATCH') {
@@ -562,7 +1034,7 @@ export default async function handler(req: Request) {
         db,
         'chat_messages',
         { column: 'conversation_id', value: id },
-        'id, conversation_id, sender, text, media_urls, query_id, suggestions_json, created_at',
+        'id, conversation_id, sender, text, media_urls, query_id, suggestions_json, safety_flag, created_at',
         { column: 'created_at', ascending: true }
       );
       return jsonResponse(data || []);
@@ -571,41 +1043,58 @@ export default async function handler(req: Request) {
     // Route: /api/messages
     if (path === '/api/messages' && method === 'POST') {
       const body = await req.json();
-      const { conversationId, sender, text, mediaUrls, queryId, suggestions } = body || {};
-
-      console.log('[API_MESSAGES] Creating message with suggestions:', suggestions ? suggestions.length : 0);
+      const { conversationId, sender, text, mediaUrls, queryId, suggestions, clientMessageId, userId } = body || {};
 
       if (!conversationId || !sender || !text) {
         return errorResponse('conversationId, sender and text are required', 400);
       }
+      if (clientMessageId !== undefined && !isValidIdempotencyKey(clientMessageId)) {
+        return errorResponse('clientMessageId must be 8-100 letters, digits, dashes or underscores', 400);
+      }
 
+      const row = {
+        conversation_id: conversationId,
+        sender,
+        text,
+        media_urls: JSON.stringify(mediaUrls || []),
+        query_id: queryId || null,
+        suggestions_json: suggestions && suggestions.length > 0 ? JSON.stringify(suggestions) : null,
+      };
+      if (!clientMessageId) {
+        return jsonResponse(await dbHelpers.insert(db, 'chat_messages', row), 201);
+      }
+
+      // A retried send gets the row stored by its first attempt
+      const claim = await claimIdempotencyKey(db, 'message', clientMessageId, {
+        conversationId,
+        userId: typeof userId === 'string' ? userId : null,
+      });
+      if (claim.status === 'mismatch') return errorResponse('clientMessageId was already used for another conversation', 422);
+      if (claim.status === 'pending') return errorResponse('This message is still being saved', 409);
+      if (claim.status === 'completed') {
+        const stored = await dbHelpers.selectOne(db, 'chat_messages', { column: 'id', value: claim.response.id });
+        if (stored) return jsonResponse(stored, claim.statusCode);
+        return errorResponse('Message not found', 404);
+      }
+
+      // The row and the key's result are stored in one batch, so a saved row is never inserted twice
       try {
-        console.log('[API_MESSAGES] Saving with suggestions_json:', suggestions && suggestions.length > 0 ? `${suggestions.length} chips` : 'none');
-        const data = await dbHelpers.insert(db, 'chat_messages', {
-          conversation_id: conversationId,
-          sender,
-          text,
-          media_urls: JSON.stringify(mediaUrls || []),
-          query_id: queryId || null,
-          suggestions_json: suggestions && suggestions.length > 0 ? JSON.stringify(suggestions) : null,
-        });
-        console.log('[API_MESSAGES] Insert SUCCESS with suggestions');
-        return jsonResponse(data, 201);
-      } catch (insertErr: any) {
-        console.error('[API_MESSAGES] Insert error:', insertErr.message);
-        // If suggestions_json column doesn't exist, retry without it
-        if (insertErr.message && insertErr.message.includes('suggestions_json')) {
-          console.log('[API_MESSAGES] FALLBACK - suggestions_json column not found, retrying without');
-          const data = await dbHelpers.insert(db, 'chat_messages', {
-            conversation_id: conversationId,
-            sender,
-            text,
-            media_urls: JSON.stringify(mediaUrls || []),
-            query_id: queryId || null,
-          });
-          return jsonResponse(data, 201);
-        }
-        throw insertErr;
+        const [inserted] = await db.batch([
+          {
+            sql: `INSERT INTO chat_messages (conversation_id, sender, text, media_urls, query_id, suggestions_json)
+                  VALUES (?, ?, ?, ?, ?, ?)
+                  RETURNING *`,
+            args: [row.conversation_id, row.sender, row.text, row.media_urls, row.query_id, row.suggestions_json],
+          },
+          completeIdempotencyKeyStatement('message', clientMessageId, 201, {
+            sql: "json_object('id', last_insert_rowid())",
+            args: [],
+          }),
+        ], 'write');
+        return jsonResponse(inserted.rows[0], 201);
+      } catch (error) {
+        await releaseIdempotencyKey(db, 'message', clientMessageId).catch(e => console.error('Failed to release idempotency key:', e));
+        throw error;
       }
     }
 
@@ -635,26 +1124,24 @@ export default async function handler(req: Request) {
     }
 
     if (path === '/api/reports' && method === 'GET') {
-      const adminCheck = requireAdmin(req);
-      if (!adminCheck.authorized) return errorResponse(adminCheck.error || 'Access denied', 403);
-
       const data = await dbHelpers.selectAll(db, 'user_reports', '*', { column: 'created_at', ascending: false });
       return jsonResponse({ success: true, reports: data || [] });
     }
 
     if (path === '/api/reports' && method === 'DELETE') {
-      const adminCheck = requireAdmin(req);
-      if (!adminCheck.authorized) return errorResponse(adminCheck.error || 'Access denied', 403);
-
       const body = await req.json().catch(() => ({}));
       const { id } = body || {};
 
       if (id) {
+        const existingReport = await dbHelpers.selectOne(db, 'user_reports', { column: 'id', value: id });
         await dbHelpers.deleteWhere(db, 'user_reports', { column: 'id', value: id });
+        await audit({ action: 'delete', entityType: 'report', entityId: id, before: existingReport });
         return jsonResponse({ success: true, message: 'Report deleted' });
       } else {
+        const before = await dbHelpers.selectAll(db, 'user_reports');
         await dbHelpers.deleteAll(db, 'user_reports');
         await resetSequence(db, 'user_reports');
+        await audit({ action: 'delete_all', entityType: 'report', before });
         return jsonResponse({ success: true, message: 'All reports cleared' });
       }
     }
@@ -662,41 +1149,30 @@ export default async function handler(req: Request) {
     // Route: /api/reports/:id/status
     const reportStatusMatch = path.match(/^\/api\/reports\/(\d+)\/status$/);
     if (reportStatusMatch && method === 'PUT') {
-      const adminCheck = requireAdmin(req);
-      if (!adminCheck.authorized) return errorResponse(adminCheck.error || 'Access denied', 403);
-
       const id = parseInt(reportStatusMatch[1]);
       const body = await req.json();
       const { status } = body || {};
 
       if (!status) return errorResponse('status is required', 400);
 
+      const existingReport = await dbHelpers.selectOne(db, 'user_reports', { column: 'id', value: id });
       const data = await dbHelpers.update(db, 'user_reports', { status }, { column: 'id', value: id });
+      await audit({ action: 'update', entityType: 'report', entityId: id, before: existingReport, after: data });
       return jsonResponse({ success: true, report: data });
     }
 
     // Route: /api/reports/categories
     if (path === '/api/reports/categories' && method === 'GET') {
-      try {
-        const data = await db.execute({
-          sql: "SELECT name, display_order FROM report_categories ORDER BY display_order ASC, name ASC"
-        });
-        return jsonResponse({
-          success: true,
-          categories: (data.rows || []).map((r: any) => ({ name: r.name, order: r.display_order }))
-        });
-      } catch (error: any) {
-        if (error.message?.includes('no such table')) {
-          return jsonResponse({ success: true, categories: [] });
-        }
-        throw error;
-      }
+      const data = await db.execute({
+        sql: "SELECT name, display_order FROM report_categories ORDER BY display_order ASC, name ASC"
+      });
+      return jsonResponse({
+        success: true,
+        categories: (data.rows || []).map((r: any) => ({ name: r.name, order: r.display_order }))
+      });
     }
 
     if (path === '/api/reports/categories' && method === 'POST') {
-      const adminCheck = requireAdmin(req);
-      if (!adminCheck.authorized) return errorResponse(adminCheck.error || 'Access denied', 403);
-
       const body = await req.json();
       const { name } = body || {};
 
@@ -714,13 +1190,11 @@ export default async function handler(req: Request) {
         name: name.trim().toLowerCase(),
         display_order: newOrder
       });
+      await audit({ action: 'create', entityType: 'report_category', entityId: data.name, after: data });
       return jsonResponse({ success: true, category: data });
     }
 
     if (path === '/api/reports/categories' && method === 'DELETE') {
-      const adminCheck = requireAdmin(req);
-      if (!adminCheck.authorized) return errorResponse(adminCheck.error || 'Access denied', 403);
-
       const body = await req.json();
       const { name } = body || {};
 
@@ -728,15 +1202,14 @@ export default async function handler(req: Request) {
         return errorResponse('Category name is required', 400);
       }
 
+      const existingCategory = await dbHelpers.selectOne(db, 'report_categories', { column: 'name', value: name });
       await dbHelpers.deleteWhere(db, 'report_categories', { column: 'name', value: name });
+      await audit({ action: 'delete', entityType: 'report_category', entityId: name, before: existingCategory });
       return jsonResponse({ success: true });
     }
 
     // Route: /api/reports/categories/reorder
     if (path === '/api/reports/categories/reorder' && method === 'POST') {
-      const adminCheck = requireAdmin(req);
-      if (!adminCheck.authorized) return errorResponse(adminCheck.error || 'Access denied', 403);
-
       const body = await req.json();
       const { name, sourceIndex, targetIndex } = body || {};
 
@@ -758,31 +1231,52 @@ export default async function handler(req: Request) {
         await dbHelpers.update(db, 'report_categories', { display_order: i }, { column: 'name', value: reordered[i].name });
       }
 
+      await audit({
+        action: 'reorder',
+        entityType: 'report_category',
+        entityId: name,
+        before: categories.map(c => c.name),
+        after: reordered.map(c => c.name),
+      });
       return jsonResponse({ success: true });
     }
 
     // Route: /api/reset-all-user-data
     if (path === '/api/reset-all-user-data' && method === 'DELETE') {
-      const adminCheck = requireAdmin(req);
-      if (!adminCheck.authorized) return errorResponse(adminCheck.error || 'Access denied', 403);
-
       try {
+        const [reports, messages, conversations, users, traces] = await Promise.all([
+          dbHelpers.count(db, 'user_reports'),
+          dbHelpers.count(db, 'chat_messages'),
+          dbHelpers.count(db, 'conversations'),
+          dbHelpers.count(db, 'users'),
+          dbHelpers.count(db, 'pipeline_traces'),
+        ]);
+
         // Order matters for foreign keys
         await db.execute("DELETE FROM user_reports");
         await resetSequence(db, 'user_reports');
 
-        await db.execute("DELETE FROM chat_messages");
+        // Replies stored for retried sends point at these messages
+        await db.batch(["DELETE FROM chat_messages", "DELETE FROM idempotency_keys"], 'write');
         await resetSequence(db, 'chat_messages');
 
+        await db.execute("DELETE FROM pipeline_traces");
+        await resetSequence(db, 'pipeline_traces');
+
         await db.execute("DELETE FROM conversations");
         await resetSequence(db, 'conversations');
 
         await db.execute("DELETE FROM users");
         await resetSequence(db, 'users');
 
+        // Cached replies are keyed by what users asked
+        await clearResponseCache(db);
+
         // Reset FAQ asked counts
         await db.execute("UPDATE faqs SET asked_count = 0");
 
+        // Row counts only: the deleted user data itself is not copied into the log
+        await audit({ action: 'reset', entityType: 'user_data', before: { reports, messages, conversations, users, traces } });
         return jsonResponse({ success: true, message: 'All user data has been reset' });
       } catch (error: any) {
         console.error('Reset user data failed:', error);
@@ -791,24 +1285,41 @@ export default async function handler(req: Request) {
     }
 
     // Route: /api/settings/cache - GET and PUT
+    // { enabled, semanticThreshold }: the semantic cache threshold is null when it is off
     if (path === '/api/settings/cache') {
-      const adminCheck = requireAdmin(req);
-      if (!adminCheck.authorized) return errorResponse(adminCheck.error || 'Access denied', 403);
-
       if (method === 'GET') {
         try {
           const setting = await dbHelpers.selectOne(db, 'app_settings', { column: 'key', value: 'cache_enabled' });
           const enabled = setting?.value !== 'false';
-          return jsonResponse({ enabled });
+          return jsonResponse({ enabled, semanticThreshold: await loadSemanticCacheThreshold(db) });
         } catch (error: any) {
           console.error('Get cache status failed:', error);
-          return jsonResponse({ enabled: true }); // Default to enabled
+          return jsonResponse({ enabled: true, semanticThreshold: null }); // Default to enabled
         }
       }
 
       if (method === 'PUT') {
         try {
           const body = await req.json();
+
+          if (body.semanticThreshold !== undefined) {
+            const threshold = parseSemanticCacheThreshold(body.semanticThreshold);
+            if (threshold === undefined) {
+              return errorResponse(`semanticThreshold must be null or between ${MIN_SEMANTIC_CACHE_THRESHOLD} and 1`, 400);
+            }
+            const before = await saveSemanticCacheThreshold(db, threshold);
+            await audit({
+              action: 'update',
+              entityType: 'setting',
+              entityId: SEMANTIC_CACHE_THRESHOLD_KEY,
+              before: { value: before },
+              after: { value: threshold },
+            });
+            if (body.enabled === undefined) {
+              return jsonResponse({ success: true, semanticThreshold: threshold });
+            }
+          }
+
           const enabled = body.enabled !== false;
 
           // Check if setting exists
@@ -820,6 +1331,14 @@ export default async function handler(req: Request) {
             await dbHelpers.insert(db, 'app_settings', { key: 'cache_enabled', value: String(enabled) });
           }
 
+          await audit({
+            action: 'update',
+            entityType: 'setting',
+            entityId: 'cache_enabled',
+            before: existing ? { value: existing.value } : null,
+            after: { value: String(enabled) },
+          });
+
           return jsonResponse({ success: true, enabled });
         } catch (error: any) {
           console.error('Update cache status failed:', error);
@@ -828,6 +1347,181 @@ export default async function handler(req: Request) {
       }
     }
 
+    // Route: /api/cache - GET (cached replies, ?search= and ?faqId=) and DELETE (all, or ?faqId= for one FAQ's)
+    if (path === '/api/cache') {
+      const faqId = parseInt(url.searchParams.get('faqId') || '') || null;
+
+      if (method === 'GET') {
+        const entries = await listResponseCache(db, { search: url.searchParams.get('search'), faqId });
+        return jsonResponse({ success: true, entries });
+      }
+
+      if (method === 'DELETE') {
+        const purged = faqId ? await purgeCachedFaq(db, faqId) : await clearResponseCache(db);
+        await audit({
+          action: 'delete_all',
+          entityType: 'cache_entry',
+          entityId: faqId ? `faq:${faqId}` : null,
+          before: { entries: purged },
+        });
+        return jsonResponse({ success: true, purged });
+      }
+    }
+
+    // Route: /api/cache/stats - cache hit, partial-hit and miss counts per day
+    if (path === '/api/cache/stats' && method === 'GET') {
+      const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '30') || 30, 1), 365);
+      return jsonResponse({ success: true, ...await summarizeCacheOutcomes(db, days) });
+    }
+
+    // Route: /api/cache/:id
+    const cacheEntryMatch = path.match(/^\/api\/cache\/(\d+)$/);
+    if (cacheEntryMatch && method === 'DELETE') {
+      const id = parseInt(cacheEntryMatch[1]);
+      const existing = await getResponseCacheEntry(db, id);
+      if (!existing) return errorResponse('Cache entry not found', 404);
+      await deleteResponseCacheEntry(db, id);
+      await audit({ action: 'delete', entityType: 'cache_entry', entityId: id, before: existing });
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    // Route: /api/cache/:id/pin - body { pinned: boolean }; pinned entries never expire
+    const cachePinMatch = path.match(/^\/api\/cache\/(\d+)\/pin$/);
+    if (cachePinMatch && method === 'PUT') {
+      const id = parseInt(cachePinMatch[1]);
+      const body = await req.json().catch(() => null);
+      if (typeof body?.pinned !== 'boolean') return errorResponse('pinned must be true or false', 400);
+
+      const existing = await getResponseCacheEntry(db, id);
+      if (!existing) return errorResponse('Cache entry not found', 404);
+      await setResponseCachePinned(db, id, body.pinned);
+      const entry = await getResponseCacheEntry(db, id);
+      await audit({ action: 'update', entityType: 'cache_entry', entityId: id, before: existing, after: entry });
+      return jsonResponse({ success: true, entry });
+    }
+
+    // Route: /api/settings/budget - GET (spend against the LLM budget) and PUT (limits)
+    if (path === '/api/settings/budget') {
+      if (method === 'GET') {
+        const status = await getLlmBudgetStatus(db);
+        return jsonResponse({ success: true, ...status });
+      }
+
+      if (method === 'PUT') {
+        try {
+          const body = await req.json();
+          const limits = [body.dailyUsd, body.monthlyUsd];
+          if (limits.some(limit => limit !== null && limit !== undefined && limit !== '' && !(Number(limit) >= 0))) {
+            return errorResponse('Budget limits must be amounts in USD, or empty for no limit', 400);
+          }
+
+          const before = await saveLlmBudget(db, { dailyUsd: body.dailyUsd ?? null, monthlyUsd: body.monthlyUsd ?? null });
+          const status = await getLlmBudgetStatus(db);
+          await audit({
+            action: 'update',
+            entityType: 'setting',
+            entityId: 'llm_budget',
+            before,
+            after: status.budget,
+          });
+
+          return jsonResponse({ success: true, ...status });
+        } catch (error: any) {
+          console.error('Update LLM budget failed:', error);
+          return errorResponse('Failed to update LLM budget', 500, error.message);
+        }
+      }
+    }
+
+    // Route: /api/settings/clinic - GET and PUT (contact details quoted in urgent-care replies)
+    if (path === '/api/settings/clinic') {
+      if (method === 'GET') {
+        return jsonResponse({ success: true, contact: await loadClinicContact(db) });
+      }
+
+      if (method === 'PUT') {
+        try {
+          const body = await req.json();
+          const contact = body?.contact || {};
+          if (['name', 'phone', 'address', 'hours'].some(field => String(contact[field] ?? '').length > MAX_CLINIC_FIELD_LENGTH)) {
+            return errorResponse(`Clinic contact fields are limited to ${MAX_CLINIC_FIELD_LENGTH} characters`, 400);
+          }
+
+          const before = await saveClinicContact(db, contact);
+          const after = await loadClinicContact(db);
+          await audit({
+            action: 'update',
+            entityType: 'setting',
+            entityId: 'clinic_contact',
+            before,
+            after,
+          });
+
+          return jsonResponse({ success: true, contact: after });
+        } catch (error: any) {
+          console.error('Update clinic contact failed:', error);
+          return errorResponse('Failed to update clinic contact', 500, error.message);
+        }
+      }
+    }
+
+    // Route: /api/settings/llm - GET and PUT (provider and model per LLM task)
+    if (path === '/api/settings/llm') {
+      const providers = createProviders();
+      const settings = async () => ({
+        assignments: await loadLlmAssignments(db),
+        defaults: defaultAssignments(),
+        providers: LLM_PROVIDER_IDS.map(id => ({ id, configured: !!providers[id] })),
+      });
+
+      if (method === 'GET') {
+        return jsonResponse({ success: true, ...await settings() });
+      }
+
+      if (method === 'PUT') {
+        try {
+          const body = await req.json();
+          const before = await loadLlmAssignments(db);
+          const error = await saveLlmAssignments(db, body?.assignments || {}, providers);
+          if (error) return errorResponse(error, 400);
+
+          const updated = await settings();
+          await audit({ action: 'update', entityType: 'setting', entityId: 'llm_assignments', before, after: updated.assignments });
+          return jsonResponse({ success: true, ...updated });
+        } catch (error: any) {
+          console.error('Update LLM settings failed:', error);
+          return errorResponse('Failed to update LLM settings', 500, error.message);
+        }
+      }
+    }
+
+    // Route: /api/audit-log
+    if (path === '/api/audit-log' && method === 'GET') {
+      const { entries, actors } = await listAudit(db, {
+        entityType: url.searchParams.get('entity'),
+        actor: url.searchParams.get('actor'),
+        from: url.searchParams.get('from'),
+        to: url.searchParams.get('to'),
+        limit: parseInt(url.searchParams.get('limit') || '200'),
+      });
+      return jsonResponse({ success: true, entries, actors });
+    }
+
+    // Route: /api/usage - LLM spend per day, stage and conversation, and how often queries fell back
+    if (path === '/api/usage' && method === 'GET') {
+      const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '30') || 30, 1), 365);
+      const [summary, fallbacks] = await Promise.all([summarizeLlmUsage(db, days), summarizeFallbacks(db, days)]);
+      return jsonResponse({ success: true, ...summary, fallbacks });
+    }
+
+    // Route: /api/traces/:queryId
+    const traceMatch = path.match(/^\/api\/traces\/([\w-]+)$/);
+    if (traceMatch && method === 'GET') {
+      const trace = await loadTrace(db, traceMatch[1]);
+      if (!trace) return errorResponse('Trace not found', 404);
+      return jsonResponse({ success: true, trace });
+    }
+
     // 404 for unmatched routes
     console.log(`[API] 404 - No route matched: ${method} ${path}`);
     return errorResponse('Not found', 404);
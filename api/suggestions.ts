@@ -1,14 +1,18 @@
 
-import { createClient } from '@libsql/client';
-import OpenAI from 'openai';
 import * as dbHelpers from '../lib/dbHelpers';
+import { createDb } from '../lib/turso';
+import { createLlmForRequest } from '../lib/llm';
+import { requireAdmin } from '../lib/adminGuard';
+import { recordAudit, type AuditEntry } from '../lib/audit';
+import { withLlmUsage } from '../lib/llmUsage';
+import { evictCachedShortQueries } from '../lib/responseCache';
 
 export const config = { runtime: 'edge' };
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 };
 
 // ... (imports remain)
@@ -18,14 +22,19 @@ export default async function handler(req: Request) {
         return new Response('ok', { headers: corsHeaders });
     }
 
-    const db = createClient({
-        url: process.env.TURSO_DATABASE_URL || 'libsql://dentalcare-ai-zunxo7.aws-ap-south-1.turso.io',
-        authToken: process.env.TURSO_AUTH_TOKEN,
-    });
+    const db = createDb();
 
-    const openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-    });
+    // Suggestion groups are only managed from the dashboard, so every method is admin-only
+    const adminCheck = await requireAdmin(req, db, 'suggestions');
+    if (!adminCheck.authorized) {
+        return new Response(JSON.stringify({ error: adminCheck.error || 'Access denied' }), {
+            status: adminCheck.status || 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+    }
+
+    const audit = (entry: AuditEntry) =>
+        recordAudit(db, adminCheck.session, `${req.method} ${new URL(req.url).pathname}`, entry);
 
     try {
         const url = new URL(req.url);
@@ -51,6 +60,7 @@ export default async function handler(req: Request) {
             }
 
             // 1. Process all chips: Translate in parallel
+            const llm = await createLlmForRequest(db);
             const processedChips = await Promise.all(chips.map(async (chip: any) => {
                 const translationPrompt = `
                 You are a professional translator for a dental chatbot.
@@ -68,13 +78,10 @@ export default async function handler(req: Request) {
                 `;
 
                 try {
-                    const completion = await openai.chat.completions.create({
-                        model: 'gpt-4o-mini',
+                    if (!llm) throw new Error('No LLM provider configured');
+                    const translations = await withLlmUsage(db, 'translateChips', llm, llm => llm.chatJson<{ urdu?: string; roman?: string }>('translation', {
                         messages: [{ role: 'system', content: 'You are a translator.' }, { role: 'user', content: translationPrompt }],
-                        response_format: { type: 'json_object' },
-                    });
-
-                    const translations = JSON.parse(completion.choices[0].message.content || '{}');
+                    }));
                     return {
                         text_en: chip.text_en,
                         text_ur: translations.urdu || chip.text_en,
@@ -98,6 +105,9 @@ export default async function handler(req: Request) {
                 keywords,
                 chips_json: JSON.stringify(processedChips),
             });
+            // Short queries may now get (other) chips, so their cached replies are stale
+            await evictCachedShortQueries(db);
+            await audit({ action: 'create', entityType: 'suggestion', entityId: newGroup.id, after: newGroup });
 
             return new Response(JSON.stringify(newGroup), {
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -108,7 +118,10 @@ export default async function handler(req: Request) {
             const id = url.searchParams.get('id');
             if (!id) return new Response('Missing ID', { status: 400, headers: corsHeaders });
 
+            const existing = await dbHelpers.selectOne(db, 'suggestions', { column: 'id', value: Number(id) });
             await dbHelpers.deleteWhere(db, 'suggestions', { column: 'id', value: Number(id) });
+            await evictCachedShortQueries(db);
+            await audit({ action: 'delete', entityType: 'suggestion', entityId: id, before: existing });
             return new Response(JSON.stringify({ success: true }), {
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
             });
@@ -122,6 +135,7 @@ export default async function handler(req: Request) {
             }
 
             // Process all chips: Translate in parallel
+            const llm = await createLlmForRequest(db);
             const processedChips = await Promise.all(chips.map(async (chip: any) => {
                 const translationPrompt = `
                 You are a professional translator for a dental chatbot.
@@ -139,13 +153,10 @@ export default async function handler(req: Request) {
                 `;
 
                 try {
-                    const completion = await openai.chat.completions.create({
-                        model: 'gpt-4o-mini',
+                    if (!llm) throw new Error('No LLM provider configured');
+                    const translations = await withLlmUsage(db, 'translateChips', llm, llm => llm.chatJson<{ urdu?: string; roman?: string }>('translation', {
                         messages: [{ role: 'system', content: 'You are a translator.' }, { role: 'user', content: translationPrompt }],
-                        response_format: { type: 'json_object' },
-                    });
-
-                    const translations = JSON.parse(completion.choices[0].message.content || '{}');
+                    }));
                     return {
                         text_en: chip.text_en,
                         text_ur: translations.urdu || chip.text_en,
@@ -164,10 +175,13 @@ export default async function handler(req: Request) {
             }));
 
             // Update in DB
-            await dbHelpers.update(db, 'suggestions', {
+            const existing = await dbHelpers.selectOne(db, 'suggestions', { column: 'id', value: Number(id) });
+            const updated = await dbHelpers.update(db, 'suggestions', {
                 keywords,
                 chips_json: JSON.stringify(processedChips),
             }, { column: 'id', value: Number(id) });
+            await evictCachedShortQueries(db);
+            await audit({ action: 'update', entityType: 'suggestion', entityId: id, before: existing, after: updated });
 
             return new Response(JSON.stringify({ success: true, id }), {
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../lib/apiClient';
+import type { ClinicContact } from '../types';
+
+interface ClinicContactSettingsProps {
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const FIELDS: { field: keyof ClinicContact; label: string; placeholder: string }[] = [
+    { field: 'name', label: 'Clinic name', placeholder: 'DentalCare Orthodontics' },
+    { field: 'phone', label: 'Phone', placeholder: '+92 300 1234567' },
+    { field: 'address', label: 'Address', placeholder: 'Street, city' },
+    { field: 'hours', label: 'Hours', placeholder: 'Mon-Sat 9am-6pm' },
+];
+
+/**
+ * Contact details quoted in urgent-care replies (GET/PUT /api/settings/clinic)
+ */
+const ClinicContactSettings: React.FC<ClinicContactSettingsProps> = ({ showToast }) => {
+    const [contact, setContact] = useState<ClinicContact | null>(null);
+    const [draft, setDraft] = useState<ClinicContact | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        loadContact();
+    }, []);
+
+    const loadContact = async () => {
+        try {
+            const data = await api.getClinicContact();
+            setContact(data.contact);
+            setDraft(data.contact);
+        } catch (error) {
+            console.error('Failed to load clinic contact:', error);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setIsSaving(true);
+        try {
+            const data = await api.setClinicContact(draft);
+            setContact(data.contact);
+            setDraft(data.contact);
+            showToast('Clinic contact saved', 'success');
+        } catch (error: any) {
+            console.error('Failed to save clinic contact:', error);
+            showToast(`Failed to save clinic contact: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!contact || !draft) return null;
+
+    const isChanged = JSON.stringify(draft) !== JSON.stringify(contact);
+
+    return (
+        <div className="mt-4 p-4 bg-background rounded-lg border border-border">
+            <h3 className="font-semibold text-text-primary">Clinic Contact</h3>
+            <p className="text-sm text-text-secondary mt-1">
+                Shown to patients who describe urgent symptoms such as facial swelling, heavy bleeding, an injury,
+                trouble breathing or fever. Empty fields are left out.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-4">
+                {FIELDS.map(({ field, label, placeholder }) => (
+                    <label key={field} className="text-xs text-text-secondary">
+                        {label}
+                        <input
+                            type="text"
+                            maxLength={200}
+                            value={draft[field]}
+                            onChange={e => setDraft({ ...draft, [field]: e.target.value })}
+                            placeholder={placeholder}
+                            className="block mt-1 w-full bg-surface border border-border rounded-md px-3 py-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                    </label>
+                ))}
+            </div>
+            <div className="flex justify-end mt-4">
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving || !isChanged}
+                    className="bg-primary text-background px-4 py-2 rounded-md hover:bg-primary-hover font-semibold transition-colors text-sm disabled:opacity-50"
+                >
+                    {isSaving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ClinicContactSettings;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { diffFields, diffWords, formatValue } from '../lib/diff';
+
+interface DiffViewProps {
+    before: unknown;
+    after: unknown;
+    layout?: 'inline' | 'split'; // split: before on the left, after on the right
+    beforeLabel?: string;
+    afterLabel?: string;
+}
+
+const SEGMENT_STYLES = {
+    same: '',
+    added: 'bg-primary/20 text-primary',
+    removed: 'bg-accent/20 text-accent line-through',
+};
+
+const TextDiff: React.FC<{ before: string; after: string; layout: 'inline' | 'split' }> = ({ before, after, layout }) => {
+    const segments = diffWords(before, after);
+    const renderSegments = (hide?: 'added' | 'removed') => (
+        <pre className="whitespace-pre-wrap break-words text-xs font-mono text-text-primary">
+            {segments.map((segment, index) => segment.type === hide ? null : (
+                <span key={index} className={SEGMENT_STYLES[segment.type]}>{segment.text}</span>
+            ))}
+        </pre>
+    );
+
+    if (layout === 'inline') return renderSegments();
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="bg-accent/5 rounded p-2">{renderSegments('added')}</div>
+            <div className="bg-primary/5 rounded p-2">{renderSegments('removed')}</div>
+        </div>
+    );
+};
+
+const DiffView: React.FC<DiffViewProps> = ({ before, after, layout = 'inline', beforeLabel, afterLabel }) => {
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const fields = diffFields(before, after);
+    const changedCount = fields.filter(f => f.changed).length;
+    const visibleFields = showUnchanged ? fields : fields.filter(f => f.changed);
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-text-secondary">
+                <span>{changedCount} changed field{changedCount === 1 ? '' : 's'}</span>
+                {fields.length > changedCount && (
+                    <button type="button" onClick={() => setShowUnchanged(prev => !prev)} className="text-primary hover:underline">
+                        {showUnchanged ? 'Hide unchanged' : `Show unchanged (${fields.length - changedCount})`}
+                    </button>
+                )}
+            </div>
+            {layout === 'split' && (beforeLabel || afterLabel) && (
+                <div className="hidden md:grid grid-cols-2 gap-2 text-xs font-semibold text-text-secondary">
+                    <span>{beforeLabel}</span>
+                    <span>{afterLabel}</span>
+                </div>
+            )}
+            {visibleFields.length === 0 && (
+                <p className="text-xs text-text-secondary">No differences.</p>
+            )}
+            {visibleFields.map(field => (
+                <div key={field.key || 'value'} className="bg-background rounded-lg border border-border p-3">
+                    {field.key && (
+                        <p className={`text-xs font-semibold mb-1 ${field.changed ? 'text-text-primary' : 'text-text-secondary'}`}>{field.key}</p>
+                    )}
+                    {field.changed && typeof (field.before ?? '') === 'string' && typeof (field.after ?? '') === 'string' ? (
+                        <TextDiff before={formatValue(field.before)} after={formatValue(field.after)} layout={layout} />
+                    ) : field.changed ? (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            <pre className="whitespace-pre-wrap break-words text-xs font-mono bg-accent/10 text-accent rounded p-2 max-h-64 overflow-auto">{formatValue(field.before) || '—'}</pre>
+                            <pre className="whitespace-pre-wrap break-words text-xs font-mono bg-primary/10 text-primary rounded p-2 max-h-64 overflow-auto">{formatValue(field.after) || '—'}</pre>
+                        </div>
+                    ) : (
+                        <pre className="whitespace-pre-wrap break-words text-xs font-mono text-text-secondary">{formatValue(field.after)}</pre>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default DiffView;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../lib/apiClient';
+import type { LlmAssignments, LlmProviderId, LlmSettings, LlmTask } from '../types';
+
+interface LlmModelSettingsProps {
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const TASKS: { task: LlmTask; label: string; description: string }[] = [
+    { task: 'routing', label: 'Routing', description: 'Chooses FAQ, education, general or a fixed reply' },
+    { task: 'intent', label: 'Intent', description: 'Canonical intent and follow-up rewriting' },
+    { task: 'selection', label: 'FAQ selection', description: 'Picks the best FAQ among the embedding matches' },
+    { task: 'translation', label: 'Translation', description: 'Urdu and Roman Urdu in and out, suggestion chips' },
+    { task: 'generation', label: 'Generation', description: 'Answers that are not FAQ text' },
+    { task: 'embedding', label: 'Embeddings', description: 'FAQ search. Stored FAQ embeddings were made with the current model and are not recalculated on a switch' },
+];
+
+const PROVIDER_LABELS: Record<LlmProviderId, string> = {
+    openai: 'OpenAI',
+    openrouter: 'OpenRouter',
+    compatible: 'OpenAI-compatible server',
+    stub: 'Test stub',
+};
+
+/**
+ * Provider and model per LLM task (GET/PUT /api/settings/llm)
+ */
+const LlmModelSettings: React.FC<LlmModelSettingsProps> = ({ showToast }) => {
+    const [settings, setSettings] = useState<LlmSettings | null>(null);
+    const [draft, setDraft] = useState<LlmAssignments | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        loadSettings();
+    }, []);
+
+    const loadSettings = async () => {
+        try {
+            const data = await api.getLlmSettings();
+            setSettings(data);
+            setDraft(data.assignments);
+        } catch (error) {
+            console.error('Failed to load LLM settings:', error);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setIsSaving(true);
+        try {
+            const data = await api.setLlmAssignments(draft);
+            setSettings(data);
+            setDraft(data.assignments);
+            showToast('LLM models saved', 'success');
+        } catch (error: any) {
+            console.error('Failed to save LLM settings:', error);
+            showToast(`Failed to save LLM models: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!settings || !draft) return null;
+
+    const isChanged = JSON.stringify(draft) !== JSON.stringify(settings.assignments);
+
+    return (
+        <div className="mt-4 p-4 bg-background rounded-lg border border-border">
+            <div className="flex justify-between items-start gap-3">
+                <div>
+                    <h3 className="font-semibold text-text-primary">LLM Models</h3>
+                    <p className="text-sm text-text-secondary mt-1">
+                        Provider and model used for each step. Only providers configured on the server can be chosen.
+                    </p>
+                </div>
+                <button
+                    onClick={() => setDraft(settings.defaults)}
+                    className="text-xs text-text-secondary hover:text-primary whitespace-nowrap"
+                >
+                    Use defaults
+                </button>
+            </div>
+            <div className="mt-4 space-y-3">
+                {TASKS.map(({ task, label, description }) => (
+                    <div key={task} className="grid grid-cols-1 md:grid-cols-[12rem_1fr_1fr] gap-2 items-center">
+                        <div>
+                            <p className="text-sm font-medium text-text-primary">{label}</p>
+                            <p className="text-xs text-text-secondary">{description}</p>
+                        </div>
+                        <select
+                            value={draft[task].provider}
+                            onChange={e => setDraft({ ...draft, [task]: { ...draft[task], provider: e.target.value as LlmProviderId } })}
+                            className="bg-surface border border-border rounded-md px-3 py-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                        >
+                            {settings.providers.map(provider => (
+                                <option key={provider.id} value={provider.id} disabled={!provider.configured}>
+                                    {PROVIDER_LABELS[provider.id]}{provider.configured ? '' : ' (not configured)'}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type="text"
+                            value={draft[task].model}
+                            onChange={e => setDraft({ ...draft, [task]: { ...draft[task], model: e.target.value } })}
+                            placeholder={settings.defaults[task].model}
+                            className="bg-surface border border-border rounded-md px-3 py-2 text-sm text-text-primary font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-end mt-4">
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving || !isChanged}
+                    className="bg-primary text-background px-4 py-2 rounded-md hover:bg-primary-hover font-semibold transition-colors text-sm disabled:opacity-50"
+                >
+                    {isSaving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default LlmModelSettings;
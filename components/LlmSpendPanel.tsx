@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../lib/apiClient';
+import type { FallbackSummary, LlmUsageSummary } from '../types';
+import { SpinnerIcon } from './icons';
+
+const PERIODS = [7, 30, 90];
+
+const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+
+/**
+ * Estimated LLM spend from `llm_usage`: daily totals, cost per conversation and the most expensive stages,
+ * plus how many queries fell back because a model call failed
+ */
+const LlmSpendPanel: React.FC = () => {
+    const [days, setDays] = useState(30);
+    const [usage, setUsage] = useState<(LlmUsageSummary & { fallbacks: FallbackSummary }) | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        loadUsage();
+    }, [days]);
+
+    const loadUsage = async () => {
+        setIsLoading(true);
+        try {
+            setUsage(await api.getLlmUsage(days));
+        } catch (error) {
+            console.error('Failed to load LLM usage:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const maxDaily = usage ? Math.max(...usage.daily.map(day => day.costUsd), 0) : 0;
+    const maxStage = usage ? Math.max(...usage.byStage.map(stage => stage.costUsd), 0) : 0;
+
+    return (
+        <div className="mt-8 bg-surface p-6 rounded-xl border border-border">
+            <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3 mb-6">
+                <div>
+                    <h2 className="text-xl font-bold text-text-primary mb-2">LLM Spend</h2>
+                    <p className="text-sm text-text-secondary">Estimated from token usage and list prices; every model call is counted</p>
+                </div>
+                <div className="flex gap-1 bg-background rounded-full p-1 border border-border w-fit">
+                    {PERIODS.map(period => (
+                        <button
+                            key={period}
+                            onClick={() => setDays(period)}
+                            className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${days === period ? 'bg-primary text-background' : 'text-text-secondary hover:text-text-primary'}`}
+                        >
+                            {period}d
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {!usage ? (
+                <div className="flex justify-center items-center py-8">
+                    {isLoading ? <SpinnerIcon className="w-8 h-8 text-primary" /> : <p className="text-text-secondary">Usage unavailable.</p>}
+                </div>
+            ) : (
+                <div className={`space-y-6 ${isLoading ? 'opacity-60' : ''}`}>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                        <div className="p-4 bg-background rounded-lg border border-border">
+                            <p className="text-xs text-text-secondary">Total ({usage.days} days)</p>
+                            <p className="text-2xl font-bold text-text-primary">{formatUsd(usage.totalCostUsd)}</p>
+                            <p className="text-xs text-text-secondary">{usage.calls} calls · {usage.totalTokens.toLocaleString()} tokens</p>
+                        </div>
+                        <div className="p-4 bg-background rounded-lg border border-border">
+                            <p className="text-xs text-text-secondary">Per conversation</p>
+                            <p className="text-2xl font-bold text-text-primary">{formatUsd(usage.conversations.averageCostUsd)}</p>
+                            <p className="text-xs text-text-secondary">average over {usage.conversations.count} conversations</p>
+                        </div>
+                        <div className="p-4 bg-background rounded-lg border border-border">
+                            <p className="text-xs text-text-secondary">Most expensive stage</p>
+                            <p className="text-2xl font-bold text-text-primary truncate">{usage.byStage[0]?.stage || '—'}</p>
+                            <p className="text-xs text-text-secondary">{usage.byStage[0] ? `${formatUsd(usage.byStage[0].costUsd)} · ${usage.byStage[0].calls} calls` : 'No calls yet'}</p>
+                        </div>
+                        <div className="p-4 bg-background rounded-lg border border-border">
+                            <p className="text-xs text-text-secondary">Queries with a fallback</p>
+                            <p className={`text-2xl font-bold ${usage.fallbacks.degradedQueries > 0 ? 'text-accent' : 'text-text-primary'}`}>
+                                {usage.fallbacks.queries > 0 ? `${((usage.fallbacks.degradedQueries / usage.fallbacks.queries) * 100).toFixed(1)}%` : '—'}
+                            </p>
+                            <p className="text-xs text-text-secondary truncate">
+                                {usage.fallbacks.degradedQueries} of {usage.fallbacks.queries} queries{usage.fallbacks.byStep[0] && ` · mostly ${usage.fallbacks.byStep[0].step}`}
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div>
+                            <h3 className="font-semibold text-text-primary mb-3">Daily spend</h3>
+                            {usage.daily.length === 0 ? (
+                                <p className="text-sm text-text-secondary">No LLM calls in this period.</p>
+                            ) : (
+                                <ul className="space-y-1.5">
+                                    {usage.daily.map(day => (
+                                        <li key={day.date} className="flex items-center gap-3 text-xs">
+                                            <span className="w-20 text-text-secondary font-mono">{day.date.slice(5)}</span>
+                                            <div className="flex-1 h-2 bg-background rounded-full overflow-hidden">
+                                                <div className="h-full bg-primary" style={{ width: `${maxDaily > 0 ? (day.costUsd / maxDaily) * 100 : 0}%` }} />
+                                            </div>
+                                            <span className="w-16 text-right text-text-primary">{formatUsd(day.costUsd)}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+
+                        <div>
+                            <h3 className="font-semibold text-text-primary mb-3">By stage</h3>
+                            {usage.byStage.length === 0 ? (
+                                <p className="text-sm text-text-secondary">No LLM calls in this period.</p>
+                            ) : (
+                                <ul className="space-y-1.5">
+                                    {usage.byStage.map(stage => (
+                                        <li key={stage.stage} className="flex items-center gap-3 text-xs">
+                                            <span className="w-40 truncate text-text-secondary font-mono">{stage.stage}</span>
+                                            <div className="flex-1 h-2 bg-background rounded-full overflow-hidden">
+                                                <div className="h-full bg-secondary" style={{ width: `${maxStage > 0 ? (stage.costUsd / maxStage) * 100 : 0}%` }} />
+                                            </div>
+                                            <span className="w-16 text-right text-text-primary">{formatUsd(stage.costUsd)}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </div>
+
+                    {usage.conversations.top.length > 0 && (
+                        <div>
+                            <h3 className="font-semibold text-text-primary mb-3">Most expensive conversations</h3>
+                            <ul className="divide-y divide-border text-sm">
+                                {usage.conversations.top.map(conversation => (
+                                    <li key={conversation.conversationId} className="flex justify-between gap-3 py-2">
+                                        <span className="truncate text-text-primary">{conversation.title || `Conversation #${conversation.conversationId}`}</span>
+                                        <span className="text-text-secondary whitespace-nowrap">
+                                            {conversation.queries} queries · <span className="text-text-primary font-semibold">{formatUsd(conversation.costUsd)}</span>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LlmSpendPanel;
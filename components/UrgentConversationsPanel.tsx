@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../lib/apiClient';
+import type { UrgentConversation } from '../types';
+import { FlagIcon, SpinnerIcon } from './icons';
+
+interface UrgentConversationsPanelProps {
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+/**
+ * Conversations where a patient described red-flag symptoms (the URGENT route), for staff to follow up
+ */
+const UrgentConversationsPanel: React.FC<UrgentConversationsPanelProps> = ({ showToast }) => {
+    const [conversations, setConversations] = useState<UrgentConversation[] | null>(null);
+    const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+    useEffect(() => {
+        loadConversations();
+    }, []);
+
+    const loadConversations = async () => {
+        try {
+            setConversations(await api.getUrgentConversations());
+        } catch (error) {
+            console.error('Failed to load urgent conversations:', error);
+            setConversations([]);
+        }
+    };
+
+    const handleFollowedUp = async (conversationId: number) => {
+        setUpdatingId(conversationId);
+        try {
+            const { followedUpAt } = await api.markUrgentFollowedUp(conversationId);
+            setConversations(prev => (prev || []).map(c => c.id === conversationId ? { ...c, followedUpAt } : c));
+            showToast('Marked as followed up', 'success');
+        } catch (error: any) {
+            console.error('Failed to mark conversation as followed up:', error);
+            showToast(`Failed to update conversation: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const pending = conversations?.filter(c => !c.followedUpAt).length ?? 0;
+
+    return (
+        <div className={`bg-surface p-6 rounded-xl border ${pending > 0 ? 'border-red-500/50' : 'border-border'}`}>
+            <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3 mb-6">
+                <div>
+                    <h2 className="text-xl font-bold text-text-primary mb-2 flex items-center gap-2">
+                        <FlagIcon className={`w-5 h-5 ${pending > 0 ? 'text-red-400' : 'text-text-secondary'}`} />
+                        Urgent Follow-ups
+                    </h2>
+                    <p className="text-sm text-text-secondary">
+                        Patients who described symptoms such as facial swelling, heavy bleeding, an injury, trouble breathing or fever
+                    </p>
+                </div>
+                <Link to="/dashboard/conversations" className="text-sm text-primary hover:underline font-semibold whitespace-nowrap">
+                    Open conversations
+                </Link>
+            </div>
+
+            {!conversations ? (
+                <div className="flex justify-center items-center py-8"><SpinnerIcon className="w-8 h-8 text-primary" /></div>
+            ) : conversations.length === 0 ? (
+                <p className="text-center py-8 text-text-secondary">No urgent conversations.</p>
+            ) : (
+                <div className="space-y-3">
+                    {conversations.map(convo => (
+                        <div key={convo.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-background rounded-lg border border-border">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-semibold text-text-primary truncate">
+                                    {convo.userName || 'Unknown user'} · {convo.title || `Conversation #${convo.id}`}
+                                </p>
+                                {convo.message && <p className="text-sm text-text-secondary truncate">"{convo.message}"</p>}
+                                <p className="text-xs text-text-secondary/70 mt-1">
+                                    Flagged {new Date(convo.flaggedAt).toLocaleString()}
+                                    {convo.followedUpAt && ` · followed up ${new Date(convo.followedUpAt).toLocaleString()}`}
+                                </p>
+                            </div>
+                            {convo.followedUpAt ? (
+                                <span className="text-xs font-semibold text-text-secondary whitespace-nowrap">Followed up</span>
+                            ) : (
+                                <button
+                                    onClick={() => handleFollowedUp(convo.id)}
+                                    disabled={updatingId === convo.id}
+                                    className="bg-primary text-background px-4 py-2 rounded-md hover:bg-primary-hover font-semibold transition-colors text-sm disabled:opacity-50 whitespace-nowrap"
+                                >
+                                    {updatingId === convo.id ? 'Saving...' : 'Mark followed up'}
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UrgentConversationsPanel;
@@ -0,0 +1,65 @@
+/**
+ * Admin authorization guard (server-side only)
+ *
+ * Every admin-only route is declared in a rule table and checked once, before the
+ * route handler runs, so a new mutating route cannot ship without a permission.
+ */
+
+import type { Client } from '@libsql/client';
+import { getBearerToken, verifySession, type AdminSession } from './session';
+import { hasPermission, type AdminPermission } from './roles';
+
+export interface AdminCheck {
+  authorized: boolean;
+  status?: number;
+  error?: string;
+  session?: AdminSession;
+}
+
+export interface AdminRouteRule {
+  methods: string[];
+  pattern: RegExp;
+  permission?: AdminPermission; // Omit to accept any signed-in admin
+}
+
+/**
+ * Check that the request carries a valid admin session whose role grants the permission
+ */
+export async function requireAdmin(req: Request, db: Client, permission?: AdminPermission): Promise<AdminCheck> {
+  const token = getBearerToken(req);
+  if (!token) {
+    return { authorized: false, status: 401, error: 'Access denied. Admin privileges required.' };
+  }
+
+  try {
+    const session = await verifySession(db, token);
+    if (!session) {
+      return { authorized: false, status: 401, error: 'Session expired or revoked. Please log in again.' };
+    }
+    if (permission && !hasPermission(session.role, permission)) {
+      return { authorized: false, status: 403, error: `Access denied. The ${session.role} role cannot do this.` };
+    }
+    return { authorized: true, session };
+  } catch (error: any) {
+    return { authorized: false, status: 500, error: error.message || 'Failed to verify session' };
+  }
+}
+
+export function findAdminRule(rules: AdminRouteRule[], method: string, path: string): AdminRouteRule | undefined {
+  return rules.find(rule => rule.methods.includes(method) && rule.pattern.test(path));
+}
+
+/**
+ * Apply the first matching rule. Returns null for public routes.
+ */
+export async function guardAdminRoute(
+  req: Request,
+  db: Client,
+  rules: AdminRouteRule[],
+  method: string,
+  path: string
+): Promise<AdminCheck | null> {
+  const rule = findAdminRule(rules, method, path);
+  if (!rule) return null;
+  return requireAdmin(req, db, rule.permission);
+}
@@ -6,57 +6,123 @@ import type {
   ChatMessage,
   User,
   SuggestionGroup,
-  SuggestionChip,
+  AuditLogEntry,
+  FAQRevision,
+  PipelineTrace,
+  LlmUsageSummary,
+  FallbackSummary,
+  LlmBudget,
+  LlmBudgetStatus,
+  LlmAssignments,
+  LlmSettings,
+  BotRequest,
+  BotResponse,
+  SafetyFlag,
+  ClinicContact,
+  UrgentConversation,
+  CacheEntry,
+  CacheOutcomeSummary,
 } from '../types';
+import { clearAdminSession, getSessionToken } from './auth';
+import type { AdminRole } from './roles';
 
-// Vercel automatically handles /api/* routing to Edge Functions
-const API_BASE = '/api';
+export interface AdminAccount {
+  id: number;
+  username: string;
+  role: AdminRole;
+  created_at?: string;
+}
 
-// Get admin password from environment variable
-function getAdminPassword(): string | null {
-  return import.meta.env.ADMIN_PASSWORD || null;
+type AdminSessionResponse = { token: string; expiresAt: string; user: AdminAccount };
+
+type BotReply = BotResponse & { pipelineLogs?: string[] };
+
+export interface BotStreamHandlers {
+  onStage?: (stage: string, data: Record<string, any>) => void;
+  onToken?: (text: string) => void;
 }
 
-// Check if URL is a reports GET endpoint (admin-only)
-// POST /api/reports is public (users can submit reports)
-function isAdminEndpoint(url: string | Request, method?: string): boolean {
-  const urlString = typeof url === 'string' ? url : url.url;
-  const requestMethod = method || (typeof url === 'object' && 'method' in url ? url.method : undefined);
+/**
+ * Read a text/event-stream body, calling onEvent for each complete event
+ */
+async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: string, data: any) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      block.split('\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+      });
+      if (dataLines.length > 0) onEvent(event, JSON.parse(dataLines.join('\n')));
+    }
+  }
+}
+
+// Vercel automatically handles /api/* routing to Edge Functions
+const API_BASE = '/api';
 
-  // Reports admin endpoints
-  if (urlString.includes('/api/reports')) {
-    // POST /api/reports is public, everything else is admin
-    return requestMethod !== 'POST';
+/**
+ * Thrown for 429 responses from the rate limiter; the chat page shows it as a "slow down" message
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = 'RateLimitError';
   }
+}
 
-  return false;
+function retryAfterSeconds(res: Response, fallback = 60): number {
+  const seconds = parseInt(res.headers.get('Retry-After') || '', 10);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : fallback;
 }
 
-async function request<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
+// How long getBotResponse keeps waiting for a send with the same clientMessageId that is
+// still being answered (409), e.g. the request behind a broken stream; matches the
+// server's IDEMPOTENCY_PENDING_SECONDS, after which it answers the send itself
+const PENDING_REPLY_WAIT_MS = 120_000;
+
+async function request<T>(input: RequestInfo, init?: RequestInit, adminAuth = false): Promise<T> {
   // Vercel automatically routes /api/* to Edge Functions
   // No URL transformation needed - use /api/* directly
   const url = typeof input === 'string' ? input : (input as Request).url;
 
-  const headers: HeadersInit = {
+  const headers: Record<string, string> = {
     'Content-Type': 'application/json',
-    ...(init && init.headers),
+    ...(init?.headers as Record<string, string> | undefined),
   };
 
-  // Add admin password header for admin-only endpoints
-  const method = init?.method || (typeof input === 'object' && 'method' in input ? input.method : undefined);
-  if (isAdminEndpoint(input, method)) {
-    const adminPassword = getAdminPassword();
-    if (adminPassword) {
-      headers['x-admin-password'] = adminPassword;
+  if (adminAuth) {
+    const sessionToken = getSessionToken();
+    if (sessionToken) {
+      headers['Authorization'] = `Bearer ${sessionToken}`;
     }
   }
 
   const res = await fetch(url, {
-    headers,
     ...init,
+    headers,
   });
 
   if (!res.ok) {
+    // Stale or revoked admin session - drop it so the UI falls back to login
+    if (res.status === 401 && adminAuth) {
+      clearAdminSession();
+    }
+
     let message = `Request failed with status ${res.status}`;
     try {
       const data: any = await res.json();
@@ -66,6 +132,7 @@ async function request<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
     } catch {
       // ignore JSON parse errors
     }
+    if (res.status === 429) throw new RateLimitError(message, retryAfterSeconds(res));
     throw new Error(message);
   }
 
@@ -76,6 +143,11 @@ async function request<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
   return (await res.json()) as T;
 }
 
+// Dashboard calls: always sends the admin session token
+function adminRequest<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
+  return request<T>(input, init, true);
+}
+
 type RawMessageRow = {
   id: number;
   conversation_id: number;
@@ -84,6 +156,7 @@ type RawMessageRow = {
   media_urls?: string[] | string | null; // Can be array or JSON string
   query_id?: string | null;
   suggestions_json?: string | null; // JSON stringified suggestion chips
+  safety_flag?: SafetyFlag | null;
   created_at: string;
 };
 
@@ -123,12 +196,50 @@ function mapRawMessage(row: RawMessageRow): ChatMessage {
     mediaUrls: mediaUrls,
     queryId: row.query_id ?? null,
     suggestions,
+    safetyFlag: row.safety_flag ?? null,
     created_at: row.created_at,
     timestamp: new Date(row.created_at).toLocaleString(),
   };
 }
 
 export const api = {
+  // Admin auth
+  login: (username: string, password: string) =>
+    request<AdminSessionResponse>(`${API_BASE}/auth/login`, {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    }),
+
+  getSession: () =>
+    adminRequest<{ valid: boolean; expiresAt: string; user: AdminAccount }>(`${API_BASE}/auth/session`),
+
+  refreshSession: () =>
+    adminRequest<AdminSessionResponse>(`${API_BASE}/auth/refresh`, { method: 'POST' }),
+
+  logout: () =>
+    adminRequest<void>(`${API_BASE}/auth/logout`, { method: 'POST' }),
+
+  revokeAllSessions: () =>
+    adminRequest<{ success: boolean; revoked: number }>(`${API_BASE}/auth/revoke-all`, { method: 'POST' }),
+
+  // Admin accounts (owner only)
+  getAdminUsers: () => adminRequest<AdminAccount[]>(`${API_BASE}/admin-users`),
+
+  createAdminUser: (data: { username: string; password: string; role: AdminRole }) =>
+    adminRequest<AdminAccount>(`${API_BASE}/admin-users`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  updateAdminUser: (id: number, data: { role?: AdminRole; password?: string }) =>
+    adminRequest<AdminAccount>(`${API_BASE}/admin-users/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  deleteAdminUser: (id: number) =>
+    adminRequest<void>(`${API_BASE}/admin-users/${id}`, { method: 'DELETE' }),
+
   // FAQs
   getFaqs: async () => {
     const data = await request<FAQ[]>(`${API_BASE}/faqs`);
@@ -136,28 +247,38 @@ export const api = {
   },
 
   createFaq: (data: { question: string; answer: string; intent: string; media_ids?: number[] }) =>
-    request<FAQ>(`${API_BASE}/faqs`, {
+    adminRequest<FAQ>(`${API_BASE}/faqs`, {
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
   updateFaq: (id: number, data: { question: string; answer: string; intent: string; media_ids?: number[] }) =>
-    request<FAQ>(`${API_BASE}/faqs/${id}`, {
+    adminRequest<FAQ>(`${API_BASE}/faqs/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     }),
 
   generateIntent: (question: string) =>
-    request<{ intent: string }>(`${API_BASE}/faqs/generate-intent`, {
+    adminRequest<{ intent: string }>(`${API_BASE}/faqs/generate-intent`, {
       method: 'POST',
       body: JSON.stringify({ question }),
     }),
 
+  getFaqRevisions: (id: number) =>
+    adminRequest<FAQRevision[]>(`${API_BASE}/faqs/${id}/revisions`),
+
+  restoreFaqRevision: (id: number, revisionId: number) =>
+    adminRequest<FAQ>(`${API_BASE}/faqs/${id}/revisions/${revisionId}/restore`, { method: 'POST' }),
+
+  // The `delete` revision of each deleted FAQ, restorable with restoreFaqRevision
+  getDeletedFaqs: () =>
+    adminRequest<FAQRevision[]>(`${API_BASE}/faqs/deleted`),
+
   deleteFaq: (id: number) =>
-    request<void>(`${API_BASE}/faqs/${id}`, { method: 'DELETE' }),
+    adminRequest<void>(`${API_BASE}/faqs/${id}`, { method: 'DELETE' }),
 
   deleteAllFaqs: () =>
-    request<void>(`${API_BASE}/faqs`, { method: 'DELETE' }),
+    adminRequest<void>(`${API_BASE}/faqs`, { method: 'DELETE' }),
 
 
 
@@ -165,19 +286,19 @@ export const api = {
     request<void>(`${API_BASE}/faqs/${id}/increment`, { method: 'POST' }),
 
   // Suggestions
-  getSuggestions: () => request<SuggestionGroup[]>(`${API_BASE}/suggestions`),
+  getSuggestions: () => adminRequest<SuggestionGroup[]>(`${API_BASE}/suggestions`),
 
   addSuggestion: (data: { keywords: string; chips: { text_en: string; linked_faq_id: number }[] }) =>
-    request<SuggestionGroup>(`${API_BASE}/suggestions`, {
+    adminRequest<SuggestionGroup>(`${API_BASE}/suggestions`, {
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
   deleteSuggestion: (id: number) =>
-    request<void>(`${API_BASE}/suggestions?id=${id}`, { method: 'DELETE' }),
+    adminRequest<void>(`${API_BASE}/suggestions?id=${id}`, { method: 'DELETE' }),
 
   updateSuggestion: (data: { id: number; keywords: string; chips: { text_en: string; linked_faq_id: number }[] }) =>
-    request<{ success: boolean; id: number }>(`${API_BASE}/suggestions`, {
+    adminRequest<{ success: boolean; id: number }>(`${API_BASE}/suggestions`, {
       method: 'PUT',
       body: JSON.stringify(data),
     }),
@@ -190,7 +311,7 @@ export const api = {
     url: string;
     type: Media['type'];
   }) =>
-    request<Media>(`${API_BASE}/media`, {
+    adminRequest<Media>(`${API_BASE}/media`, {
       method: 'POST',
       body: JSON.stringify(data),
     }),
@@ -203,34 +324,115 @@ export const api = {
       type: Media['type'];
     }
   ) =>
-    request<Media>(`${API_BASE}/media/${id}`, {
+    adminRequest<Media>(`${API_BASE}/media/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     }),
 
   deleteMedia: (id: number) =>
-    request<void>(`${API_BASE}/media/${id}`, { method: 'DELETE' }),
+    adminRequest<void>(`${API_BASE}/media/${id}`, { method: 'DELETE' }),
 
 
 
   // Stats
-  getStats: () => request<DashboardStats>(`${API_BASE}/stats`),
+  getStats: () => adminRequest<DashboardStats>(`${API_BASE}/stats`),
+
+  getLlmUsage: (days = 30) =>
+    adminRequest<LlmUsageSummary & { fallbacks: FallbackSummary; success: boolean }>(`${API_BASE}/usage?days=${days}`),
 
   resetAllUserData: () =>
-    request<{ success: boolean; message: string }>(`${API_BASE}/reset-all-user-data`, {
+    adminRequest<{ success: boolean; message: string }>(`${API_BASE}/reset-all-user-data`, {
       method: 'DELETE',
     }),
 
   // Cache Settings
+  getLlmBudget: () =>
+    adminRequest<LlmBudgetStatus & { success: boolean }>(`${API_BASE}/settings/budget`),
+
+  setLlmBudget: (budget: LlmBudget) =>
+    adminRequest<LlmBudgetStatus & { success: boolean }>(`${API_BASE}/settings/budget`, {
+      method: 'PUT',
+      body: JSON.stringify(budget),
+    }),
+
+  getLlmSettings: () =>
+    adminRequest<LlmSettings & { success: boolean }>(`${API_BASE}/settings/llm`),
+
+  setLlmAssignments: (assignments: Partial<LlmAssignments>) =>
+    adminRequest<LlmSettings & { success: boolean }>(`${API_BASE}/settings/llm`, {
+      method: 'PUT',
+      body: JSON.stringify({ assignments }),
+    }),
+
+  getClinicContact: () =>
+    adminRequest<{ success: boolean; contact: ClinicContact }>(`${API_BASE}/settings/clinic`),
+
+  setClinicContact: (contact: ClinicContact) =>
+    adminRequest<{ success: boolean; contact: ClinicContact }>(`${API_BASE}/settings/clinic`, {
+      method: 'PUT',
+      body: JSON.stringify({ contact }),
+    }),
+
   getCacheStatus: () =>
-    request<{ enabled: boolean }>(`${API_BASE}/settings/cache`),
+    adminRequest<{ enabled: boolean; semanticThreshold: number | null }>(`${API_BASE}/settings/cache`),
 
   setCacheStatus: (enabled: boolean) =>
-    request<{ success: boolean; enabled: boolean }>(`${API_BASE}/settings/cache`, {
+    adminRequest<{ success: boolean; enabled: boolean }>(`${API_BASE}/settings/cache`, {
       method: 'PUT',
       body: JSON.stringify({ enabled }),
     }),
 
+  // null turns the semantic cache off
+  setSemanticCacheThreshold: (semanticThreshold: number | null) =>
+    adminRequest<{ success: boolean; semanticThreshold: number | null }>(`${API_BASE}/settings/cache`, {
+      method: 'PUT',
+      body: JSON.stringify({ semanticThreshold }),
+    }),
+
+  // Cached replies (owner only)
+  getCacheEntries: (filters: { search?: string; faqId?: number | null } = {}) => {
+    const params = new URLSearchParams();
+    if (filters.search) params.set('search', filters.search);
+    if (filters.faqId) params.set('faqId', String(filters.faqId));
+    const query = params.toString();
+    return adminRequest<{ success: boolean; entries: CacheEntry[] }>(`${API_BASE}/cache${query ? `?${query}` : ''}`);
+  },
+
+  getCacheStats: (days = 30) =>
+    adminRequest<CacheOutcomeSummary & { success: boolean }>(`${API_BASE}/cache/stats?days=${days}`),
+
+  deleteCacheEntry: (id: number) =>
+    adminRequest<void>(`${API_BASE}/cache/${id}`, {
+      method: 'DELETE',
+    }),
+
+  purgeCache: (faqId?: number | null) =>
+    adminRequest<{ success: boolean; purged: number }>(`${API_BASE}/cache${faqId ? `?faqId=${faqId}` : ''}`, {
+      method: 'DELETE',
+    }),
+
+  setCacheEntryPinned: (id: number, pinned: boolean) =>
+    adminRequest<{ success: boolean; entry: CacheEntry }>(`${API_BASE}/cache/${id}/pin`, {
+      method: 'PUT',
+      body: JSON.stringify({ pinned }),
+    }),
+
+  // Audit log (owner only)
+  getAuditLog: (filters: { entity?: string; actor?: string; from?: string; to?: string } = {}) => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString();
+    return adminRequest<{ success: boolean; entries: AuditLogEntry[]; actors: string[] }>(
+      `${API_BASE}/audit-log${query ? `?${query}` : ''}`
+    );
+  },
+
+  // Pipeline traces (owner and reviewer)
+  getTrace: (queryId: string) =>
+    adminRequest<{ success: boolean; trace: PipelineTrace }>(`${API_BASE}/traces/${encodeURIComponent(queryId)}`),
+
   // Users
   getUser: (id: string) => request<User>(`${API_BASE}/users/${id}`),
 
@@ -245,7 +447,15 @@ export const api = {
     request<Conversation[]>(`${API_BASE}/users/${userId}/conversations`),
 
   getAdminConversationsWithUsers: () =>
-    request<Conversation[]>(`${API_BASE}/conversations`),
+    adminRequest<Conversation[]>(`${API_BASE}/conversations`),
+
+  getUrgentConversations: () =>
+    adminRequest<UrgentConversation[]>(`${API_BASE}/conversations/urgent`),
+
+  markUrgentFollowedUp: (conversationId: number) =>
+    adminRequest<{ success: boolean; followedUpAt: string }>(`${API_BASE}/conversations/${conversationId}/follow-up`, {
+      method: 'POST',
+    }),
 
   createConversation: (userId: string, title: string) =>
     request<Conversation>(`${API_BASE}/conversations`, {
@@ -266,21 +476,6 @@ export const api = {
     return rows.map(mapRawMessage);
   },
 
-  createMessage: async (payload: {
-    conversationId: number;
-    sender: 'user' | 'bot';
-    text: string;
-    mediaUrls?: string[];
-    queryId?: string | null;
-    suggestions?: any[];
-  }) => {
-    const row = await request<RawMessageRow>(`${API_BASE}/messages`, {
-      method: 'POST',
-      body: JSON.stringify(payload),
-    });
-    return mapRawMessage(row);
-  },
-
 
   getAllMedia: async () => {
     try {
@@ -310,22 +505,22 @@ export const api = {
     }),
 
   getReports: () =>
-    request<{ success: boolean; reports: any[] }>(`${API_BASE}/reports`),
+    adminRequest<{ success: boolean; reports: any[] }>(`${API_BASE}/reports`),
 
   updateReportStatus: (reportId: number, status: 'active' | 'resolved') =>
-    request<{ success: boolean; report: any }>(`${API_BASE}/reports/${reportId}/status`, {
+    adminRequest<{ success: boolean; report: any }>(`${API_BASE}/reports/${reportId}/status`, {
       method: 'PUT',
       body: JSON.stringify({ status }),
     }),
 
   deleteReport: (reportId: number) =>
-    request<{ success: boolean; message: string }>(`${API_BASE}/reports`, {
+    adminRequest<{ success: boolean; message: string }>(`${API_BASE}/reports`, {
       method: 'DELETE',
       body: JSON.stringify({ id: reportId }),
     }),
 
   deleteReports: () =>
-    request<{ success: boolean; message: string }>(`${API_BASE}/reports`, {
+    adminRequest<{ success: boolean; message: string }>(`${API_BASE}/reports`, {
       method: 'DELETE',
     }),
 
@@ -334,39 +529,40 @@ export const api = {
     request<{ success: boolean; categories: Array<{ name: string; order: number }> }>(`${API_BASE}/reports/categories`),
 
   addReportCategory: (name: string) =>
-    request<{ success: boolean; category: any }>(`${API_BASE}/reports/categories`, {
+    adminRequest<{ success: boolean; category: any }>(`${API_BASE}/reports/categories`, {
       method: 'POST',
       body: JSON.stringify({ name }),
     }),
 
   deleteReportCategory: (name: string) =>
-    request<{ success: boolean }>(`${API_BASE}/reports/categories`, {
+    adminRequest<{ success: boolean }>(`${API_BASE}/reports/categories`, {
       method: 'DELETE',
       body: JSON.stringify({ name }),
     }),
 
   reorderReportCategories: (name: string, sourceIndex: number, targetIndex: number) =>
-    request<{ success: boolean }>(`${API_BASE}/reports/categories/reorder`, {
+    adminRequest<{ success: boolean }>(`${API_BASE}/reports/categories/reorder`, {
       method: 'POST',
       body: JSON.stringify({ name, sourceIndex, targetIndex }),
     }),
 
   // Chat/Bot endpoint (Vercel Edge Function)
-  getBotResponse: async (data: {
-    message: string;
-    userName: string;
-    userId?: string | null;
-    suggestionFaqId?: number;
-  }) => {
+  getBotResponse: async (data: BotRequest) => {
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
     };
 
-    const res = await fetch(`${API_BASE}/chat`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(data),
-    });
+    const waitUntil = Date.now() + PENDING_REPLY_WAIT_MS;
+    let res: Response;
+    while (true) {
+      res = await fetch(`${API_BASE}/chat`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(data),
+      });
+      if (res.status !== 409 || Date.now() >= waitUntil) break;
+      await new Promise(resolve => setTimeout(resolve, retryAfterSeconds(res, 2) * 1000));
+    }
 
     if (!res.ok) {
       let message = `Request failed with status ${res.status}`;
@@ -378,16 +574,44 @@ export const api = {
       } catch {
         // ignore JSON parse errors
       }
+      if (res.status === 429) throw new RateLimitError(message, retryAfterSeconds(res));
       throw new Error(message);
     }
 
-    return (await res.json()) as {
-      text: string;
-      mediaUrls: string[];
-      faqId: number | null;
-      queryId: string | null;
-      pipelineLogs?: string[];
-      suggestions?: SuggestionChip[];
-    };
+    return (await res.json()) as BotReply;
+  },
+
+  // Same endpoint over Server-Sent Events: stage events and answer tokens, then the full reply.
+  // Throws if the stream can't be opened or ends without a reply; callers fall back to getBotResponse
+  // (except on RateLimitError, which the JSON endpoint would return as well).
+  streamBotResponse: async (data: BotRequest, handlers: BotStreamHandlers = {}) => {
+    const res = await fetch(`${API_BASE}/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify(data),
+    });
+
+    if (res.status === 429) {
+      throw new RateLimitError('Too many requests. Please slow down.', retryAfterSeconds(res));
+    }
+    if (!res.ok || !res.body || !(res.headers.get('Content-Type') || '').includes('text/event-stream')) {
+      throw new Error(`Streaming unavailable (status ${res.status})`);
+    }
+
+    let reply: BotReply | null = null;
+    let streamError: string | null = null;
+    await readEventStream(res.body, (event, payload) => {
+      if (event === 'stage') handlers.onStage?.(payload.stage, payload);
+      else if (event === 'token') handlers.onToken?.(payload.text);
+      else if (event === 'done') reply = payload as BotReply;
+      else if (event === 'error') streamError = payload?.error || 'Streaming failed';
+    });
+
+    if (streamError) throw new Error(streamError);
+    if (!reply) throw new Error('Stream ended without a response');
+    return reply as BotReply;
   },
 };
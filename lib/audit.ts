@@ -0,0 +1,140 @@
+/**
+ * Audit log of admin writes (server-side only)
+ *
+ * Each entry records who made the change, the route, the entity touched and
+ * JSON snapshots of the row before and after.
+ */
+
+import type { Client } from '@libsql/client';
+import * as dbHelpers from './dbHelpers';
+import type { AdminSession } from './session';
+
+export type AuditEntityType =
+  | 'faq'
+  | 'media'
+  | 'suggestion'
+  | 'report'
+  | 'report_category'
+  | 'conversation'
+  | 'setting'
+  | 'cache_entry'
+  | 'user_data'
+  | 'admin_user'
+  | 'admin_session';
+
+export type AuditAction = 'create' | 'update' | 'restore' | 'delete' | 'delete_all' | 'reorder' | 'reset' | 'revoke';
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditFilters {
+  entityType?: string | null;
+  actor?: string | null;
+  from?: string | null; // ISO date (inclusive)
+  to?: string | null;   // ISO date (inclusive)
+  limit?: number;
+}
+
+// Columns that are large or secret and add nothing to a diff
+const OMITTED_FIELDS = ['embedding', 'password_hash'];
+
+/**
+ * Copy a row (or list of rows) without embeddings and password hashes
+ */
+export function auditSnapshot<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(v => auditSnapshot(v)) as T;
+  if (!value || typeof value !== 'object') return value;
+  const copy: Record<string, any> = { ...(value as Record<string, any>) };
+  OMITTED_FIELDS.forEach(field => { delete copy[field]; });
+  return copy as T;
+}
+
+/**
+ * Write an audit entry. Failures are logged, not thrown: the admin's change has already been made.
+ */
+export async function recordAudit(
+  db: Client,
+  session: AdminSession | undefined,
+  route: string,
+  entry: AuditEntry
+): Promise<void> {
+  try {
+    await dbHelpers.insert(db, 'audit_log', {
+      created_at: new Date().toISOString(),
+      actor_id: session?.adminUserId ?? null,
+      actor: session?.username ?? 'unknown',
+      action: entry.action,
+      route,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId === undefined || entry.entityId === null ? null : String(entry.entityId),
+      before_json: entry.before === undefined ? null : JSON.stringify(auditSnapshot(entry.before)),
+      after_json: entry.after === undefined ? null : JSON.stringify(auditSnapshot(entry.after)),
+    });
+  } catch (error) {
+    console.error('[AUDIT] Failed to record entry:', entry.action, entry.entityType, entry.entityId, error);
+  }
+}
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export async function listAudit(db: Client, filters: AuditFilters) {
+  const clauses: string[] = [];
+  const args: any[] = [];
+
+  if (filters.entityType) {
+    clauses.push('entity_type = ?');
+    args.push(filters.entityType);
+  }
+  if (filters.actor) {
+    clauses.push('actor = ?');
+    args.push(filters.actor);
+  }
+  if (filters.from) {
+    clauses.push('created_at >= ?');
+    args.push(filters.from);
+  }
+  if (filters.to) {
+    // Dates without a time cover the whole day
+    clauses.push('created_at <= ?');
+    args.push(filters.to.length === 10 ? `${filters.to}T23:59:59.999Z` : filters.to);
+  }
+
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+  const limit = Math.min(Math.max(filters.limit || 200, 1), 1000);
+
+  const [entriesResult, actorsResult] = await Promise.all([
+    db.execute({
+      sql: `SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT ${limit}`,
+      args,
+    }),
+    db.execute('SELECT DISTINCT actor FROM audit_log ORDER BY actor ASC'),
+  ]);
+
+  return {
+    entries: (entriesResult.rows as any[]).map(row => ({
+      id: Number(row.id),
+      created_at: row.created_at,
+      actor_id: row.actor_id === null ? null : Number(row.actor_id),
+      actor: row.actor,
+      action: row.action,
+      route: row.route,
+      entity_type: row.entity_type,
+      entity_id: row.entity_id,
+      before: parseJson(row.before_json),
+      after: parseJson(row.after_json),
+    })),
+    actors: (actorsResult.rows as any[]).map(row => row.actor as string),
+  };
+}
@@ -1,14 +1,20 @@
 // Authentication and user tracking utilities
 
+import type { AdminRole } from './roles';
+
 interface AuthData {
   isAdmin: boolean;
   userId?: string | number; // Can be UUID (string) or number
   userName?: string;
   loginTime?: string;
+  sessionToken?: string; // Signed admin session token issued by /api/auth/login
+  sessionExpiresAt?: string;
+  adminUsername?: string;
+  adminRole?: AdminRole;
 }
 
 const AUTH_KEY = 'dentalcare_auth';
-const ADMIN_KEY = 'dentalcare_admin'; // Legacy key for backward compatibility
+const ADMIN_KEY = 'dentalcare_admin'; // Legacy key, cleaned up on read
 
 /**
  * Get authentication data from localStorage
@@ -20,13 +26,9 @@ export const getAuthData = (): AuthData | null => {
       return JSON.parse(stored);
     }
     
-    // Check legacy key for backward compatibility
-    const legacyAdmin = localStorage.getItem(ADMIN_KEY);
-    if (legacyAdmin === 'true') {
-      const authData: AuthData = { isAdmin: true };
-      setAuthData(authData);
-      localStorage.removeItem(ADMIN_KEY); // Migrate to new format
-      return authData;
+    // Legacy admin flag carries no server session, so it no longer grants access
+    if (localStorage.getItem(ADMIN_KEY)) {
+      localStorage.removeItem(ADMIN_KEY);
     }
     
     return null;
@@ -48,28 +50,90 @@ export const setAuthData = (data: AuthData): void => {
 };
 
 /**
- * Check if user is admin
+ * Check if user is admin (has an unexpired session token)
  */
 export const isAdmin = (): boolean => {
   const authData = getAuthData();
-  return authData?.isAdmin === true;
+  if (authData?.isAdmin !== true || !authData.sessionToken) return false;
+  if (authData.sessionExpiresAt && new Date(authData.sessionExpiresAt).getTime() <= Date.now()) {
+    return false;
+  }
+  return true;
 };
 
 /**
- * Set admin status
+ * Store the admin session issued by the server
  */
-export const setAdminStatus = (isAdmin: boolean, userId?: string | number, userName?: string): void => {
-  // Preserve existing userId and userName if not provided
+export const setAdminSession = (
+  token: string,
+  expiresAt: string,
+  adminUser: { username: string; role: AdminRole }
+): void => {
+  // Preserve existing userId and userName
   const existing = getAuthData();
   const authData: AuthData = {
-    isAdmin,
-    userId: userId ?? existing?.userId,
-    userName: userName ?? existing?.userName,
-    loginTime: new Date().toISOString(),
+    isAdmin: true,
+    userId: existing?.userId,
+    userName: existing?.userName,
+    loginTime: existing?.isAdmin ? existing.loginTime : new Date().toISOString(),
+    sessionToken: token,
+    sessionExpiresAt: expiresAt,
+    adminUsername: adminUser.username,
+    adminRole: adminUser.role,
   };
   setAuthData(authData);
 };
 
+/**
+ * Update the signed-in admin's role (e.g. after the owner changes it)
+ */
+export const setAdminRole = (role: AdminRole): void => {
+  const authData = getAuthData();
+  if (!authData?.isAdmin) return;
+  setAuthData({ ...authData, adminRole: role });
+};
+
+/**
+ * Drop the admin session but keep the chat user's identity
+ */
+export const clearAdminSession = (): void => {
+  const existing = getAuthData();
+  if (!existing) return;
+  setAuthData({
+    isAdmin: false,
+    userId: existing.userId,
+    userName: existing.userName,
+  });
+};
+
+/**
+ * Get the admin session token, if any
+ */
+export const getSessionToken = (): string | null => {
+  return isAdmin() ? getAuthData()?.sessionToken || null : null;
+};
+
+/**
+ * Get the signed-in admin's role, if any
+ */
+export const getAdminRole = (): AdminRole | null => {
+  return isAdmin() ? getAuthData()?.adminRole || null : null;
+};
+
+/**
+ * Get the signed-in admin's username, if any
+ */
+export const getAdminUsername = (): string | null => {
+  return isAdmin() ? getAuthData()?.adminUsername || null : null;
+};
+
+/**
+ * Get the admin session expiry, if any
+ */
+export const getSessionExpiresAt = (): string | null => {
+  return getAuthData()?.sessionExpiresAt || null;
+};
+
 /**
  * Clear authentication data
  */
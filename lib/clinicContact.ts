@@ -0,0 +1,43 @@
+/**
+ * The clinic's contact details (server-side only)
+ *
+ * Stored in `app_settings` and quoted in the urgent-care reply of the chat
+ * pipeline (lib/pipeline/urgent.ts). Empty fields are left out of the reply.
+ */
+
+import type { Client } from '@libsql/client';
+import type { ClinicContact } from '../types';
+
+export const CLINIC_SETTING_KEYS: Record<keyof ClinicContact, string> = {
+  name: 'clinic_name',
+  phone: 'clinic_phone',
+  address: 'clinic_address',
+  hours: 'clinic_hours',
+};
+
+const FIELDS = Object.keys(CLINIC_SETTING_KEYS) as (keyof ClinicContact)[];
+
+export const MAX_CLINIC_FIELD_LENGTH = 200;
+
+export async function loadClinicContact(db: Client): Promise<ClinicContact> {
+  const keys = FIELDS.map(field => CLINIC_SETTING_KEYS[field]);
+  const result = await db.execute({
+    sql: `SELECT key, value FROM app_settings WHERE key IN (${keys.map(() => '?').join(', ')})`,
+    args: keys,
+  });
+  const values = new Map(result.rows.map(row => [row.key as string, (row.value as string | null) ?? '']));
+  const value = (field: keyof ClinicContact) => values.get(CLINIC_SETTING_KEYS[field]) ?? '';
+  return { name: value('name'), phone: value('phone'), address: value('address'), hours: value('hours') };
+}
+
+/**
+ * Store every field, trimmed; returns the previous contact details
+ */
+export async function saveClinicContact(db: Client, contact: Partial<ClinicContact>): Promise<ClinicContact> {
+  const before = await loadClinicContact(db);
+  await db.batch(FIELDS.map(field => ({
+    sql: 'INSERT INTO app_settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+    args: [CLINIC_SETTING_KEYS[field], String(contact[field] ?? '').trim()],
+  })), 'write');
+  return before;
+}
@@ -0,0 +1,99 @@
+/**
+ * Small diff helpers for showing what an admin change did
+ */
+
+export interface FieldChange {
+  key: string;
+  before: unknown;
+  after: unknown;
+  changed: boolean;
+}
+
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many token pairs the word diff falls back to "all removed, all added"
+const MAX_DIFF_CELLS = 250_000;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Compare two snapshots field by field. Non-object values are compared as a single field.
+ */
+export function diffFields(before: unknown, after: unknown): FieldChange[] {
+  if (!isPlainObject(before) && !isPlainObject(after)) {
+    return [{ key: '', before, after, changed: formatValue(before) !== formatValue(after) }];
+  }
+
+  const beforeObj = isPlainObject(before) ? before : {};
+  const afterObj = isPlainObject(after) ? after : {};
+  const keys = Array.from(new Set([...Object.keys(beforeObj), ...Object.keys(afterObj)]));
+
+  return keys.map(key => ({
+    key,
+    before: beforeObj[key],
+    after: afterObj[key],
+    changed: formatValue(beforeObj[key]) !== formatValue(afterObj[key]),
+  }));
+}
+
+/**
+ * Word-level diff (LCS over words and whitespace)
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i:] and b[j:]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return segments;
+}
@@ -0,0 +1,123 @@
+/**
+ * FAQ-matching evaluation: dataset types, metrics and regression checks
+ *
+ * The runner (scripts/eval.ts) sends each labeled query through the chat
+ * pipeline stages and collects an EvalResult per case; everything here is
+ * pure so reports can be compared without a database or model.
+ */
+
+export type EvalLanguage = 'english' | 'urdu' | 'roman';
+
+export interface EvalCase {
+  query: string;
+  expectedFaqId: number | null; // null: no FAQ should match
+  expectedRoute: string;
+  language?: EvalLanguage; // defaults to the pipeline's detectLanguage
+}
+
+export interface EvalResult {
+  query: string;
+  language: EvalLanguage;
+  expectedFaqId: number | null;
+  expectedRoute: string;
+  canonicalIntent: string;
+  route: string;
+  candidateIds: number[]; // embedding ranking, best first (top 5)
+  matchedFaqId: number | null; // what the pipeline would answer with
+}
+
+export interface EvalMetrics {
+  cases: number;
+  faqCases: number;          // cases with an expected FAQ
+  top1Recall: number | null; // expected FAQ ranked first by embeddings
+  top5Recall: number | null; // expected FAQ among the top 5 candidates
+  matchAccuracy: number;     // matched FAQ (or no match) equals the label
+  routingAccuracy: number;
+  falsePositives: number;    // an FAQ was matched but it is not the expected one
+  falsePositiveRate: number;
+}
+
+export interface EvalReport {
+  pipelineVersion: number;
+  dataset: string;
+  createdAt: string;
+  overall: EvalMetrics;
+  byLanguage: Partial<Record<EvalLanguage, EvalMetrics>>;
+  results: EvalResult[];
+}
+
+export interface EvalRegression {
+  scope: string; // "overall" or a language
+  metric: keyof EvalMetrics;
+  baseline: number;
+  current: number;
+}
+
+function ratio(count: number, total: number): number | null {
+  return total === 0 ? null : count / total;
+}
+
+export function computeMetrics(results: EvalResult[]): EvalMetrics {
+  const faqResults = results.filter(r => r.expectedFaqId !== null);
+  const falsePositives = results.filter(r => r.matchedFaqId !== null && r.matchedFaqId !== r.expectedFaqId).length;
+
+  return {
+    cases: results.length,
+    faqCases: faqResults.length,
+    top1Recall: ratio(faqResults.filter(r => r.candidateIds[0] === r.expectedFaqId).length, faqResults.length),
+    top5Recall: ratio(faqResults.filter(r => r.candidateIds.slice(0, 5).includes(r.expectedFaqId as number)).length, faqResults.length),
+    matchAccuracy: ratio(results.filter(r => r.matchedFaqId === r.expectedFaqId).length, results.length) ?? 0,
+    routingAccuracy: ratio(results.filter(r => r.route === r.expectedRoute).length, results.length) ?? 0,
+    falsePositives,
+    falsePositiveRate: ratio(falsePositives, results.length) ?? 0,
+  };
+}
+
+export function buildReport(pipelineVersion: number, dataset: string, results: EvalResult[]): EvalReport {
+  const byLanguage: EvalReport['byLanguage'] = {};
+  for (const language of ['english', 'urdu', 'roman'] as EvalLanguage[]) {
+    const subset = results.filter(r => r.language === language);
+    if (subset.length > 0) byLanguage[language] = computeMetrics(subset);
+  }
+
+  return {
+    pipelineVersion,
+    dataset,
+    createdAt: new Date().toISOString(),
+    overall: computeMetrics(results),
+    byLanguage,
+    results,
+  };
+}
+
+// Higher is better for these; falsePositiveRate is checked the other way round
+const HIGHER_IS_BETTER: Array<keyof EvalMetrics> = ['top1Recall', 'top5Recall', 'matchAccuracy', 'routingAccuracy'];
+
+/**
+ * Metrics in `current` that are worse than `baseline` by more than `tolerance` (absolute, 0-1)
+ */
+export function findRegressions(baseline: EvalReport, current: EvalReport, tolerance = 0): EvalRegression[] {
+  const regressions: EvalRegression[] = [];
+  const scopes: Array<[string, EvalMetrics | undefined, EvalMetrics | undefined]> = [
+    ['overall', baseline.overall, current.overall],
+    ...(Object.keys(baseline.byLanguage) as EvalLanguage[]).map(
+      language => [language, baseline.byLanguage[language], current.byLanguage[language]] as [string, EvalMetrics | undefined, EvalMetrics | undefined]
+    ),
+  ];
+
+  for (const [scope, before, after] of scopes) {
+    if (!before || !after) continue;
+    for (const metric of HIGHER_IS_BETTER) {
+      const b = before[metric] as number | null;
+      const a = after[metric] as number | null;
+      if (b !== null && a !== null && a < b - tolerance) {
+        regressions.push({ scope, metric, baseline: b, current: a });
+      }
+    }
+    if (after.falsePositiveRate > before.falsePositiveRate + tolerance) {
+      regressions.push({ scope, metric: 'falsePositiveRate', baseline: before.falsePositiveRate, current: after.falsePositiveRate });
+    }
+  }
+
+  return regressions;
+}
@@ -0,0 +1,110 @@
+/**
+ * Idempotency keys for the chatbot's sends (server-side only)
+ *
+ * ChatbotPage generates an id for every message it sends and sends the same id
+ * again when the user retries. A send that timed out on the client but finished
+ * on the server then gets the stored result back, instead of a second user row,
+ * a second reply and a second round of LLM spend.
+ *
+ * A request claims its key before doing the work and completes it with the
+ * response; a request that fails releases it, so the retry runs from scratch.
+ * A key belongs to the conversation and user it was first sent for: the same key
+ * from anyone else is a mismatch, never a replay of their result.
+ */
+
+import type { Client, InStatement, InValue } from '@libsql/client';
+
+export type IdempotencyScope = 'chat' | 'message';
+
+export const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
+// A claim this old belongs to a request that died without completing or releasing it
+export const IDEMPOTENCY_PENDING_SECONDS = 120;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+export function isValidIdempotencyKey(value: unknown): value is string {
+  return typeof value === 'string' && KEY_PATTERN.test(value);
+}
+
+export interface IdempotencyOwner {
+  conversationId: number | null;
+  userId: string | null;
+}
+
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'pending' } // the first request is still running
+  | { status: 'mismatch' } // the key was first sent for another conversation or user
+  | { status: 'completed'; statusCode: number; response: any };
+
+/**
+ * Claim a key for this request, pruning expired keys; a stale claim of the same owner is taken over.
+ * A claim is completed with completeIdempotencyKeyStatement or released.
+ */
+export async function claimIdempotencyKey(
+  db: Client,
+  scope: IdempotencyScope,
+  key: string,
+  owner: IdempotencyOwner,
+  now = new Date()
+): Promise<IdempotencyClaim> {
+  const createdAt = now.toISOString();
+  const staleBefore = new Date(now.getTime() - IDEMPOTENCY_PENDING_SECONDS * 1000).toISOString();
+  const [, claim] = await db.batch([
+    { sql: 'DELETE FROM idempotency_keys WHERE expires_at <= ?', args: [createdAt] },
+    {
+      sql: `INSERT INTO idempotency_keys (scope, key, conversation_id, user_id, created_at, expires_at)
+                VALUES (?, ?, ?, ?, ?, ?)
+                ON CONFLICT(scope, key) DO UPDATE SET created_at = excluded.created_at
+                  WHERE idempotency_keys.status_code IS NULL AND idempotency_keys.created_at <= ?
+                    AND idempotency_keys.conversation_id IS excluded.conversation_id
+                    AND idempotency_keys.user_id IS excluded.user_id
+                RETURNING key`,
+      args: [
+        scope,
+        key,
+        owner.conversationId,
+        owner.userId,
+        createdAt,
+        new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_SECONDS * 1000).toISOString(),
+        staleBefore,
+      ],
+    },
+  ], 'write');
+  if (claim.rows.length > 0) return { status: 'claimed' };
+
+  const result = await db.execute({
+    sql: 'SELECT conversation_id, user_id, status_code, response_json FROM idempotency_keys WHERE scope = ? AND key = ?',
+    args: [scope, key],
+  });
+  const row = result.rows[0];
+  if (row && (row.conversation_id !== owner.conversationId || row.user_id !== owner.userId)) {
+    return { status: 'mismatch' };
+  }
+  if (!row || row.status_code === null) return { status: 'pending' };
+  return { status: 'completed', statusCode: Number(row.status_code), response: JSON.parse(row.response_json as string) };
+}
+
+/**
+ * The statement that stores a key's result, to run in the same batch as the writes it
+ * covers: a key is never left releasable once they are saved. The response is a SQL
+ * expression, so it can include the ids of rows the batch just inserted.
+ */
+export function completeIdempotencyKeyStatement(
+  scope: IdempotencyScope,
+  key: string,
+  statusCode: number,
+  response: { sql: string; args: InValue[] }
+): InStatement {
+  return {
+    sql: `UPDATE idempotency_keys SET status_code = ?, response_json = ${response.sql} WHERE scope = ? AND key = ?`,
+    args: [statusCode, ...response.args, scope, key],
+  };
+}
+
+export async function releaseIdempotencyKey(db: Client, scope: IdempotencyScope, key: string): Promise<void> {
+  await db.execute({
+    sql: 'DELETE FROM idempotency_keys WHERE scope = ? AND key = ? AND status_code IS NULL',
+    args: [scope, key],
+  });
+}
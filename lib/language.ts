@@ -0,0 +1,20 @@
+/**
+ * Language detection, shared by the chat pipeline and the chat page (no server imports)
+ */
+
+export type Language = 'english' | 'urdu' | 'roman';
+
+export function detectLanguage(text: string): Language {
+  if (!text || typeof text !== 'string') return 'english';
+
+  // Check for Urdu script (Unicode range 0600-06FF)
+  if (/[\u0600-\u06FF]/.test(text)) return 'urdu';
+
+  // Check for Roman Urdu keywords
+  const romanUrduKeywords = ['kaise', 'kya', 'kyu', 'hai', 'hain', 'chahiye', 'kitne', 'mein', 'aap', 'ko', 'ki', 'ke'];
+  const normalized = text.toLowerCase();
+  const keywordCount = romanUrduKeywords.filter(kw => new RegExp(`\\b${kw}\\b`, 'i').test(normalized)).length;
+  if (keywordCount >= 2) return 'roman';
+
+  return 'english';
+}
@@ -0,0 +1,258 @@
+/**
+ * LLM configuration: which providers are available and which provider and
+ * model each task uses
+ *
+ * Providers come from the environment: OpenAI (OPENAI_API_KEY), OpenRouter
+ * (OPENROUTER_API_KEY) and any OpenAI-compatible server such as llama.cpp or
+ * Ollama (OPENAI_COMPATIBLE_BASE_URL, optional OPENAI_COMPATIBLE_API_KEY). In
+ * local mode (LOCAL_MODE=true) every provider is the deterministic MockLLM
+ * stub, so nothing is sent over the network.
+ *
+ * Admins assign a provider and model per task; the assignments are stored in
+ * `app_settings` and fall back to defaultAssignments().
+ */
+
+import type { Client } from '@libsql/client';
+import OpenAI from 'openai';
+import * as dbHelpers from './dbHelpers';
+import { openAICompatibleProvider, type ChatOptions, type LlmProvider } from './llmProvider';
+import { DEFAULT_LLM_POLICY, LlmCallError, callWithResilience, errorMessage, type LlmCallPolicy } from './llmResilience';
+import { estimatedUsageRecord } from './llmUsage';
+import { MockLLM, parseMockRules } from './mockLlm';
+import { isLocalMode } from './turso';
+import type { LlmAssignment, LlmAssignments, LlmCallRecord, LlmProviderId, LlmTask, TraceFallback } from '../types';
+
+export type LlmProviders = Partial<Record<LlmProviderId, LlmProvider>>;
+
+export const LLM_PROVIDER_IDS: LlmProviderId[] = ['openai', 'openrouter', 'compatible', 'stub'];
+export const LLM_TASKS: LlmTask[] = ['routing', 'intent', 'selection', 'translation', 'generation', 'embedding'];
+
+export const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const OPENROUTER_ROUTER_MODEL = 'google/gemma-3-27b-it:free'; // User preferred model
+
+const ASSIGNMENTS_SETTING_KEY = 'llm_assignments';
+
+export function getOpenRouterKey(): string | undefined {
+  if (isLocalMode()) return undefined;
+  return process.env.OPENROUTER_API_KEY || undefined;
+}
+
+/**
+ * Every provider backed by one stub, so tests can script it and assert on its calls
+ */
+export function stubProviders(mock: MockLLM): LlmProviders {
+  const stub = openAICompatibleProvider('stub', mock);
+  return Object.fromEntries(LLM_PROVIDER_IDS.map(id => [id, { ...stub, id }]));
+}
+
+/**
+ * The providers configured in the environment; unconfigured ones are left out
+ */
+export function createProviders(): LlmProviders {
+  if (isLocalMode()) {
+    return stubProviders(new MockLLM(parseMockRules(process.env.MOCK_LLM_RESPONSES)));
+  }
+
+  const providers: LlmProviders = {};
+  if (process.env.OPENAI_API_KEY) {
+    providers.openai = openAICompatibleProvider('openai', new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 }));
+  }
+  const openRouterKey = getOpenRouterKey();
+  if (openRouterKey) {
+    providers.openrouter = openAICompatibleProvider('openrouter', new OpenAI({
+      apiKey: openRouterKey,
+      baseURL: 'https://openrouter.ai/api/v1',
+      maxRetries: 0,
+      defaultHeaders: { 'HTTP-Referer': process.env.VITE_APP_URL || 'http://localhost:3000' },
+    }));
+  }
+  if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    providers.compatible = openAICompatibleProvider('compatible', new OpenAI({
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      maxRetries: 0,
+    }));
+  }
+  return providers;
+}
+
+/**
+ * Routing prefers OpenRouter when it is configured (strictRouter falls back to OpenAI)
+ */
+export function defaultAssignments(): LlmAssignments {
+  const chat: LlmAssignment = { provider: 'openai', model: DEFAULT_CHAT_MODEL };
+  return {
+    routing: getOpenRouterKey() ? { provider: 'openrouter', model: OPENROUTER_ROUTER_MODEL } : chat,
+    intent: chat,
+    selection: chat,
+    translation: chat,
+    generation: chat,
+    embedding: { provider: 'openai', model: DEFAULT_EMBEDDING_MODEL },
+  };
+}
+
+function isAssignment(value: any): value is LlmAssignment {
+  return !!value
+    && LLM_PROVIDER_IDS.includes(value.provider)
+    && typeof value.model === 'string'
+    && value.model.trim().length > 0;
+}
+
+/**
+ * Stored assignments over the defaults; invalid or missing entries use the default
+ */
+export async function loadLlmAssignments(db: Client): Promise<LlmAssignments> {
+  const assignments = defaultAssignments();
+  const setting = await dbHelpers.selectOne(db, 'app_settings', { column: 'key', value: ASSIGNMENTS_SETTING_KEY });
+  if (!setting?.value) return assignments;
+
+  try {
+    const stored = JSON.parse(setting.value);
+    for (const task of LLM_TASKS) {
+      if (isAssignment(stored?.[task])) {
+        assignments[task] = { provider: stored[task].provider, model: stored[task].model.trim() };
+      }
+    }
+  } catch (error) {
+    console.error('[LLM] Ignoring invalid llm_assignments setting:', error);
+  }
+  return assignments;
+}
+
+/**
+ * Validates against the configured providers; returns an error message, or null once saved
+ */
+export async function saveLlmAssignments(db: Client, assignments: Partial<LlmAssignments>, providers: LlmProviders): Promise<string | null> {
+  for (const [task, assignment] of Object.entries(assignments)) {
+    if (!LLM_TASKS.includes(task as LlmTask)) return `Unknown LLM task "${task}"`;
+    if (!isAssignment(assignment)) return `Choose a provider and model for ${task}`;
+    if (!providers[assignment.provider]) return `Provider "${assignment.provider}" is not configured on the server`;
+  }
+
+  const value = JSON.stringify(Object.fromEntries(LLM_TASKS
+    .filter(task => assignments[task])
+    .map(task => [task, { provider: assignments[task]!.provider, model: assignments[task]!.model.trim() }])));
+  await db.execute({
+    sql: 'INSERT INTO app_settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+    args: [ASSIGNMENTS_SETTING_KEY, value],
+  });
+  return null;
+}
+
+/**
+ * Where an Llm reports what happened: each call's usage, and the fallbacks
+ * callers took when a call failed
+ */
+export interface LlmRecorder {
+  call(call: LlmCallRecord): void;
+  fallback(fallback: Omit<TraceFallback, 'stage'>): void;
+}
+
+const CONSOLE_RECORDER: LlmRecorder = {
+  call: () => { },
+  fallback: ({ step, reason, fallback }) => console.error(`[LLM] ${step} failed (${reason}), using ${fallback}`),
+};
+
+/**
+ * What the app calls: each method runs on the provider and model assigned to its task,
+ * under the timeouts, retries and circuit breakers of lib/llmResilience.ts, and reports
+ * the call's usage. Calls that fail for good throw LlmCallError.
+ */
+export interface Llm {
+  readonly assignments: LlmAssignments;
+  /** `assignment` overrides the task's assignment, e.g. for a fallback model */
+  chat(task: Exclude<LlmTask, 'embedding'>, options: ChatOptions, assignment?: LlmAssignment): Promise<string>;
+  chatJson<T = unknown>(task: Exclude<LlmTask, 'embedding'>, options: ChatOptions): Promise<T>;
+  embed(input: string): Promise<number[]>;
+  /** Record that `step` used `fallback` because of `error` */
+  fallback(step: string, error: unknown, fallback: string): void;
+  /** The same providers and assignments, reporting to another recorder */
+  recordingTo(recorder: LlmRecorder): Llm;
+}
+
+export function createLlm(
+  providers: LlmProviders,
+  assignments: LlmAssignments,
+  recorder: LlmRecorder = CONSOLE_RECORDER,
+  policy: LlmCallPolicy = DEFAULT_LLM_POLICY,
+  deadline: number = Date.now() + policy.requestDeadlineMs
+): Llm {
+  /**
+   * `sent` and `received` estimate the usage of a failed attempt: what was sent, and the
+   * text streamed before it failed. Attempts the provider rejected outright with an HTTP
+   * error and no text cost nothing; a reply that arrived but was unusable keeps its usage.
+   */
+  function run<T extends { usage: LlmCallRecord }>(
+    task: LlmTask,
+    assignment: LlmAssignment,
+    call: (provider: LlmProvider, signal: AbortSignal) => Promise<T>,
+    usage: { sent: string; received?: () => string; canRetry?: () => boolean }
+  ): Promise<T> {
+    const target = { task, ...assignment };
+    const provider = providers[assignment.provider];
+    if (!provider) {
+      return Promise.reject(new LlmCallError(task, assignment.provider, assignment.model, 0, new Error(`LLM provider "${assignment.provider}" is not configured`)));
+    }
+    const kind = task === 'embedding' ? 'embedding' : 'chat';
+    const onFailedAttempt = (error: unknown) => {
+      const reported = (error as { usage?: LlmCallRecord })?.usage;
+      const received = usage.received?.() || '';
+      if (reported) {
+        recorder.call(reported);
+      } else if (received || typeof (error as { status?: unknown })?.status !== 'number') {
+        recorder.call(estimatedUsageRecord(kind, assignment.model, usage.sent, received, assignment.provider === 'compatible'));
+      }
+    };
+    return callWithResilience(target, policy, signal => call(provider, signal), { canRetry: usage.canRetry, onFailedAttempt, deadline }).then(result => {
+      recorder.call(result.usage);
+      return result;
+    });
+  }
+
+  const promptText = (options: ChatOptions) => options.messages.map(message => message.content).join('\n');
+
+  return {
+    assignments,
+    async chat(task, options, assignment = assignments[task]) {
+      // Once tokens have reached the client a retry would repeat them
+      let streamed = false;
+      let received = '';
+      const onToken = options.onToken && ((text: string) => {
+        streamed = true;
+        received += text;
+        options.onToken!(text);
+      });
+      const { text } = await run(task, assignment, (provider, signal) => {
+        received = '';
+        return provider.chat(assignment.model, { ...options, onToken, signal });
+      }, { sent: promptText(options), received: () => received, canRetry: () => !streamed });
+      return text;
+    },
+    async chatJson<T>(task: Exclude<LlmTask, 'embedding'>, options: ChatOptions) {
+      const assignment = assignments[task];
+      const { data } = await run(task, assignment, (provider, signal) => provider.chatJson<T>(assignment.model, { ...options, signal }), { sent: promptText(options) });
+      return data;
+    },
+    async embed(input) {
+      const assignment = assignments.embedding;
+      const { embedding } = await run('embedding', assignment, (provider, signal) => provider.embed(assignment.model, input, signal), { sent: input });
+      return embedding;
+    },
+    fallback(step, error, fallback) {
+      recorder.fallback({ step, reason: errorMessage(error), fallback });
+    },
+    recordingTo: next => createLlm(providers, assignments, next, policy, deadline),
+  };
+}
+
+/**
+ * Providers and stored assignments for one request, whose calls share the policy's
+ * request deadline; null when no provider is configured
+ */
+export async function createLlmForRequest(db: Client, policy: LlmCallPolicy = DEFAULT_LLM_POLICY): Promise<Llm | null> {
+  const providers = createProviders();
+  if (Object.keys(providers).length === 0) return null;
+  return createLlm(providers, await loadLlmAssignments(db), CONSOLE_RECORDER, policy);
+}
@@ -0,0 +1,94 @@
+/**
+ * Daily and monthly LLM budget (server-side only)
+ *
+ * Limits are stored in `app_settings` and compared with the spend recorded in
+ * `llm_usage`. Nearing the limit /api/chat degrades one level at a time, so the
+ * cheapest useful answers keep working longest, and it makes no LLM calls once
+ * spend reaches the limit:
+ *   top_hit        no generated answers; FAQ questions get the top embedding hit without the LLM selection
+ *   faq_only       no chat completions: cached replies and FAQ answers only
+ *   fallback_only  no LLM calls at all: SAFE_FALLBACKS
+ */
+
+import type { Client } from '@libsql/client';
+import * as dbHelpers from './dbHelpers';
+import type { BudgetLevel, LlmBudget, LlmBudgetStatus } from '../types';
+
+export const BUDGET_SETTING_KEYS = {
+  dailyUsd: 'llm_budget_daily_usd',
+  monthlyUsd: 'llm_budget_monthly_usd',
+} as const;
+
+// Fraction of the budget at which each level starts. Spend still grows slowly
+// while degraded (short chat calls, embeddings, admin calls), which is what moves it
+// further down. All levels start below the limit, so chat never spends past it.
+export const BUDGET_LEVEL_THRESHOLDS: { level: BudgetLevel; usedFraction: number }[] = [
+  { level: 'fallback_only', usedFraction: 1 },
+  { level: 'faq_only', usedFraction: 0.95 },
+  { level: 'top_hit', usedFraction: 0.9 },
+];
+
+export const BUDGET_WARNING_FRACTION = 0.8;
+
+function parseLimit(value: unknown): number | null {
+  const limit = Number(value);
+  return value !== null && value !== undefined && value !== '' && Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+export async function loadLlmBudget(db: Client): Promise<LlmBudget> {
+  const [daily, monthly] = await Promise.all([
+    dbHelpers.selectOne(db, 'app_settings', { column: 'key', value: BUDGET_SETTING_KEYS.dailyUsd }),
+    dbHelpers.selectOne(db, 'app_settings', { column: 'key', value: BUDGET_SETTING_KEYS.monthlyUsd }),
+  ]);
+  return { dailyUsd: parseLimit(daily?.value), monthlyUsd: parseLimit(monthly?.value) };
+}
+
+/**
+ * Store both limits; a missing or non-positive limit is saved empty (no limit). Returns the previous budget.
+ */
+export async function saveLlmBudget(db: Client, budget: LlmBudget): Promise<LlmBudget> {
+  const before = await loadLlmBudget(db);
+  for (const field of ['dailyUsd', 'monthlyUsd'] as const) {
+    const limit = parseLimit(budget[field]);
+    await db.execute({
+      sql: 'INSERT INTO app_settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+      args: [BUDGET_SETTING_KEYS[field], limit === null ? '' : String(limit)],
+    });
+  }
+  return before;
+}
+
+export function budgetLevel(usedFraction: number): BudgetLevel {
+  return BUDGET_LEVEL_THRESHOLDS.find(threshold => usedFraction >= threshold.usedFraction)?.level ?? 'normal';
+}
+
+export async function getLlmBudgetStatus(db: Client, now = new Date()): Promise<LlmBudgetStatus> {
+  const today = now.toISOString().slice(0, 10);
+  const month = today.slice(0, 7);
+
+  const [budget, spend] = await Promise.all([
+    loadLlmBudget(db),
+    db.execute({
+      sql: `SELECT COALESCE(SUM(CASE WHEN created_at >= ? THEN cost_usd END), 0) AS today,
+                   COALESCE(SUM(cost_usd), 0) AS month
+            FROM llm_usage WHERE created_at >= ?`,
+      args: [today, month],
+    }),
+  ]);
+
+  const spentTodayUsd = Number(spend.rows[0].today);
+  const spentThisMonthUsd = Number(spend.rows[0].month);
+  const usedFraction = Math.max(
+    budget.dailyUsd ? spentTodayUsd / budget.dailyUsd : 0,
+    budget.monthlyUsd ? spentThisMonthUsd / budget.monthlyUsd : 0,
+  );
+
+  return {
+    budget,
+    spentTodayUsd,
+    spentThisMonthUsd,
+    usedFraction,
+    level: budgetLevel(usedFraction),
+    warning: usedFraction >= BUDGET_WARNING_FRACTION,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * LLM providers (server-side only)
+ *
+ * A provider runs chat completions, JSON-mode chat completions and embeddings
+ * for whatever model it is given, and reports the token usage of each call.
+ * OpenAI, OpenRouter, self-hosted OpenAI-compatible servers (llama.cpp, Ollama)
+ * and the MockLLM stub all speak the OpenAI API, so one implementation over an
+ * OpenAI-compatible client covers them.
+ */
+
+import { usageRecord } from './llmUsage';
+import type { LlmCallRecord, LlmProviderId } from '../types';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Stream the reply; called with each piece of text as it arrives */
+  onToken?: (text: string) => void;
+  /** Aborts the request (set by the timeout in lib/llmResilience.ts) */
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  chat(model: string, options: ChatOptions): Promise<{ text: string; usage: LlmCallRecord }>;
+  /** Asks for a JSON object reply and parses it; throws when the reply is not JSON */
+  chatJson<T = unknown>(model: string, options: ChatOptions): Promise<{ data: T; usage: LlmCallRecord }>;
+  embed(model: string, input: string, signal?: AbortSignal): Promise<{ embedding: number[]; usage: LlmCallRecord }>;
+}
+
+export interface CompatibleChatParams {
+  model: string;
+  messages: { role: string; content?: unknown }[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: string };
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+}
+
+export interface CompatibleChatCompletion {
+  choices: { message?: { content?: string | null } }[];
+  usage?: unknown;
+}
+
+export interface CompatibleChatChunk {
+  choices: { delta?: { content?: string | null } }[];
+  usage?: unknown;
+}
+
+export interface CompatibleEmbeddingParams {
+  model: string;
+  input: string | string[];
+}
+
+export interface CompatibleEmbeddings {
+  data: { embedding: number[] }[];
+  usage?: unknown;
+}
+
+/**
+ * The part of the OpenAI API the providers call. The OpenAI SDK client and MockLLM
+ * both implement it; `stream: true` completions come back as an async iterable of chunks.
+ */
+export interface OpenAICompatibleClient {
+  chat: {
+    completions: {
+      create(params: CompatibleChatParams, options?: { signal?: AbortSignal }): Promise<CompatibleChatCompletion | AsyncIterable<CompatibleChatChunk>>;
+    };
+  };
+  embeddings: {
+    create(params: CompatibleEmbeddingParams, options?: { signal?: AbortSignal }): Promise<CompatibleEmbeddings>;
+  };
+}
+
+function isChunkStream(result: CompatibleChatCompletion | AsyncIterable<CompatibleChatChunk>): result is AsyncIterable<CompatibleChatChunk> {
+  return Symbol.asyncIterator in result;
+}
+
+export function openAICompatibleProvider(id: LlmProviderId, client: OpenAICompatibleClient): LlmProvider {
+  const selfHosted = id === 'compatible';
+
+  async function complete(model: string, options: ChatOptions, json: boolean) {
+    const params = {
+      model,
+      messages: options.messages,
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.maxTokens !== undefined && { max_tokens: options.maxTokens }),
+      ...(json && { response_format: { type: 'json_object' as const } }),
+    };
+
+    if (!options.onToken) {
+      const response = await client.chat.completions.create(params, { signal: options.signal });
+      if (isChunkStream(response)) throw new Error(`${id} streamed a reply that was not asked to stream`);
+      return { text: response.choices[0]?.message?.content || '', usage: usageRecord('chat', model, response.usage, selfHosted) };
+    }
+
+    const stream = await client.chat.completions.create({ ...params, stream: true, stream_options: { include_usage: true } }, { signal: options.signal });
+    if (!isChunkStream(stream)) throw new Error(`${id} did not stream a reply that was asked to stream`);
+    let text = '';
+    let usage: unknown = null;
+    for await (const chunk of stream) {
+      if (chunk.usage) usage = chunk.usage; // last chunk, with no choices
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        options.onToken(delta);
+      }
+    }
+    return { text, usage: usageRecord('chat', model, usage, selfHosted) };
+  }
+
+  return {
+    id,
+    chat: (model, options) => complete(model, options, false),
+    async chatJson(model, options) {
+      const { text, usage } = await complete(model, options, true);
+      try {
+        return { data: JSON.parse(text), usage };
+      } catch (error) {
+        // The reply was generated and paid for, even though it is unusable
+        throw Object.assign(error as Error, { usage });
+      }
+    },
+    async embed(model, input, signal) {
+      const response = await client.embeddings.create({ model, input }, { signal });
+      return { embedding: response.data[0]?.embedding || [], usage: usageRecord('embedding', model, response.usage, selfHosted) };
+    },
+  };
+}
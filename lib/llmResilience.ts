@@ -0,0 +1,233 @@
+/**
+ * Timeouts, retries and circuit breaking for LLM provider calls (server-side only)
+ *
+ * Every call gets a per-task timeout. Retryable failures (timeouts, network
+ * errors, 408/409/429 and 5xx) are retried a bounded number of times with
+ * exponential backoff and full jitter. All calls of one request share a deadline,
+ * so retries never run past the Edge function's response limit: the request
+ * gets its traced fallback instead of a platform timeout. Each provider has a circuit breaker:
+ * after `circuitFailureThreshold` consecutive retryable failures it opens and
+ * calls fail fast for the cool-down window, then one call is let through to
+ * probe the provider. Breakers live in module state, so they are shared by the
+ * requests an Edge isolate serves and start closed in a fresh isolate.
+ */
+
+import type { LlmProviderId, LlmTask } from '../types';
+
+export interface LlmCallPolicy {
+  timeoutMs: Record<LlmTask, number>;
+  /** Time all calls of one request may take together, retries and backoff included */
+  requestDeadlineMs: number;
+  /** Attempts per call, including the first */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  circuitFailureThreshold: number;
+  circuitCoolDownMs: number;
+}
+
+export const DEFAULT_LLM_POLICY: LlmCallPolicy = {
+  timeoutMs: {
+    routing: 8_000,
+    intent: 8_000,
+    selection: 8_000,
+    translation: 10_000,
+    generation: 15_000, // whole streamed answer
+    embedding: 8_000,
+  },
+  // Edge functions must start their response within 25s; this leaves room for the database work
+  requestDeadlineMs: 20_000,
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 2_000,
+  circuitFailureThreshold: 5,
+  circuitCoolDownMs: 30_000,
+};
+
+export class LlmTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`timed out after ${timeoutMs}ms`);
+    this.name = 'LlmTimeoutError';
+  }
+}
+
+export class LlmDeadlineError extends Error {
+  constructor() {
+    super('request deadline reached');
+    this.name = 'LlmDeadlineError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly provider: LlmProviderId, readonly retryInMs: number) {
+    super(`circuit open for ${provider}, retrying in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * A call that failed for good, after its retries or without being attempted
+ */
+export class LlmCallError extends Error {
+  constructor(
+    readonly task: LlmTask,
+    readonly provider: LlmProviderId,
+    readonly model: string,
+    readonly attempts: number,
+    readonly lastError: unknown
+  ) {
+    super(`${task} on ${provider} ${model} failed${attempts > 1 ? ` after ${attempts} attempts` : ''}: ${errorMessage(lastError)}`);
+    this.name = 'LlmCallError';
+  }
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Timeouts, rate limits, server errors and network failures; not bad requests,
+ * auth errors or unparseable replies
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof LlmTimeoutError) return true;
+  if (error instanceof CircuitOpenError) return false;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  const name = (error as { name?: unknown })?.name;
+  // OpenAI SDK connection errors, and fetch's "fetch failed"
+  return name === 'APIConnectionError' || name === 'APIConnectionTimeoutError' || error instanceof TypeError;
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(
+    readonly provider: LlmProviderId,
+    private readonly failureThreshold: number,
+    private readonly coolDownMs: number,
+    private readonly now: () => number = Date.now
+  ) { }
+
+  /** Throws CircuitOpenError while the provider is being skipped */
+  check() {
+    if (this.state !== 'open') return;
+    const waited = this.now() - this.openedAt;
+    if (waited < this.coolDownMs) throw new CircuitOpenError(this.provider, this.coolDownMs - waited);
+    this.state = 'half_open'; // let the next call probe the provider
+  }
+
+  recordSuccess() {
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  recordFailure() {
+    this.failures++;
+    if (this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      if (this.state !== 'open') console.warn(`[LLM] Circuit opened for ${this.provider} after ${this.failures} failures`);
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  get isOpen(): boolean {
+    return this.state === 'open';
+  }
+}
+
+const breakers = new Map<LlmProviderId, CircuitBreaker>();
+
+export function circuitBreakerFor(provider: LlmProviderId, policy: LlmCallPolicy = DEFAULT_LLM_POLICY): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider, policy.circuitFailureThreshold, policy.circuitCoolDownMs);
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/** Close every breaker (tests) */
+export function resetCircuitBreakers() {
+  breakers.clear();
+}
+
+/** Full jitter: a random delay up to the exponential backoff for this retry */
+export function retryDelayMs(retry: number, policy: LlmCallPolicy, random: () => number = Math.random): number {
+  return Math.floor(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function withTimeout<T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LlmTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export interface CallHooks {
+  /** Checked before each retry, e.g. to stop once streamed tokens have reached the client */
+  canRetry?: () => boolean;
+  /** Called for every attempt that was made and failed, before any retry */
+  onFailedAttempt?: (error: unknown) => void;
+  /** Epoch ms after which no attempt starts; attempts are cut short to end by it */
+  deadline?: number;
+}
+
+/**
+ * Run one provider call under the policy
+ */
+export async function callWithResilience<T>(
+  target: { task: LlmTask; provider: LlmProviderId; model: string },
+  policy: LlmCallPolicy,
+  run: (signal: AbortSignal) => Promise<T>,
+  { canRetry = () => true, onFailedAttempt, deadline = Infinity }: CallHooks = {}
+): Promise<T> {
+  const breaker = circuitBreakerFor(target.provider, policy);
+  let attempts = 0;
+  while (true) {
+    const remainingMs = deadline - Date.now();
+    try {
+      if (remainingMs <= 0) throw new LlmDeadlineError();
+      breaker.check();
+    } catch (error) {
+      throw new LlmCallError(target.task, target.provider, target.model, attempts, error);
+    }
+
+    attempts++;
+    const timeoutMs = Math.min(policy.timeoutMs[target.task], remainingMs);
+    try {
+      const result = await withTimeout(timeoutMs, run);
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      onFailedAttempt?.(error);
+      // An attempt cut short by the deadline says nothing about the provider, and there is no time to retry
+      const cutShort = error instanceof LlmTimeoutError && timeoutMs < policy.timeoutMs[target.task];
+      const retryable = !cutShort && isRetryable(error);
+      if (retryable) breaker.recordFailure();
+      const delayMs = retryDelayMs(attempts - 1, policy);
+      if (!retryable || attempts >= policy.maxAttempts || !canRetry() || Date.now() + delayMs >= deadline) {
+        throw new LlmCallError(target.task, target.provider, target.model, attempts, error);
+      }
+      console.warn(`[LLM] ${target.task} on ${target.provider} ${target.model} failed (attempt ${attempts}), retrying:`, errorMessage(error));
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Token usage and estimated cost of every LLM call (server-side only)
+ *
+ * Each call is stored in `llm_usage` with its model, token counts and an
+ * estimated cost, attributed to a stage: a chat pipeline stage (with the
+ * queryId and conversation) or an admin helper such as calculateEmbedding.
+ */
+
+import type { Client } from '@libsql/client';
+import type { Llm } from './llm';
+import type { LlmCallRecord, LlmUsageSummary } from '../types';
+
+// USD per million tokens. Unknown models are costed at UNKNOWN_MODEL_PRICE, so the
+// daily budget overcounts rather than undercounts them; self-hosted models are free.
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'google/gemma-3-27b-it:free': { input: 0, output: 0 },
+};
+
+// gpt-4o's price, above every model in the table
+export const UNKNOWN_MODEL_PRICE = { input: 2.5, output: 10 };
+
+const warnedUnpricedModels = new Set<string>();
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  let price = MODEL_PRICES[model];
+  if (!price) {
+    if (!warnedUnpricedModels.has(model)) {
+      warnedUnpricedModels.add(model);
+      console.warn(`[LLM_USAGE] No price for model "${model}", costing it at $${UNKNOWN_MODEL_PRICE.input}/$${UNKNOWN_MODEL_PRICE.output} per million tokens; add it to MODEL_PRICES`);
+    }
+    price = UNKNOWN_MODEL_PRICE;
+  }
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Normalise an OpenAI-style `usage` object (missing on some errors and streams) into a record.
+ * Calls to a self-hosted server cost nothing.
+ */
+export function usageRecord(kind: LlmCallRecord['kind'], model: string, usage: any, selfHosted = false): LlmCallRecord {
+  const promptTokens = Number(usage?.prompt_tokens) || 0;
+  const completionTokens = Number(usage?.completion_tokens) || 0;
+  return {
+    kind,
+    model,
+    promptTokens,
+    completionTokens,
+    totalTokens: Number(usage?.total_tokens) || promptTokens + completionTokens,
+    costUsd: selfHosted ? 0 : estimateCost(model, promptTokens, completionTokens),
+  };
+}
+
+/**
+ * Usage of a call the provider never reported on (timed out, aborted, or failed mid-stream),
+ * estimated at about four characters per token from what was sent and what arrived
+ */
+export function estimatedUsageRecord(
+  kind: LlmCallRecord['kind'],
+  model: string,
+  prompt: string,
+  completion: string,
+  selfHosted = false
+): LlmCallRecord {
+  const tokens = (text: string) => Math.ceil(text.length / 4);
+  return usageRecord(kind, model, { prompt_tokens: tokens(prompt), completion_tokens: tokens(completion) }, selfHosted);
+}
+
+export interface LlmUsageEntry extends LlmCallRecord {
+  stage: string; // pipeline stage name, or the helper that made the call
+  queryId?: string | null;
+  conversationId?: number | null;
+}
+
+/**
+ * Store usage rows. Failures are logged, not thrown: the call has already been made.
+ */
+export async function recordLlmUsage(db: Client, entries: LlmUsageEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const createdAt = new Date().toISOString();
+  try {
+    await db.batch(entries.map(entry => ({
+      sql: `INSERT INTO llm_usage (created_at, query_id, conversation_id, stage, kind, model, prompt_tokens, completion_tokens, total_tokens, cost_usd)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        createdAt,
+        entry.queryId ?? null,
+        entry.conversationId ?? null,
+        entry.stage,
+        entry.kind,
+        entry.model,
+        entry.promptTokens,
+        entry.completionTokens,
+        entry.totalTokens,
+        entry.costUsd,
+      ],
+    })), 'write');
+  } catch (error) {
+    console.error('[LLM_USAGE] Failed to record usage:', entries.map(entry => entry.stage), error);
+  }
+}
+
+/**
+ * Run `task` with an Llm whose calls are stored under `stage` once it finishes (admin helpers)
+ */
+export async function withLlmUsage<T>(db: Client, stage: string, llm: Llm, task: (llm: Llm) => Promise<T>): Promise<T> {
+  const calls: LlmCallRecord[] = [];
+  try {
+    return await task(llm.recordingTo({
+      call: call => calls.push(call),
+      fallback: ({ step, reason, fallback }) => console.error(`[LLM] ${stage}: ${step} failed (${reason}), using ${fallback}`),
+    }));
+  } finally {
+    await recordLlmUsage(db, calls.map(call => ({ ...call, stage })));
+  }
+}
+
+/**
+ * Spend for the dashboard: per day, per pipeline stage and per conversation over the last `days` days
+ */
+export async function summarizeLlmUsage(db: Client, days = 30): Promise<LlmUsageSummary> {
+  const since = new Date(Date.now() - Math.max(days - 1, 0) * 86_400_000).toISOString().slice(0, 10);
+
+  const [dailyResult, stageResult, conversationResult, totalsResult] = await Promise.all([
+    db.execute({
+      sql: `SELECT substr(created_at, 1, 10) AS day, SUM(cost_usd) AS cost, SUM(total_tokens) AS tokens, COUNT(*) AS calls
+            FROM llm_usage WHERE created_at >= ? GROUP BY day ORDER BY day ASC`,
+      args: [since],
+    }),
+    db.execute({
+      sql: `SELECT stage, SUM(cost_usd) AS cost, SUM(total_tokens) AS tokens, COUNT(*) AS calls
+            FROM llm_usage WHERE created_at >= ? GROUP BY stage ORDER BY cost DESC, tokens DESC`,
+      args: [since],
+    }),
+    db.execute({
+      sql: `SELECT u.conversation_id, c.title, SUM(u.cost_usd) AS cost, COUNT(DISTINCT u.query_id) AS queries
+            FROM llm_usage u LEFT JOIN conversations c ON c.id = u.conversation_id
+            WHERE u.created_at >= ? AND u.conversation_id IS NOT NULL
+            GROUP BY u.conversation_id ORDER BY cost DESC`,
+      args: [since],
+    }),
+    db.execute({
+      sql: `SELECT COALESCE(SUM(cost_usd), 0) AS cost, COALESCE(SUM(total_tokens), 0) AS tokens, COUNT(*) AS calls
+            FROM llm_usage WHERE created_at >= ?`,
+      args: [since],
+    }),
+  ]);
+
+  const conversations = conversationResult.rows as any[];
+  const conversationCost = conversations.reduce((sum, row) => sum + Number(row.cost), 0);
+  const totals = totalsResult.rows[0] as any;
+
+  return {
+    days,
+    totalCostUsd: Number(totals.cost),
+    totalTokens: Number(totals.tokens),
+    calls: Number(totals.calls),
+    daily: (dailyResult.rows as any[]).map(row => ({
+      date: row.day as string,
+      costUsd: Number(row.cost),
+      tokens: Number(row.tokens),
+      calls: Number(row.calls),
+    })),
+    byStage: (stageResult.rows as any[]).map(row => ({
+      stage: row.stage as string,
+      costUsd: Number(row.cost),
+      tokens: Number(row.tokens),
+      calls: Number(row.calls),
+    })),
+    conversations: {
+      count: conversations.length,
+      averageCostUsd: conversations.length > 0 ? conversationCost / conversations.length : 0,
+      top: conversations.slice(0, 5).map(row => ({
+        conversationId: Number(row.conversation_id),
+        title: (row.title as string) || null,
+        costUsd: Number(row.cost),
+        queries: Number(row.queries),
+      })),
+    },
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Versioned schema migrations
+ *
+ * Migrations are plain SQL files named `<version>_<name>.sql` (e.g. 0003_audit_log.sql).
+ * Each one runs once, in version order, inside a single write batch together with
+ * its row in `schema_migrations`, so a failed migration leaves no partial schema.
+ */
+
+import type { Client } from '@libsql/client';
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+const MIGRATION_FILENAME = /^(\d+)_([a-z0-9_]+)\.sql$/;
+
+/**
+ * Parse a migration filename into its version and name. Returns null for other files.
+ */
+export function parseMigrationFilename(filename: string): { version: number; name: string } | null {
+  const match = filename.match(MIGRATION_FILENAME);
+  if (!match) return null;
+  return { version: parseInt(match[1], 10), name: match[2] };
+}
+
+/**
+ * Split a migration file into statements. Strips `--` and block comments; statements end
+ * with `;`. Quoted text ('...', "...", `...`, [...]) is copied as is, so it may contain `--`
+ * or `;`, and so may CASE ... END expressions and the BEGIN ... END body of a CREATE TRIGGER.
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let depth = 0; // open BEGIN (of a trigger) and CASE blocks, whose `;` do not end the statement
+  let i = 0;
+
+  const finish = () => {
+    const statement = current.trim();
+    if (statement) statements.push(statement);
+    current = '';
+    depth = 0;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      current += ' ';
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      let end = i + 1;
+      // A doubled quote is an escaped quote inside the text
+      while (end < sql.length && !(sql[end] === close && sql[end + 1] !== close)) {
+        end += sql[end] === close ? 2 : 1;
+      }
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/)![0];
+      const keyword = word.toUpperCase();
+      if (keyword === 'CASE' || (keyword === 'BEGIN' && /^\s*CREATE\s+(TEMP\s+|TEMPORARY\s+)?TRIGGER\b/i.test(current))) {
+        depth++;
+      } else if (keyword === 'END') {
+        depth = Math.max(0, depth - 1);
+      }
+      current += word;
+      i += word.length;
+    } else if (char === ';' && depth === 0) {
+      finish();
+      i++;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+  finish();
+  return statements;
+}
+
+async function ensureMigrationsTable(db: Client) {
+  await db.execute(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+  )`);
+}
+
+export async function getAppliedMigrations(db: Client): Promise<AppliedMigration[]> {
+  await ensureMigrationsTable(db);
+  const result = await db.execute('SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC');
+  return (result.rows as any[]).map(row => ({
+    version: Number(row.version),
+    name: row.name,
+    applied_at: row.applied_at,
+  }));
+}
+
+/**
+ * Apply every migration that has not run yet. Returns the ones applied by this call.
+ */
+export async function runMigrations(
+  db: Client,
+  migrations: Migration[],
+  onApply?: (migration: Migration) => void
+): Promise<Migration[]> {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].version === sorted[i - 1].version) {
+      throw new Error(`Duplicate migration version ${sorted[i].version}: ${sorted[i - 1].name} and ${sorted[i].name}`);
+    }
+  }
+
+  const appliedVersions = new Set((await getAppliedMigrations(db)).map(m => m.version));
+  const pending = sorted.filter(m => !appliedVersions.has(m.version));
+
+  for (const migration of pending) {
+    onApply?.(migration);
+    await db.batch(
+      [
+        ...splitStatements(migration.sql),
+        {
+          sql: 'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          args: [migration.version, migration.name, new Date().toISOString()],
+        },
+      ],
+      'write'
+    );
+  }
+
+  return pending;
+}
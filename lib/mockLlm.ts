@@ -0,0 +1,212 @@
+/**
+ * Deterministic stand-in for the OpenAI client (local mode and tests)
+ *
+ * Implements the two calls the app makes, `chat.completions.create` and
+ * `embeddings.create` (OpenAICompatibleClient in lib/llmProvider.ts). Chat replies
+ * come from scripted rules first, then from built-in handlers that recognise the
+ * pipeline's own prompts (intent rewrite, follow-up resolution, router, FAQ
+ * selection, translation), so the chat pipeline runs end to end without network
+ * access or API keys.
+ */
+
+import type { OpenAICompatibleClient } from './llmProvider';
+
+export interface MockChatRule {
+  match: string | RegExp; // tested against the system + user messages; strings are case-insensitive substrings
+  response: string;
+}
+
+export interface MockChatMessage {
+  role: string;
+  content?: string | null | unknown;
+}
+
+export interface MockChatParams {
+  model: string;
+  messages: MockChatMessage[];
+  response_format?: { type: string };
+  stream?: boolean;
+  [key: string]: unknown;
+}
+
+export interface MockEmbeddingParams {
+  model: string;
+  input: string | string[];
+  [key: string]: unknown;
+}
+
+interface MockUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export const MOCK_EMBEDDING_DIMENSIONS = 1536;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'am', 'do', 'does', 'can', 'i', 'my', 'me', 'you', 'your',
+  'how', 'when', 'should', 'to', 'of', 'for', 'in', 'on', 'it', 'please', 'with',
+]);
+
+function messageText(message: MockChatMessage | undefined): string {
+  return typeof message?.content === 'string' ? message.content : '';
+}
+
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+function ruleMatches(rule: MockChatRule, text: string): boolean {
+  if (rule.match instanceof RegExp) return rule.match.test(text);
+  return text.toLowerCase().includes(rule.match.toLowerCase());
+}
+
+function toIntentPhrase(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !STOPWORDS.has(word));
+  return words.slice(0, 6).join(' ') || 'braces question';
+}
+
+function routeIntent(intent: string): string {
+  if (/^(hi|hello|hey|salam|aoa|assalam\w*)\b/.test(intent)) return 'GREETING';
+  if (/\b(who are you|your name|my name)\b/.test(intent)) return 'META';
+  if (/^(what|why|types of)\b/.test(intent)) return 'EDUCATION';
+  return 'FAQ';
+}
+
+/**
+ * Replies for the prompts the app sends, keyed off phrases in the system prompt
+ */
+function defaultReply(params: MockChatParams): string {
+  const system = messageText(params.messages.find(m => m.role === 'system'));
+  const user = messageText([...params.messages].reverse().find(m => m.role === 'user'));
+
+  if (system.includes('canonical intent phrase')) return toIntentPhrase(user);
+  if (system.includes('STRICT request router')) {
+    const intent = user.match(/"([^"]*)"/)?.[1] ?? user;
+    return routeIntent(intent.toLowerCase());
+  }
+  if (system.includes('standalone questions')) return user.match(/Latest message: "([^"]*)"/)?.[1] ?? user;
+  if (system.includes('selecting the best FAQ')) return /^1\./m.test(user) ? '1' : 'NONE';
+  if (system.startsWith('Translate')) return user;
+  if (params.response_format?.type === 'json_object') {
+    const phrase = user.match(/Phrase: "([^"]*)"/)?.[1];
+    return JSON.stringify(phrase ? { urdu: phrase, roman: phrase } : {});
+  }
+  return `[mock] ${user}`;
+}
+
+/**
+ * Bag-of-words vector: texts that share words get similar embeddings, identical texts identical ones
+ */
+export function mockEmbedding(text: string, dimensions = MOCK_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array(dimensions).fill(0);
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  for (const word of words) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    vector[(hash >>> 0) % dimensions] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+/**
+ * `stream: true` replies: one chunk per word (with its trailing whitespace), then a stop chunk,
+ * then a usage chunk with no choices when `stream_options.include_usage` is set (as OpenAI does)
+ */
+async function* streamChunks(id: string, model: string, content: string, usage: MockUsage | null) {
+  for (const piece of content.split(/(?<=\s)/)) {
+    yield { id, object: 'chat.completion.chunk' as const, created: 0, model, choices: [{ index: 0, delta: { content: piece }, finish_reason: null }] };
+  }
+  yield { id, object: 'chat.completion.chunk' as const, created: 0, model, choices: [{ index: 0, delta: {}, finish_reason: 'stop' as const }] };
+  if (usage) yield { id, object: 'chat.completion.chunk' as const, created: 0, model, choices: [], usage };
+}
+
+export class MockLLM implements OpenAICompatibleClient {
+  /** Every request made, in order, so tests can assert on prompts */
+  readonly calls: Array<{ type: 'chat'; params: MockChatParams } | { type: 'embedding'; params: MockEmbeddingParams }> = [];
+  private rules: MockChatRule[];
+
+  constructor(rules: MockChatRule[] = []) {
+    this.rules = [...rules];
+  }
+
+  /** Add a rule that takes precedence over the existing ones */
+  script(match: string | RegExp, response: string): this {
+    this.rules.unshift({ match, response });
+    return this;
+  }
+
+  readonly chat = {
+    completions: {
+      create: async (params: MockChatParams) => {
+        this.calls.push({ type: 'chat', params });
+        const prompt = params.messages.map(messageText).join('\n');
+        const rule = this.rules.find(r => ruleMatches(r, prompt));
+        const content = rule ? rule.response : defaultReply(params);
+        const promptTokens = estimateTokens(prompt);
+        const completionTokens = estimateTokens(content);
+
+        const usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+
+        if (params.stream) {
+          const includeUsage = (params.stream_options as { include_usage?: boolean } | undefined)?.include_usage;
+          return streamChunks(`mock-chat-${this.calls.length}`, params.model, content, includeUsage ? usage : null);
+        }
+
+        return {
+          id: `mock-chat-${this.calls.length}`,
+          object: 'chat.completion' as const,
+          created: 0,
+          model: params.model,
+          choices: [{
+            index: 0,
+            message: { role: 'assistant' as const, content, refusal: null },
+            logprobs: null,
+            finish_reason: 'stop' as const,
+          }],
+          usage,
+        };
+      },
+    },
+  };
+
+  readonly embeddings = {
+    create: async (params: MockEmbeddingParams) => {
+      this.calls.push({ type: 'embedding', params });
+      const inputs = Array.isArray(params.input) ? params.input : [params.input];
+      const tokens = inputs.reduce((sum, input) => sum + estimateTokens(input), 0);
+
+      return {
+        object: 'list' as const,
+        model: params.model,
+        data: inputs.map((input, index) => ({ object: 'embedding' as const, index, embedding: mockEmbedding(input) })),
+        usage: { prompt_tokens: tokens, total_tokens: tokens },
+      };
+    },
+  };
+}
+
+/**
+ * Parse MOCK_LLM_RESPONSES: a JSON array of { "match": "<regex>", "response": "..." }
+ */
+export function parseMockRules(json: string | undefined): MockChatRule[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error('expected an array');
+    return parsed
+      .filter(rule => rule && typeof rule.match === 'string' && typeof rule.response === 'string')
+      .map(rule => ({ match: new RegExp(rule.match, 'i'), response: rule.response }));
+  } catch (error: any) {
+    console.warn('[MOCK_LLM] Ignoring invalid MOCK_LLM_RESPONSES:', error.message || error);
+    return [];
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Password hashing for admin accounts (server-side only)
+ *
+ * PBKDF2-SHA256 via Web Crypto so it runs in the Edge runtime.
+ * Stored format: pbkdf2$<iterations>$<salt>$<hash> (base64url parts).
+ */
+
+import { base64UrlDecode, base64UrlEncode, timingSafeEqual } from './session';
+
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+// Checked when a login names no account, so an unknown username costs as much as a wrong password
+const DUMMY_HASH = `pbkdf2$${PBKDF2_ITERATIONS}$OLcbCvRj_dgAwR0hjl-wGg$bGSWLNHpmhPtj8OinGFFXsenXHl3YGE8bBA7dj7E6U4`;
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${base64UrlEncode(salt)}$${base64UrlEncode(hash)}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterationsStr, saltStr, hashStr] = (stored || '').split('$');
+  const iterations = parseInt(iterationsStr, 10);
+  if (scheme !== 'pbkdf2' || !iterations || !saltStr || !hashStr) return false;
+
+  const hash = await derive(password, base64UrlDecode(saltStr), iterations);
+  return timingSafeEqual(base64UrlEncode(hash), hashStr);
+}
+
+/**
+ * The work of verifyPassword against a hash that matches no password. Always false.
+ */
+export async function verifyAgainstDummyHash(password: string): Promise<false> {
+  await verifyPassword(password, DUMMY_HASH);
+  return false;
+}
@@ -0,0 +1,49 @@
+/**
+ * Chat pipeline: versioned stage lists
+ *
+ * A pipeline is an ordered list of stages (./stages.ts). To try a variant, add a
+ * new list under the next version number (reordered, with stages removed or new
+ * ones added) and deploy with the PIPELINE_VERSION environment variable set to it;
+ * the old list stays available so `npm run eval` results and cached decisions can
+ * be compared per version.
+ */
+
+import { DEFAULT_STAGES } from './stages';
+import type { PipelineStage } from './types';
+
+// Runs when PIPELINE_VERSION is not set. Cached decisions and eval results are keyed on the version
+export const DEFAULT_PIPELINE_VERSION = 1;
+
+export const PIPELINES: Record<number, PipelineStage[]> = {
+  1: DEFAULT_STAGES,
+};
+
+/**
+ * The version to run: PIPELINE_VERSION from the environment when it names a registered
+ * pipeline, else the default. An unknown value is logged and ignored, so a typo in the
+ * deployment settings cannot fail every chat request.
+ */
+export function selectPipelineVersion(
+  value: string | undefined = process.env.PIPELINE_VERSION,
+  warn: (message: string) => void = console.warn
+): number {
+  if (value === undefined || value.trim() === '') return DEFAULT_PIPELINE_VERSION;
+  const version = Number(value);
+  if (Number.isInteger(version) && PIPELINES[version]) return version;
+  warn(`[PIPELINE] Unknown PIPELINE_VERSION ${JSON.stringify(value)}, running v${DEFAULT_PIPELINE_VERSION}`);
+  return DEFAULT_PIPELINE_VERSION;
+}
+
+export function getPipeline(version: number = DEFAULT_PIPELINE_VERSION): PipelineStage[] {
+  const stages = PIPELINES[version];
+  if (!stages) throw new Error(`Unknown pipeline version ${version}`);
+  return stages;
+}
+
+export { saveChatExchange, type ChatExchangeIds } from './messages';
+export { createPipelineContext, runPipeline } from './runner';
+export { SAFETY_RESPONSES, screenMessage } from './safety';
+export { finishTrace, loadTrace, saveTrace, summarizeCacheOutcomes, summarizeFallbacks, traceUsageEntries } from './trace';
+export { detectRedFlags, urgentReply, type RedFlag } from './urgent';
+export * from './steps';
+export * from './types';
@@ -0,0 +1,76 @@
+/**
+ * Chat message persistence (server-side only)
+ *
+ * /api/chat stores the user's message and the reply together once the stages are
+ * done, so the pipeline decisions land on the row of the message they were made
+ * for, however many users are chatting at once.
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { completeIdempotencyKeyStatement } from '../idempotency';
+import type { BotResponse, PipelineContext } from './types';
+
+export interface ChatExchangeIds {
+  userMessageId: number;
+  botMessageId: number;
+}
+
+/**
+ * Insert the user row (with its decisions) and the bot row in one write batch.
+ * The route is stored whenever one was decided, at any budget level. With a client message id,
+ * the same batch stores the reply and both row ids under it (lib/idempotency.ts).
+ */
+export async function saveChatExchange(
+  db: Client,
+  ctx: PipelineContext,
+  response: BotResponse,
+  receivedAt: string,
+  clientMessageId: string | null = null
+): Promise<ChatExchangeIds> {
+  const conversationId = ctx.input.conversationId ?? null;
+  const completion: InStatement[] = clientMessageId
+    ? [completeIdempotencyKeyStatement('chat', clientMessageId, 200, {
+      sql: `json_set(?,
+                '$.userMessageId', (SELECT id FROM chat_messages WHERE query_id = ? AND sender = 'user' ORDER BY id DESC LIMIT 1),
+                '$.botMessageId', (SELECT id FROM chat_messages WHERE query_id = ? AND sender = 'bot' ORDER BY id DESC LIMIT 1))`,
+      args: [JSON.stringify(response), ctx.queryId, response.queryId],
+    })]
+    : [];
+  const [user, bot] = await db.batch([
+    {
+      sql: `INSERT INTO chat_messages
+                (conversation_id, sender, text, query_id, canonical_intent, route, resolved_faq_id,
+                 pipeline_version, standalone_query, safety_flag, created_at)
+                VALUES (?, 'user', ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                RETURNING id`,
+      args: [
+        conversationId,
+        ctx.input.message,
+        ctx.queryId,
+        ctx.canonicalIntent || null,
+        ctx.route,
+        ctx.resolvedFaqId,
+        ctx.pipelineVersion,
+        ctx.isContextual ? ctx.standaloneQuery : null, // Set for follow-ups
+        ctx.trace.safetyFlag,
+        receivedAt,
+      ],
+    },
+    {
+      sql: `INSERT INTO chat_messages (conversation_id, sender, text, media_urls, query_id, suggestions_json, created_at)
+                VALUES (?, 'bot', ?, ?, ?, ?, ?)
+                RETURNING id`,
+      args: [
+        conversationId,
+        response.text,
+        JSON.stringify(response.mediaUrls || []),
+        response.queryId,
+        response.suggestions?.length ? JSON.stringify(response.suggestions) : null,
+        new Date().toISOString(),
+      ],
+    },
+    ...completion,
+  ], 'write');
+
+  return { userMessageId: Number(user.rows[0].id), botMessageId: Number(bot.rows[0].id) };
+}
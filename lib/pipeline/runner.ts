@@ -0,0 +1,91 @@
+/**
+ * Runs a list of stages over one request
+ */
+
+import { createTrace, currentStep } from './trace';
+import type { BotResponse, ChatEvents, ChatInput, PipelineContext, PipelineStage } from './types';
+import type { TraceStep } from '../../types';
+
+export interface PipelineContextInit {
+  db: PipelineContext['db'];
+  llm: PipelineContext['llm'];
+  events: ChatEvents;
+  log: PipelineContext['log'];
+  input: ChatInput;
+  queryId: string;
+  pipelineVersion: number;
+}
+
+export function createPipelineContext(init: PipelineContextInit): PipelineContext {
+  // Identify suggestion candidates (3 words or less)
+  const queryWordCount = init.input.message.split(/\s+/).filter(w => w.length > 0).length;
+  const trace = createTrace(init.queryId, init.input.conversationId ?? null, init.pipelineVersion, init.input.message);
+
+  return {
+    ...init,
+    llm: init.llm.recordingTo({
+      call: call => currentStep(trace)?.llmCalls.push(call),
+      fallback: fallback => {
+        init.log(`[FALLBACK] ${fallback.step}: ${fallback.reason} → ${fallback.fallback}`);
+        trace.fallbacks.push({ stage: currentStep(trace)?.name ?? '', ...fallback });
+      },
+    }),
+    trace,
+    isSuggestionCandidate: queryWordCount <= 3,
+    budgetLevel: 'normal',
+    language: 'english',
+    englishQuery: init.input.message,
+    history: [],
+    standaloneQuery: init.input.message,
+    isContextual: false,
+    cacheEnabled: true,
+    cached: null,
+    canonicalIntent: '',
+    intentEmbedding: null,
+    faqs: [],
+    media: [],
+    route: null,
+    selectedFAQ: null,
+    resolvedFaqId: null,
+    finalAnswer: '',
+    selectedMedia: [],
+    response: null,
+  };
+}
+
+/**
+ * Runs the stages in order until one sets `ctx.response` (or they run out) and
+ * returns the reply. Each stage gets a `[STAGE]` line in the pipeline logs and
+ * a step in `ctx.trace`.
+ */
+export async function runPipeline(stages: PipelineStage[], ctx: PipelineContext): Promise<BotResponse> {
+  for (const stage of stages) {
+    const step: TraceStep = { name: stage.name, status: 'skipped', ms: 0, llmCalls: [] };
+    ctx.trace.steps.push(step);
+    if (stage.when && !stage.when(ctx)) {
+      ctx.log(`[STAGE] ${stage.name} skipped`);
+      continue;
+    }
+
+    const started = Date.now();
+    try {
+      const decision = await stage.run(ctx);
+      step.status = 'ran';
+      if (decision) step.decision = decision;
+    } catch (error) {
+      step.status = 'failed';
+      throw error;
+    } finally {
+      step.ms = Date.now() - started;
+    }
+    ctx.log(`[STAGE] ${stage.name} ${step.ms}ms${step.decision ? ` → ${step.decision}` : ''}`);
+    if (ctx.response) return ctx.response;
+  }
+
+  return {
+    text: ctx.finalAnswer,
+    mediaUrls: ctx.selectedMedia,
+    faqId: ctx.selectedFAQ?.id || null,
+    queryId: ctx.queryId,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Safety screening for user messages, before any of their text reaches a prompt
+ *
+ * Flags prompt-injection attempts, self-harm and abuse with keyword patterns in
+ * English, Roman Urdu and Urdu. Flagged messages get a fixed reply in the user's
+ * language instead of the pipeline's answer, and the flag is stored on the
+ * message (chat_messages.safety_flag) for admins to review.
+ */
+
+import type { SafetyFlag } from '../../types';
+import type { Language } from './types';
+
+export type { SafetyFlag };
+
+// Checked in this order: a message that is both abusive and about self-harm gets the self-harm reply
+const SAFETY_PATTERNS: [SafetyFlag, RegExp[]][] = [
+  ['self_harm', [
+    /\b(kill|harm)(ing)?\s+(myself|my\s*self)\b/i,
+    /\b(suicid(e|al)|self[-\s]?harm)\b/i,
+    /\bi\s+(want\s+to|wanna)\s+die\b/i,
+    /\bend\s+(my|it)\s+(life|all)\b/i,
+    /\b(khud\s*ku?shi|khudkushi|khud\s*ko\s*(maar|mar|khatam))\b/i,
+    /\b(mar(na)?\s+jana\s+chahta|marna\s+chahta|marna\s+chahti|zindagi\s+khatam)\b/i,
+    /خودکشی|خود\s*کو\s*(مار|ختم)|مرنا\s*چاہت|زندگی\s*ختم/,
+  ]],
+  ['prompt_injection', [
+    /\b(ignore|disregard|forget|override)\s+(all\s+)?(of\s+)?(your\s+|the\s+|any\s+)?(previous|prior|above|earlier|system|original)\s+(instructions|prompts?|rules|directions)\b/i,
+    /\b(ignore|disregard|forget|override)\s+(all\s+)?(of\s+)?your\s+(instructions|prompts?|rules)\b/i,
+    /\b(system|hidden|initial)\s+prompt\b/i,
+    /\b(reveal|show|print|repeat|tell)\s+(me\s+)?your\s+(system\s+)?(instructions|prompt|rules)\b/i,
+    /\b(jailbreak|DAN\s+mode|developer\s+mode)\b/i,
+    /\b(you\s+are\s+now\s+(a|an|in|my)|pretend\s+(to\s+be|you\s+are))\b/i,
+    /\b(pichl[ie]|pehl[ie])\s+(instructions|hidayat)\s+(ignore|bhool|bhul)/i,
+    /پچھلی\s*ہدایات|ہدایات\s*کو?\s*(نظرانداز|بھول)/,
+  ]],
+  ['abuse', [
+    /\b(fuck(ing|er)?|motherfucker|bitch|bastard|asshole|cunt)\b/i,
+    /\b(bhen\s*chod|behen\s*chod|madar\s*chod|haramzad[ai]|harami|kutt[ae]\s+ka\s+bacha|chutiya|gandu)\b/i,
+    /حرامزاد|حرامی|کتے\s*کا\s*بچہ|بہن\s*چود|مادر\s*چود/,
+  ]],
+];
+
+/**
+ * The first flag the message matches, or null when it is safe to answer
+ */
+export function screenMessage(text: string): SafetyFlag | null {
+  for (const [flag, patterns] of SAFETY_PATTERNS) {
+    if (patterns.some(pattern => pattern.test(text))) return flag;
+  }
+  return null;
+}
+
+export const SAFETY_RESPONSES: Record<SafetyFlag, Record<Language, string>> = {
+  self_harm: {
+    english: "I'm really sorry you're feeling this way. You don't have to go through it alone: please reach out to someone you trust, or contact your local emergency services right away if you are in danger.",
+    urdu: 'مجھے بہت افسوس ہے کہ آپ ایسا محسوس کر رہے ہیں۔ آپ اکیلے نہیں ہیں: براہ کرم کسی قابل اعتماد شخص سے بات کریں، اور اگر آپ خطرے میں ہیں تو فوراً مقامی ایمرجنسی سروس سے رابطہ کریں۔',
+    roman: 'Mujhe bohat afsos hai ke aap aisa mehsoos kar rahe hain. Aap akelay nahi hain: baraye meharbani kisi qabil-e-aitmaad shakhs se baat karein, aur agar aap khatre mein hain to foran local emergency service se rabta karein.',
+  },
+  prompt_injection: {
+    english: 'I can only help with dental and orthodontic questions. Please ask something about your teeth or braces.',
+    urdu: 'میں صرف دانتوں اور آرتھوڈونٹکس سے متعلق سوالات میں مدد کر سکتا ہوں۔ براہ کرم اپنے دانتوں یا بریسز کے بارے میں پوچھیں۔',
+    roman: 'Main sirf danton aur braces se mutaliq sawalat mein madad kar sakta hoon. Baraye meharbani apne danton ya braces ke baare mein poochein.',
+  },
+  abuse: {
+    english: "I'm here to help with your dental care. Please keep the conversation respectful and ask me anything about your teeth or braces.",
+    urdu: 'میں آپ کی دانتوں کی دیکھ بھال میں مدد کے لیے حاضر ہوں۔ براہ کرم گفتگو کو مہذب رکھیں اور اپنے دانتوں یا بریسز کے بارے میں پوچھیں۔',
+    roman: 'Main aap ki danton ki dekh bhaal mein madad ke liye haazir hoon. Baraye meharbani guftagu ko mohazzab rakhein aur apne danton ya braces ke baare mein poochein.',
+  },
+};
@@ -0,0 +1,714 @@
+/**
+ * The chat pipeline stages, in the order the default pipeline runs them.
+ *
+ * Each stage reads what earlier stages left on the context and records its own
+ * decision. Stages that produce a complete reply early (safety screening,
+ * urgent symptoms, budget fallback, suggestion clicks, full cache hits,
+ * suggestion chips) set `ctx.response` and the runner stops there.
+ */
+
+import { loadClinicContact } from '../clinicContact';
+import * as dbHelpers from '../dbHelpers';
+import { getLlmBudgetStatus } from '../llmBudget';
+import { findSemanticCacheMatch, loadSemanticCacheThreshold, readResponseCache, responseCacheKey, writeResponseCache } from '../responseCache';
+import {
+  EARLY_RESPONSES,
+  SAFE_FALLBACKS,
+  detectLanguage,
+  generateAnswer,
+  getTopFAQs,
+  historyMessages,
+  loadConversationHistory,
+  normalizeText,
+  resolveFollowUp,
+  rewriteToCanonicalIntent,
+  selectBestFAQWithLLM,
+  selectMediaFromLinkedIds,
+  strictRouter,
+  translateFromEnglish,
+  translateToEnglish,
+} from './steps';
+import { SAFETY_RESPONSES, screenMessage } from './safety';
+import { lastChatModel } from './trace';
+import type { Language, PipelineContext, PipelineStage, RouteCategory } from './types';
+import type { SuggestionChip } from '../../types';
+import { detectRedFlags, urgentReply } from './urgent';
+
+const EARLY_ROUTES: RouteCategory[] = ['GREETING', 'META', 'IRRELEVANT'];
+// Routes whose replies are written in every language, so they are never translated back
+const LOCALIZED_ROUTES: RouteCategory[] = [...EARLY_ROUTES, 'URGENT'];
+
+// Chat completions are off from the faq_only budget level on; embeddings still run
+const chatAllowed = (ctx: PipelineContext) => ctx.budgetLevel === 'normal' || ctx.budgetLevel === 'top_hit';
+// Answers are generated only at the normal level: from top_hit on only the short chat
+// calls run (translation, intent, routing)
+const generationAllowed = (ctx: PipelineContext) => ctx.budgetLevel === 'normal';
+// Earlier turns reach the answer only for follow-ups, which are never cached: a standalone
+// question's answer is stored and served to everyone who asks it, so it must not carry one user's context
+const generationHistory = (ctx: PipelineContext) => (ctx.isContextual ? historyMessages(ctx.history) : []);
+
+// --- SAFETY SCREENING ---
+// Runs first, so flagged messages never reach a prompt and get their reply even over budget (./safety.ts).
+// The flag is stored on the user row without a route, and the reply is never cached.
+export const safetyStage: PipelineStage = {
+  name: 'safety',
+  async run(ctx) {
+    const { log, queryId } = ctx;
+    const flag = screenMessage(ctx.input.message);
+    ctx.trace.safetyFlag = flag;
+    if (!flag) return 'clean';
+
+    log(`[SAFETY] Message flagged as ${flag}`);
+    const language = detectLanguage(ctx.input.message);
+    ctx.trace.language = language;
+    ctx.response = { text: SAFETY_RESPONSES[flag][language], mediaUrls: [], faqId: null, queryId };
+    return flag;
+  },
+};
+
+/**
+ * The urgent-care reply with the clinic's current contact details. Flags the
+ * request's conversation, if it has one, for staff follow-up.
+ */
+async function escalateUrgent(ctx: PipelineContext, language: Language): Promise<string> {
+  const { db, log } = ctx;
+  let contact = { name: '', phone: '', address: '', hours: '' };
+  try {
+    contact = await loadClinicContact(db);
+  } catch (e) {
+    log('[URGENT] Failed to load clinic contact', e);
+  }
+
+  if (ctx.input.conversationId) {
+    try {
+      await db.execute({
+        sql: `UPDATE conversations
+                  SET urgent_flagged_at = ?,
+                      urgent_followed_up_at = NULL
+                  WHERE id = ?`,
+        args: [new Date().toISOString(), ctx.input.conversationId]
+      });
+    } catch (e) {
+      log('[URGENT] Failed to flag conversation', e);
+    }
+  }
+
+  ctx.route = 'URGENT';
+  ctx.trace.route = 'URGENT';
+  ctx.resolvedFaqId = null;
+  return urgentReply(language, contact);
+}
+
+// --- URGENT SYMPTOMS ---
+// Red-flag symptoms skip the rest of the pipeline, also over budget (./urgent.ts).
+// The router can still choose URGENT for phrasings the patterns miss (urgentAnswerStage).
+export const urgentStage: PipelineStage = {
+  name: 'urgent',
+  async run(ctx) {
+    const { log, queryId } = ctx;
+    const redFlags = detectRedFlags(ctx.input.message);
+    if (redFlags.length === 0) return 'none';
+
+    log(`[URGENT] Red flags: ${redFlags.join(', ')}`);
+    const language = detectLanguage(ctx.input.message);
+    ctx.trace.language = language;
+    ctx.trace.routeModel = 'red flags';
+    const text = await escalateUrgent(ctx, language);
+    ctx.response = { text, mediaUrls: [], faqId: null, queryId };
+    return redFlags.join(', ');
+  },
+};
+
+// --- BUDGET CHECK ---
+// Over budget, the later stages skip LLM calls level by level (lib/llmBudget.ts)
+export const budgetStage: PipelineStage = {
+  name: 'budget',
+  async run(ctx) {
+    try {
+      ctx.budgetLevel = (await getLlmBudgetStatus(ctx.db)).level;
+    } catch (e) {
+      ctx.log('[BUDGET] Failed to read budget, continuing without limits', e);
+    }
+    ctx.trace.budgetLevel = ctx.budgetLevel;
+    if (ctx.budgetLevel === 'normal') return 'within budget';
+
+    ctx.log(`[BUDGET] Over budget, degraded to ${ctx.budgetLevel}`);
+    if (ctx.budgetLevel === 'fallback_only') {
+      const language = detectLanguage(ctx.input.message);
+      ctx.trace.language = language;
+      ctx.response = { text: SAFE_FALLBACKS[language], mediaUrls: [], faqId: null, queryId: ctx.queryId };
+    }
+    return ctx.budgetLevel;
+  },
+};
+
+// --- 0. SUGGESTION CLICK HANDLING (Direct Resolution) ---
+export const suggestionClickStage: PipelineStage = {
+  name: 'suggestionClick',
+  when: ctx => !!ctx.input.suggestionFaqId,
+  async run(ctx) {
+    const { db, llm, log, input, queryId } = ctx;
+    const suggestionFaqId = input.suggestionFaqId!;
+    log(`[PIPELINE] Suggestion Click Detected: FAQ ID ${suggestionFaqId}`);
+
+    // Detect language of the *message* (the chip text) to reply in correct language
+    const detectedLang = detectLanguage(input.message);
+
+    const faq = await dbHelpers.selectOne(db, 'faqs', { column: 'id', value: suggestionFaqId });
+    // If not, we continue to the main pipeline.
+    if (!faq) return 'FAQ not found, continuing';
+
+    // Fetch media
+    const media = await dbHelpers.selectAll(db, 'media', 'id, title, url, type');
+
+    let finalAnswer = faq.answer;
+    // Translate answer if needed (and the budget allows it)
+    if (detectedLang !== 'english' && chatAllowed(ctx)) {
+      finalAnswer = await translateFromEnglish(finalAnswer, detectedLang, llm);
+    }
+
+    const selectedMedia = selectMediaFromLinkedIds(faq.media_ids ? JSON.parse(faq.media_ids) : [], media);
+
+    // Stored on the user row with the message (./messages.ts)
+    ctx.canonicalIntent = `SUGGESTION_CLICK:${suggestionFaqId}`;
+    ctx.route = 'FAQ';
+    ctx.resolvedFaqId = suggestionFaqId;
+    ctx.trace.route = 'FAQ';
+    ctx.response = {
+      text: finalAnswer,
+      mediaUrls: selectedMedia,
+      faqId: suggestionFaqId,
+      queryId,
+    };
+    return `answered with FAQ ${suggestionFaqId}`;
+  },
+};
+
+// 1. Language Detection (Always run, fast and needed for response)
+export const languageStage: PipelineStage = {
+  name: 'language',
+  async run(ctx) {
+    ctx.language = detectLanguage(ctx.input.message);
+    ctx.trace.language = ctx.language;
+    ctx.log('[PIPELINE] Language detected:', ctx.language);
+    ctx.events.stage('language', { language: ctx.language });
+    ctx.log('[PIPELINE] Original query:', ctx.input.message);
+    return ctx.language;
+  },
+};
+
+// 2. Translation (Always run if needed)
+export const translationStage: PipelineStage = {
+  name: 'translation',
+  when: ctx => ctx.language !== 'english' && chatAllowed(ctx),
+  async run(ctx) {
+    ctx.englishQuery = await translateToEnglish(ctx.input.message, ctx.language, ctx.llm);
+    ctx.log('[PIPELINE] Translated to English:', ctx.englishQuery);
+  },
+};
+
+// 2b. Conversation context: resolve follow-ups into standalone questions
+export const conversationContextStage: PipelineStage = {
+  name: 'conversationContext',
+  when: chatAllowed,
+  async run(ctx) {
+    const { db, llm, log, input } = ctx;
+    if (input.conversationId) {
+      try {
+        ctx.history = await loadConversationHistory(db, input.conversationId);
+      } catch (e) {
+        log('[CONTEXT] Failed to load conversation history', e);
+      }
+    }
+    ctx.standaloneQuery = await resolveFollowUp(ctx.englishQuery, ctx.history, llm);
+    // A rewritten follow-up depends on this conversation, so it must not use or feed the shared cache
+    ctx.isContextual = normalizeText(ctx.standaloneQuery) !== normalizeText(ctx.englishQuery);
+    if (ctx.isContextual) {
+      log('[CONTEXT] Follow-up resolved to:', ctx.standaloneQuery);
+      ctx.englishQuery = ctx.standaloneQuery;
+      return 'follow-up rewritten';
+    } else if (ctx.history.length > 0) {
+      log(`[CONTEXT] ${ctx.history.length} previous turns, query is standalone`);
+    }
+    return 'standalone';
+  },
+};
+
+// --- CACHE LOGIC ---
+// Entries live in response_cache (lib/responseCache.ts): admin edits to FAQs, media and
+// suggestion groups evict the ones they make stale, and every entry expires after a TTL.
+export const cacheLookupStage: PipelineStage = {
+  name: 'cacheLookup',
+  async run(ctx) {
+    const { db, log, input, queryId } = ctx;
+    try {
+      const setting = await dbHelpers.selectOne(db, 'app_settings', { column: 'key', value: 'cache_enabled' });
+
+      if (setting && setting.value === 'false') {
+        ctx.cacheEnabled = false;
+      }
+    } catch (e) {
+      log('[CACHE] Error reading settings, defaulting to ENABLED', e);
+    }
+
+    log(`[CACHE] Status: ${ctx.cacheEnabled ? 'ENABLED' : 'DISABLED'}`);
+
+    if (ctx.cacheEnabled && !ctx.isContextual) {
+      try {
+        log(`[CACHE] Checking cache for query: "${input.message}"`);
+        const entry = await readResponseCache(db, responseCacheKey(input.message, ctx.language, ctx.pipelineVersion));
+
+        // 1. Full hit: the stored reply (text, media, suggestions) is still current
+        if (entry && entry.answer !== null) {
+          log('[CACHE] FULL HIT - Response reused');
+          ctx.trace.cache = 'full_hit';
+          ctx.trace.route = entry.route;
+          ctx.response = {
+            text: entry.answer,
+            mediaUrls: entry.mediaUrls,
+            faqId: entry.faqId,
+            queryId, // Return NEW queryId for frontend tracking
+            suggestions: entry.suggestions?.length ? entry.suggestions : undefined,
+          };
+          return 'full hit';
+        }
+
+        // 2. Partial hit: the FAQ's answer changed, so reuse the decisions but regenerate the text
+        if (entry) {
+          ctx.cached = { intent: entry.canonicalIntent, route: entry.route, faqId: entry.faqId };
+          log('[CACHE] PARTIAL HIT - Reusing intent/route, will regenerate text');
+          ctx.trace.cache = 'partial_hit';
+          return 'partial hit';
+        }
+      } catch (e) {
+        log('[CACHE] Read failed', e);
+      }
+    }
+
+    if (!ctx.cacheEnabled) {
+      ctx.trace.cache = 'disabled';
+      return 'disabled';
+    }
+    if (ctx.isContextual) {
+      log('[CACHE] BYPASS - Follow-up depends on conversation context');
+      ctx.trace.cache = 'bypass';
+      return 'bypass';
+    }
+    log('[CACHE] MISS - Computing fresh values');
+    ctx.trace.cache = 'miss';
+    return 'miss';
+  },
+};
+
+/**
+ * Store this request's reply for repeated questions. Follow-ups, replies made over
+ * budget or with a fallback, and urgent replies (rebuilt with the current clinic
+ * contact every time) are never stored.
+ */
+async function cacheResponse(
+  ctx: PipelineContext,
+  reply: { route: RouteCategory; answer: string; suggestions?: SuggestionChip[] }
+) {
+  const { db, log } = ctx;
+  if (!ctx.cacheEnabled || ctx.isContextual || ctx.budgetLevel !== 'normal' || reply.route === 'URGENT') return;
+  if (ctx.trace.fallbacks.length > 0) {
+    log('[CACHE] Not storing a reply that needed a fallback');
+    return;
+  }
+
+  try {
+    await writeResponseCache(db, responseCacheKey(ctx.input.message, ctx.language, ctx.pipelineVersion), {
+      canonicalIntent: ctx.canonicalIntent,
+      route: reply.route,
+      faqId: ctx.resolvedFaqId,
+      mediaIds: ctx.media.filter((m: any) => ctx.selectedMedia.includes(m.url)).map((m: any) => Number(m.id)),
+      shortQuery: ctx.isSuggestionCandidate,
+      answer: reply.answer,
+      mediaUrls: ctx.selectedMedia,
+      suggestions: reply.suggestions ?? null,
+      intentEmbedding: ctx.intentEmbedding,
+    });
+    log('[CACHE] Stored response');
+  } catch (e) {
+    log('[CACHE] Failed to store response', e);
+  }
+}
+
+// 3. Canonical Intent
+// Reuse cached if available, otherwise compute
+export const intentStage: PipelineStage = {
+  name: 'intent',
+  async run(ctx) {
+    if (ctx.cached) {
+      ctx.canonicalIntent = ctx.cached.intent;
+      ctx.log('[PIPELINE] Using CACHED Intent:', ctx.canonicalIntent);
+    } else if (!chatAllowed(ctx)) {
+      ctx.canonicalIntent = normalizeText(ctx.englishQuery);
+      ctx.log('[BUDGET] Using the query as intent:', ctx.canonicalIntent);
+    } else {
+      ctx.canonicalIntent = await rewriteToCanonicalIntent(ctx.englishQuery, ctx.llm);
+      ctx.log('[PIPELINE] Computed intent:', ctx.canonicalIntent);
+    }
+    ctx.trace.canonicalIntent = ctx.canonicalIntent;
+    ctx.events.stage('intent', { canonicalIntent: ctx.canonicalIntent });
+    return ctx.canonicalIntent;
+  },
+};
+
+// --- SUGGESTION CHIPS CHECK (using canonical intent) ---
+// Only check if original query is short (3 words or less)
+export const suggestionChipsStage: PipelineStage = {
+  name: 'suggestionChips',
+  when: ctx => ctx.isSuggestionCandidate,
+  async run(ctx) {
+    const { db, log, input, queryId, canonicalIntent } = ctx;
+    try {
+      const matchGroups = await dbHelpers.selectAll(db, 'suggestions');
+      const intentWords = canonicalIntent.toLowerCase().split(/\s+/);
+
+      let collectedChips: any[] = [];
+
+      for (const group of matchGroups) {
+        const kws = (group.keywords || '').toLowerCase().split(/\s+/).map((k: string) => k.trim()).filter((k: string) => k);
+
+        // Check if any keyword matches any intent word OR is contained in the canonical intent
+        const isMatch = kws.some((k: string) => k && (intentWords.includes(k) || canonicalIntent.toLowerCase().includes(k)));
+
+        if (isMatch) {
+          try {
+            const chips = JSON.parse(group.chips_json || '[]');
+            collectedChips = [...collectedChips, ...chips];
+            log(`[SUGGESTIONS] Matched group ${group.id} with ${chips.length} chips`);
+          } catch (e) {
+            log(`[SUGGESTIONS] Failed to parse chips for group ${group.id}`);
+          }
+        }
+      }
+
+      if (collectedChips.length === 0) return 'no matching chips';
+
+      log(`[SUGGESTIONS] Returning ${collectedChips.length} suggestions for query: "${input.message}"`);
+      let suggestReply = "Here are some suggestions:";
+      // Simple heuristic for Urdu/Roman
+      if (/[^\u0000-\u007F]/.test(input.message)) {
+        suggestReply = "یہاں کچھ تجاویز ہیں:";
+      }
+
+      ctx.route = 'GENERAL'; // Use GENERAL as fallback route
+      await cacheResponse(ctx, { route: 'GENERAL', answer: suggestReply, suggestions: collectedChips });
+
+      ctx.response = {
+        text: suggestReply,
+        mediaUrls: [],
+        faqId: null,
+        queryId,
+        suggestions: collectedChips,
+      };
+      return `${collectedChips.length} chips`;
+    } catch (err) {
+      log('[SUGGESTIONS] Error in suggestion logic:', err);
+      // Fall through to main pipeline if error
+      return 'failed, continuing';
+    }
+  },
+};
+
+// 3b. Semantic cache: a miss whose canonical intent is close enough to a recent entry's
+// reuses that entry's route and FAQ, like a partial hit. The reply is still built for
+// this query, so it comes back in the user's language.
+export const semanticCacheStage: PipelineStage = {
+  name: 'semanticCache',
+  when: ctx => ctx.trace.cache === 'miss',
+  async run(ctx) {
+    const { db, llm, log } = ctx;
+    try {
+      const threshold = await loadSemanticCacheThreshold(db);
+      if (threshold === null) return 'off';
+
+      ctx.intentEmbedding = await llm.embed(ctx.canonicalIntent);
+      if (ctx.intentEmbedding.length === 0) return 'no embedding';
+
+      const match = await findSemanticCacheMatch(db, ctx.intentEmbedding, ctx.pipelineVersion, threshold);
+      if (!match) {
+        log(`[CACHE] SEMANTIC MISS - No cached intent within ${threshold}`);
+        return 'miss';
+      }
+
+      ctx.cached = { intent: match.canonicalIntent, route: match.route, faqId: match.faqId };
+      ctx.trace.cache = 'semantic_hit';
+      ctx.trace.semanticMatch = { intent: match.canonicalIntent, similarity: match.similarity };
+      log(`[CACHE] SEMANTIC HIT - Reusing route/FAQ of "${match.canonicalIntent}" (similarity ${match.similarity.toFixed(4)})`);
+      return `hit ${match.similarity.toFixed(2)}`;
+    } catch (e) {
+      // The FAQ search embeds the intent again if it needs to
+      log('[CACHE] Semantic lookup failed', e);
+      return 'failed, continuing';
+    }
+  },
+};
+
+// Load DB Resources
+export const loadResourcesStage: PipelineStage = {
+  name: 'loadResources',
+  async run(ctx) {
+    [ctx.faqs, ctx.media] = await Promise.all([
+      dbHelpers.selectAll(ctx.db, 'faqs', 'id, question, answer, embedding, media_ids, intent'),
+      dbHelpers.selectAll(ctx.db, 'media', 'id, title, url, type'),
+    ]);
+    return `${ctx.faqs.length} FAQs, ${ctx.media.length} media`;
+  },
+};
+
+// 4. Strict Routing
+export const routingStage: PipelineStage = {
+  name: 'routing',
+  async run(ctx) {
+    if (ctx.cached) {
+      ctx.route = ctx.cached.route;
+      ctx.trace.routeModel = 'cache';
+      ctx.log('[PIPELINE] Using CACHED Route:', ctx.route);
+    } else if (!chatAllowed(ctx)) {
+      // Only FAQ answers are possible without chat completions
+      ctx.route = 'FAQ';
+      ctx.trace.routeModel = 'budget';
+      ctx.log('[BUDGET] Routing to FAQ without the router');
+    } else {
+      ctx.route = await strictRouter(ctx.canonicalIntent, ctx.input.userName, ctx.llm);
+      ctx.trace.routeModel = lastChatModel(ctx.trace);
+      ctx.log('[PIPELINE] Computed Route:', ctx.route);
+    }
+    ctx.trace.route = ctx.route;
+    ctx.events.stage('route', { route: ctx.route });
+    return ctx.route;
+  },
+};
+
+// 5. Branching Logic: one stage per route
+
+export const earlyResponseStage: PipelineStage = {
+  name: 'earlyResponse',
+  when: ctx => EARLY_ROUTES.includes(ctx.route!),
+  async run(ctx) {
+    const responses = EARLY_RESPONSES[ctx.route as 'GREETING' | 'META' | 'IRRELEVANT'];
+    ctx.finalAnswer = responses[ctx.language] || responses.english;
+    // No FAQ for these
+    ctx.resolvedFaqId = null;
+  },
+};
+
+export const urgentAnswerStage: PipelineStage = {
+  name: 'urgentAnswer',
+  when: ctx => ctx.route === 'URGENT',
+  async run(ctx) {
+    ctx.finalAnswer = await escalateUrgent(ctx, ctx.language);
+    return 'escalated';
+  },
+};
+
+export const educationStage: PipelineStage = {
+  name: 'education',
+  when: ctx => ctx.route === 'EDUCATION' && generationAllowed(ctx),
+  async run(ctx) {
+    // Generate educational explanation
+    ctx.resolvedFaqId = null; // Education never links to FAQ
+    try {
+      ctx.finalAnswer = await generateAnswer(ctx.llm, [
+        {
+          role: 'system',
+          content: 'You are an expert orthodontic educator. Explain the concept clearly and concisely. Focus on WHAT it is and WHY it is used. Do not give medical advice.'
+        },
+        ...generationHistory(ctx),
+        { role: 'user', content: `Explain this concept: "${ctx.canonicalIntent}"` }
+      ], ctx.events, ctx.language === 'english') || SAFE_FALLBACKS.english;
+
+      // Attach Braces Diagram (IDs 5 and 6)
+      const partsMedia = ctx.media.filter((m: any) => m.id === 5 || m.id === 6);
+      ctx.selectedMedia = partsMedia.map((m: any) => m.url).filter((url: any) => typeof url === 'string');
+      ctx.log('[PIPELINE] Attached educational media (parts/diagrams)');
+    } catch (e) {
+      ctx.llm.fallback('generateAnswer', e, 'safe fallback reply');
+      ctx.finalAnswer = SAFE_FALLBACKS.english;
+    }
+  },
+};
+
+export const generalStage: PipelineStage = {
+  name: 'general',
+  when: ctx => ctx.route === 'GENERAL' && generationAllowed(ctx),
+  async run(ctx) {
+    // Generate general dental response
+    ctx.resolvedFaqId = null;
+    try {
+      ctx.finalAnswer = await generateAnswer(ctx.llm, [
+        {
+          role: 'system',
+          content: 'You are a helpful dental assistant. Answer the general dental question politely. Mention that you specialize in orthodontics (braces) specifically. Do not give medical diagnosis.'
+        },
+        ...generationHistory(ctx),
+        { role: 'user', content: ctx.englishQuery }
+      ], ctx.events, ctx.language === 'english') || SAFE_FALLBACKS.english;
+    } catch (e) {
+      ctx.llm.fallback('generateAnswer', e, 'safe fallback reply');
+      ctx.finalAnswer = SAFE_FALLBACKS.english;
+    }
+  },
+};
+
+export const faqRetrievalStage: PipelineStage = {
+  name: 'faqRetrieval',
+  when: ctx => ctx.route === 'FAQ',
+  async run(ctx) {
+    const { llm, log, cached, faqs, canonicalIntent } = ctx;
+    // On a partial cache hit the stored faq_id is trusted:
+    //    NOT NULL -> use that FAQ (unless it has since been deleted)
+    //    NULL     -> the previous run found NO FAQ, skip the search
+    let shouldRunFaqSearch = true;
+
+    if (cached) {
+      if (cached.faqId !== null) {
+        // We have a specific FAQ ID cached
+        const cachedFaq = faqs.find((f: any) => f.id === cached.faqId);
+        if (cachedFaq) {
+          ctx.selectedFAQ = cachedFaq;
+          ctx.trace.selection = { faqId: cachedFaq.id, model: 'cache' };
+          log('[PIPELINE] Using CACHED FAQ ID:', cached.faqId);
+          shouldRunFaqSearch = false;
+        } else {
+          // ID in cache but not in DB? Weird. Fallback to search.
+          log('[PIPELINE] Cached FAQ ID not found in current DB, re-running search');
+        }
+      } else {
+        ctx.trace.selection = { faqId: null, model: 'cache' };
+        log('[PIPELINE] Using CACHED result: NO FAQ matched previously.');
+        shouldRunFaqSearch = false;
+      }
+    }
+
+    if (shouldRunFaqSearch) {
+      try {
+        const intentEmbedding = ctx.intentEmbedding ?? await llm.embed(canonicalIntent);
+
+        if (intentEmbedding.length > 0) {
+          const topFAQs = getTopFAQs(intentEmbedding, faqs, 5);
+          log('[PIPELINE] Top 5 FAQs found (Running selection)');
+          topFAQs.forEach((f, i) => log(`[PIPELINE] Candidate #${i + 1}: ID=${f.faq.id} Score=${f.similarity.toFixed(4)} Intent="${f.faq.intent}"`));
+          ctx.trace.candidates = topFAQs.map(f => ({ faqId: Number(f.faq.id), score: f.similarity, intent: f.faq.intent }));
+
+          if (ctx.budgetLevel === 'normal') {
+            ctx.selectedFAQ = await selectBestFAQWithLLM(canonicalIntent, topFAQs, llm);
+          } else {
+            ctx.selectedFAQ = topFAQs[0]?.faq ?? null;
+            log('[BUDGET] Skipping LLM selection, using the top embedding hit');
+          }
+          ctx.trace.selection = {
+            faqId: ctx.selectedFAQ ? Number(ctx.selectedFAQ.id) : null,
+            model: ctx.budgetLevel === 'normal' ? lastChatModel(ctx.trace) : 'budget',
+          };
+
+          if (ctx.selectedFAQ) {
+            log('[PIPELINE] ✅ FAQ matched:', ctx.selectedFAQ.id);
+          } else {
+            log('[PIPELINE] ❌ No FAQ match - generating answer with LLM');
+          }
+        }
+      } catch (e) {
+        llm.fallback('faqSearch', e, 'safe fallback reply');
+        ctx.finalAnswer = SAFE_FALLBACKS.english;
+      }
+    }
+
+    ctx.resolvedFaqId = ctx.selectedFAQ ? ctx.selectedFAQ.id : null;
+    ctx.events.stage('faq', { faqId: ctx.selectedFAQ?.id ?? null });
+    return ctx.selectedFAQ ? `FAQ ${ctx.selectedFAQ.id}` : 'no match';
+  },
+};
+
+export const faqAnswerStage: PipelineStage = {
+  name: 'faqAnswer',
+  when: ctx => ctx.route === 'FAQ',
+  async run(ctx) {
+    // Generate Answer based on selection
+    if (ctx.selectedFAQ) {
+      ctx.finalAnswer = ctx.selectedFAQ.answer;
+      ctx.selectedMedia = selectMediaFromLinkedIds(ctx.selectedFAQ.media_ids, ctx.media);
+      return 'FAQ answer';
+    }
+    if (!generationAllowed(ctx)) return 'no match, not generated';
+    // Fallback generation
+    try {
+      ctx.finalAnswer = await generateAnswer(ctx.llm, [
+        { role: 'system', content: 'You are an orthodontic assistant. The user has a braces problem. Provide a helpful, safe response. Recommend seeing an orthodontist.' },
+        { role: 'user', content: ctx.englishQuery }
+      ], ctx.events, ctx.language === 'english') || SAFE_FALLBACKS.english;
+    } catch (e) {
+      ctx.llm.fallback('generateAnswer', e, 'safe fallback reply');
+      ctx.finalAnswer = SAFE_FALLBACKS.english;
+    }
+    return 'generated';
+  },
+};
+
+// Any route without an answering stage gets the safe fallback
+export const fallbackStage: PipelineStage = {
+  name: 'fallback',
+  when: ctx => !ctx.finalAnswer,
+  async run(ctx) {
+    // Without chat completions nothing translates it back, so pick the user's language here
+    ctx.finalAnswer = chatAllowed(ctx) ? SAFE_FALLBACKS.english : SAFE_FALLBACKS[ctx.language];
+  },
+};
+
+export const mediaStage: PipelineStage = {
+  name: 'media',
+  when: ctx => ctx.selectedMedia.length > 0,
+  async run(ctx) {
+    ctx.events.stage('media', { mediaUrls: ctx.selectedMedia });
+    return `${ctx.selectedMedia.length} attached`;
+  },
+};
+
+// 6. Translate Answer Back
+export const translateBackStage: PipelineStage = {
+  name: 'translateBack',
+  when: ctx => ctx.language !== 'english' && !LOCALIZED_ROUTES.includes(ctx.route!) && chatAllowed(ctx),
+  async run(ctx) {
+    ctx.log('[PIPELINE] Translating answer back to', ctx.language);
+    ctx.finalAnswer = await translateFromEnglish(ctx.finalAnswer, ctx.language, ctx.llm);
+  },
+};
+
+// --- WRITE THE RESPONSE CACHE ---
+// The decisions are stored on the user's message by /api/chat, with the reply (./messages.ts)
+export const cacheWriteStage: PipelineStage = {
+  name: 'cacheWrite',
+  async run(ctx) {
+    ctx.log(`[PIPELINE_DONE] QueryId: ${ctx.queryId} | Route: ${ctx.route} | Media: ${ctx.selectedMedia.length}`);
+    if (ctx.route) await cacheResponse(ctx, { route: ctx.route, answer: ctx.finalAnswer });
+  },
+};
+
+export const DEFAULT_STAGES: PipelineStage[] = [
+  safetyStage,
+  urgentStage,
+  budgetStage,
+  suggestionClickStage,
+  languageStage,
+  translationStage,
+  conversationContextStage,
+  cacheLookupStage,
+  intentStage,
+  suggestionChipsStage,
+  semanticCacheStage,
+  loadResourcesStage,
+  routingStage,
+  earlyResponseStage,
+  urgentAnswerStage,
+  educationStage,
+  generalStage,
+  faqRetrievalStage,
+  faqAnswerStage,
+  fallbackStage,
+  mediaStage,
+  translateBackStage,
+  cacheWriteStage,
+];
@@ -0,0 +1,546 @@
+/**
+ * Building blocks of the chat pipeline: language handling, LLM calls and FAQ
+ * ranking. Stages (./stages.ts) compose these; the eval harness calls them directly.
+ */
+
+import type { Client } from '@libsql/client';
+import { DEFAULT_CHAT_MODEL, type Llm } from '../llm';
+import type { ChatEvents, ConversationTurn, Language, RouteCategory } from './types';
+
+export { detectLanguage } from '../language';
+
+export function normalizeText(text: string): string {
+  return text.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+export function isValidInput(text: string, maxLength: number): boolean {
+  return text.length > 0 && text.length <= maxLength;
+}
+
+export function truncateText(text: string, maxLength: number): string {
+  return text.slice(0, maxLength);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || b.length === 0 || a.length !== b.length) return 0;
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dotProduct / denominator;
+}
+
+/**
+ * Rewrites user query into a canonical intent phrase.
+ * This normalizes infinite phrasing into finite meaning.
+ * 
+ * Rules:
+ * - English only
+ * - 3-6 words
+ * - No punctuation
+ * - No filler words
+ * - One clear meaning
+ */
+export async function rewriteToCanonicalIntent(englishQuery: string, llm: Llm): Promise<string> {
+  try {
+    const reply = await llm.chat('intent', {
+      messages: [
+        {
+          role: 'system',
+          content: `Rewrite the user's orthodontic question into a short canonical intent phrase.
+
+Rules:
+- English only
+- 3-6 words maximum
+- No punctuation
+- No filler words (like "how", "what", "please")
+- One clear meaning
+- Use standard orthodontic terminology
+
+Examples:
+- "my wire stabbing me" → "braces wire poking cheek"
+- "taar gaal mein chubh rahi" → "braces wire poking cheek"
+- "metal cutting mouth" → "braces wire irritating mouth"
+- "how clean braces" → "brushing braces properly"
+- "when see orthodontist" → "orthodontist appointment frequency"
+- "bracket came off" → "bracket detached loose"
+
+Respond with ONLY the intent phrase, nothing else.`,
+        },
+        {
+          role: 'user',
+          content: englishQuery,
+        },
+      ],
+      temperature: 0.1,
+      maxTokens: 20,
+    });
+
+    const intent = reply.trim();
+    // Clean up any punctuation or extra words
+    return intent
+      .toLowerCase()
+      .replace(/[^\w\s]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 50); // Safety limit
+  } catch (error) {
+    // Fallback: return normalized version of query
+    llm.fallback('rewriteToCanonicalIntent', error, 'query words as intent');
+    return normalizeText(englishQuery)
+      .split(/\s+/)
+      .filter(w => w.length > 2)
+      .slice(0, 6)
+      .join(' ');
+  }
+}
+
+/**
+ * Semantic search: Returns top N FAQs based on embedding similarity.
+ * No threshold filtering - returns top results regardless of score.
+ * This ensures recall for edge cases.
+ */
+export function getTopFAQs(intentEmbedding: number[], faqs: any[], topN: number = 5) {
+  const ranked = faqs.map(faq => {
+    let embedding: number[] = [];
+    if (faq.embedding) {
+      if (Array.isArray(faq.embedding)) {
+        embedding = faq.embedding;
+      } else if (typeof faq.embedding === 'string') {
+        try {
+          embedding = JSON.parse(faq.embedding);
+        } catch {
+          embedding = [];
+        }
+      }
+    }
+
+    // Use pure embedding similarity (no lexical matching)
+    const similarity = embedding.length > 0 && embedding.length === intentEmbedding.length
+      ? cosineSimilarity(intentEmbedding, embedding)
+      : 0;
+
+    return { faq, similarity };
+  });
+
+  ranked.sort((a, b) => b.similarity - a.similarity);
+  return ranked.slice(0, topN);
+}
+
+/**
+ * LLM selects the best FAQ from top candidates, or returns NONE.
+ * This removes false positives from embedding search.
+ */
+export async function selectBestFAQWithLLM(
+  canonicalIntent: string,
+  topFAQs: Array<{ faq: any; similarity: number }>,
+  llm: Llm
+): Promise<any | null> {
+  if (topFAQs.length === 0) return null;
+
+  try {
+    // Build FAQ list for LLM
+    const faqList = topFAQs
+      .map((item, index) => {
+        const faq = item.faq;
+        // Intent is required - use it directly
+        const displayText = faq.intent;
+        return `${index + 1}. ${displayText}`;
+      })
+      .join('\n');
+
+    const reply = await llm.chat('selection', {
+      messages: [
+        {
+          role: 'system',
+          content: `You are selecting the best FAQ for a user's intent.
+
+USER INTENT:
+"${canonicalIntent}"
+
+Your job is to match the FAQ that MOST DIRECTLY answers the intent.
+
+STRICT MATCHING RULES:
+
+1. MATCH SPECIFICITY (CRITICAL):
+   - General intent (e.g., "pain", "discomfort") → MUST match a General FAQ.
+   - Do NOT infer a specific cause (like "wire", "bracket") if the user did not say it.
+   - Specific intent (e.g., "wire poking") → MUST match that specific cause.
+
+2. Match INTENT FORM:
+   - Question intent → explanatory FAQs
+   - Problem intent → diagnostic/descriptive FAQs
+   - Action intent → how-to/remedy FAQs
+
+3. If multiple FAQs mention the same topic:
+   → Choose the one whose intent FORM matches the user's intent FORM.
+
+4. Higher similarity does NOT override intent mismatch.
+
+If no FAQ clearly matches, respond "NONE".
+
+Respond with ONLY the FAQ number or "NONE".`,
+        },
+        {
+          role: 'user',
+          content: `FAQ options:\n${faqList}`,
+        },
+      ],
+      temperature: 0.1,
+      maxTokens: 10,
+    });
+
+    const result = reply.trim().toUpperCase();
+
+    // Parse response
+    if (result === 'NONE') {
+      return null;
+    }
+
+    const match = result.match(/^(\d+)/);
+    if (match) {
+      const index = parseInt(match[1], 10) - 1;
+      if (index >= 0 && index < topFAQs.length) {
+        return topFAQs[index].faq;
+      }
+    }
+
+    // If parsing fails, return null (safe fallback)
+    return null;
+  } catch (error) {
+    // Fallback: return top FAQ if similarity is reasonable
+    if (topFAQs.length > 0 && topFAQs[0].similarity > 0.5) {
+      llm.fallback('selectBestFAQWithLLM', error, `top embedding hit (FAQ ${topFAQs[0].faq.id})`);
+      return topFAQs[0].faq;
+    }
+    llm.fallback('selectBestFAQWithLLM', error, 'no FAQ');
+    return null;
+  }
+}
+
+const HISTORY_TURNS = 6;
+const HISTORY_TURN_MAX_LENGTH = 500;
+
+/**
+ * Recent turns of the conversation, oldest first. The message being answered is not
+ * among them: /api/chat saves it with its reply once the pipeline is done.
+ * Messages screened out by safety screening and the fixed replies to them (same
+ * query_id) are left out, so they never reach a prompt.
+ */
+export async function loadConversationHistory(db: Client, conversationId: number): Promise<ConversationTurn[]> {
+  const result = await db.execute({
+    sql: `SELECT sender, text FROM chat_messages
+          WHERE conversation_id = ?
+            AND safety_flag IS NULL
+            AND (query_id IS NULL OR query_id NOT IN (
+              SELECT query_id FROM chat_messages
+              WHERE conversation_id = ? AND safety_flag IS NOT NULL AND query_id IS NOT NULL
+            ))
+          ORDER BY created_at DESC, id DESC
+          LIMIT ?`,
+    args: [conversationId, conversationId, HISTORY_TURNS],
+  });
+
+  return (result.rows as any[])
+    .reverse()
+    .map(row => ({
+      role: row.sender === 'user' ? 'user' as const : 'assistant' as const,
+      text: truncateText(String(row.text || ''), HISTORY_TURN_MAX_LENGTH),
+    }));
+}
+
+export function historyMessages(history: ConversationTurn[]) {
+  return history.map(turn => ({ role: turn.role, content: turn.text }));
+}
+
+/**
+ * Rewrites a follow-up ("what about at night?") into a standalone English question
+ * using the conversation so far. Returns the query unchanged when it already stands alone.
+ */
+export async function resolveFollowUp(englishQuery: string, history: ConversationTurn[], llm: Llm): Promise<string> {
+  if (history.length === 0) return englishQuery;
+
+  try {
+    const transcript = history
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`)
+      .join('\n');
+
+    const reply = await llm.chat('intent', {
+      messages: [
+        {
+          role: 'system',
+          content: `You turn follow-up messages in an orthodontic chat into standalone questions.
+
+Rules:
+- Use the conversation only to fill in what the latest message refers to
+- If the latest message already makes sense on its own, return it unchanged
+- English only
+- Do not answer the question
+
+Respond with ONLY the standalone question.`,
+        },
+        {
+          role: 'user',
+          content: `Conversation:\n${transcript}\n\nLatest message: "${englishQuery}"`,
+        },
+      ],
+      temperature: 0,
+      maxTokens: 60,
+    });
+
+    return reply.trim().replace(/^"|"$/g, '') || englishQuery;
+  } catch (error) {
+    llm.fallback('resolveFollowUp', error, 'message as written');
+    return englishQuery;
+  }
+}
+
+export const SAFE_FALLBACKS = {
+  english: "I'm here to help with braces-related questions. Please try rephrasing your question or ask something specific about orthodontic care.",
+  urdu: "میں بریسز سے متعلق سوالات میں مدد کے لیے یہاں موجود ہوں۔ براہ کرم اپنے سوال کو دوبارہ لکھیں۔",
+  roman: "Main braces se mutaliq sawalat mein madad ke liye yahan mojood hoon. Barah-e-karam apne sawal ko dobara likhain.",
+};
+
+export const EARLY_RESPONSES = {
+  GREETING: {
+    english: 'Hello! How can I help you with your dental care today?',
+    urdu: 'سلام! میں آپ کی دانتوں کی دیکھ بھال میں کیسے مدد کر سکتا ہوں؟',
+    roman: 'AOA! Main aap ki danton ki dekh bhaal mein kaise madad kar sakta hoon?',
+  },
+  META: {
+    english: 'I am the DentalCare AI Assistant here to help with your orthodontic questions.',
+    urdu: 'میں ڈینٹل کیئر اے آئی اسسٹنٹ ہوں جو آپ کے سوالات میں مدد کے لیے یہاں موجود ہوں۔',
+    roman: 'Main DentalCare AI Assistant hoon jo aap ke sawalat mein madad ke liye yahan mojood hoon.',
+  },
+  IRRELEVANT: {
+    english: 'I focus only on dental and orthodontic care. Please ask something related to teeth or braces.',
+    urdu: 'میں صرف دانتوں اور آرتھوڈونٹکس سے متعلق سوالات کا جواب دے سکتا ہوں۔',
+    roman: 'Main sirf danton aur braces se mutaliq sawalat ka jawab de sakta hoon.',
+  },
+};
+
+
+const ROUTE_LABELS: RouteCategory[] = ['GREETING', 'META', 'IRRELEVANT', 'EDUCATION', 'FAQ', 'GENERAL', 'URGENT'];
+
+const ROUTER_PROMPT = `You are a STRICT request router.
+
+You will be given a CANONICAL INTENT.
+Your task is to decide what kind of response the system should produce.
+
+You MUST output EXACTLY ONE of the following labels:
+- GREETING
+- META
+- IRRELEVANT
+- EDUCATION
+- FAQ
+- GENERAL
+- URGENT
+
+DO NOT output anything else.
+DO NOT explain your decision.
+
+━━━━━━━━━━━━━━━━━━
+CORE RULE (MOST IMPORTANT):
+
+If the intent is something a user would want to DO, FIX, USE, HANDLE, TREAT, CLEAN, or PERFORM,
+it is FAQ — even if it looks like a topic.
+
+Examples that MUST be FAQ:
+- brushing braces properly
+- using dental wax
+- cleaning aligners
+- wire poking cheek
+- loose bracket
+- pain from braces
+- food stuck in braces
+- tightening braces
+
+━━━━━━━━━━━━━━━━━━
+DEFINITIONS
+
+GREETING
+Short greetings only.
+Examples: hi, hello, salam, hey
+
+META
+Questions about the assistant or the user.
+Examples: who are you, what is my name
+
+IRRELEVANT
+Not about teeth, braces, or oral health.
+
+EDUCATION
+Only when the user wants to understand WHAT something is or WHY it exists.
+These are knowledge-only topics with no action or problem implied.
+
+Examples:
+- what are braces
+- what is an orthodontist
+- why braces are used
+- types of braces
+- how braces work
+
+FAQ
+Any braces-related PROBLEM or ACTION.
+If the user might expect instructions, steps, fixes, or help → FAQ.
+
+Includes:
+- cleaning
+- brushing
+- pain
+- damage
+- irritation
+- broken parts
+- how to use something
+- how to fix something
+
+GENERAL
+Dental topics not related to orthodontics.
+Examples: cavities, implants, veneers, toothache not from braces
+
+URGENT
+Symptoms that need a clinician now, whatever else is asked.
+Examples: face or jaw swelling, bleeding that will not stop, a knocked-out tooth,
+injury to the mouth or jaw, trouble breathing or swallowing, fever
+Ordinary braces discomfort (sore teeth, sore or bleeding gums when brushing, a poking wire) is FAQ.
+
+━━━━━━━━━━━━━━━━━━
+DECISION RULE
+
+If the intent could be answered with steps, tips, or treatment → FAQ
+If the intent could be answered with a definition or explanation → EDUCATION
+
+When in doubt → FAQ
+
+━━━━━━━━━━━━━━━━━━
+
+Return ONLY ONE label.`;
+
+// Used when the assigned routing model fails or answers with something other than a label
+const ROUTER_FALLBACK = { provider: 'openai', model: DEFAULT_CHAT_MODEL } as const;
+
+export async function strictRouter(canonicalIntent: string, userName: string, llm: Llm): Promise<RouteCategory> {
+  const assigned = llm.assignments.routing;
+  const attempts = assigned.provider === ROUTER_FALLBACK.provider && assigned.model === ROUTER_FALLBACK.model
+    ? [assigned]
+    : [assigned, ROUTER_FALLBACK];
+
+  for (const [index, assignment] of attempts.entries()) {
+    const next = attempts[index + 1];
+    const fallback = next ? `${next.provider} ${next.model}` : 'EDUCATION'; // ultimate fallback
+    try {
+      const reply = await llm.chat('routing', {
+        messages: [
+          { role: 'system', content: ROUTER_PROMPT },
+          { role: 'user', content: `CANONICAL INTENT: "${canonicalIntent}"` },
+        ],
+        temperature: 0.1,
+        maxTokens: 10,
+      }, assignment);
+
+      const result = reply.trim().toUpperCase() as RouteCategory;
+      if (ROUTE_LABELS.includes(result)) {
+        return result;
+      }
+      llm.fallback('strictRouter', `${assignment.provider} ${assignment.model} replied with an invalid label "${truncateText(reply.trim(), 40)}"`, fallback);
+    } catch (error) {
+      llm.fallback('strictRouter', error, fallback);
+    }
+  }
+
+  return 'EDUCATION';
+}
+
+export async function translateToEnglish(text: string, sourceLanguage: Language, llm: Llm): Promise<string> {
+  if (sourceLanguage === 'english') return text;
+  try {
+    const reply = await llm.chat('translation', {
+      messages: [
+        { role: 'system', content: 'Translate to English only.' },
+        { role: 'user', content: text },
+      ],
+    });
+    return reply.trim() || text;
+  } catch (error) {
+    llm.fallback('translateToEnglish', error, 'untranslated message');
+    return text;
+  }
+}
+
+export async function translateFromEnglish(text: string, targetLanguage: Language, llm: Llm): Promise<string> {
+  if (targetLanguage === 'english') return text;
+  try {
+    const systemPrompt = targetLanguage === 'urdu'
+      ? 'Translate into Urdu script.'
+      : 'Translate into Roman Urdu (English letters).';
+    const reply = await llm.chat('translation', {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: text },
+      ],
+    });
+    return reply.trim() || text;
+  } catch (error) {
+    llm.fallback('translateFromEnglish', error, 'English answer');
+    return text;
+  }
+}
+
+export function selectMediaFromLinkedIds(faqMediaIds: number[] | undefined, media: any[]): string[] {
+  if (!faqMediaIds || faqMediaIds.length === 0 || media.length === 0) return [];
+  return media
+    .filter(m => faqMediaIds.includes(m.id))
+    .map(m => m.url)
+    .filter(url => url && typeof url === 'string');
+}
+
+export function selectMediaByKeywords(englishQuery: string, media: any[]): string[] {
+  if (media.length === 0) return [];
+  const normalized = englishQuery.toLowerCase();
+
+  if (normalized.includes('functions') || normalized.includes('uses') ||
+    (normalized.includes('parts') && (normalized.includes('function') || normalized.includes('use')))) {
+    const partsMedia = media.filter(m => m.id === 5 || m.id === 6);
+    return partsMedia.map(m => m.url).filter(url => url && typeof url === 'string');
+  }
+
+  if (normalized.includes('brush') || normalized.includes('cleaning')) {
+    const brushMedia = media.filter(m => m.id === 1 || m.id === 3);
+    return brushMedia.map(m => m.url).filter(url => url && typeof url === 'string');
+  }
+
+  if (normalized.includes('wire') && (normalized.includes('poke') || normalized.includes('sharp'))) {
+    const wireMedia = media.filter(m => m.id === 2 || m.id === 4);
+    return wireMedia.map(m => m.url).filter(url => url && typeof url === 'string');
+  }
+
+  if (normalized.includes('parts') || normalized.includes('component')) {
+    const partsMedia = media.filter(m => m.id === 5 || m.id === 6);
+    return partsMedia.map(m => m.url).filter(url => url && typeof url === 'string');
+  }
+
+  return [];
+}
+
+/**
+ * Generate a user-facing answer. Tokens are streamed only when the client asked for
+ * SSE and the text will be shown as-is (answers that get translated arrive with `done`).
+ */
+export async function generateAnswer(
+  llm: Llm,
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+  events: ChatEvents,
+  streamTokens: boolean
+): Promise<string> {
+  const reply = await llm.chat('generation', {
+    messages,
+    maxTokens: 250,
+    onToken: events.streaming && streamTokens ? events.token : undefined,
+  });
+  return reply.trim();
+}
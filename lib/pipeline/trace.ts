@@ -0,0 +1,166 @@
+/**
+ * Structured per-query traces (server-side only)
+ *
+ * The runner records one TraceStep per stage with its timing, decision and the
+ * LLM calls made while it ran; stages fill in the decisions they own (route,
+ * candidates, cache outcome). The finished trace is stored in `pipeline_traces`
+ * under the queryId the client receives, so a report can be traced back.
+ */
+
+import type { Client } from '@libsql/client';
+import * as dbHelpers from '../dbHelpers';
+import type { LlmUsageEntry } from '../llmUsage';
+import type { BotResponse, PipelineContext } from './types';
+import type { CacheOutcome, CacheOutcomeSummary, FallbackSummary, LlmCallRecord, PipelineTrace, TraceStep } from '../../types';
+
+export type { CacheOutcome, LlmCallRecord, PipelineTrace, TraceFallback, TraceStep } from '../../types';
+
+export function createTrace(queryId: string, conversationId: number | null, pipelineVersion: number, message: string): PipelineTrace {
+  return {
+    queryId,
+    conversationId,
+    pipelineVersion,
+    message,
+    language: null,
+    englishQuery: null,
+    canonicalIntent: null,
+    route: null,
+    routeModel: null,
+    cache: null,
+    semanticMatch: null,
+    candidates: [],
+    selection: null,
+    budgetLevel: 'normal',
+    safetyFlag: null,
+    fallbacks: [],
+    faqId: null,
+    answer: null,
+    steps: [],
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 },
+    totalMs: 0,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** The step of the stage that is running now */
+export function currentStep(trace: PipelineTrace): TraceStep | undefined {
+  return trace.steps[trace.steps.length - 1];
+}
+
+/** Model of the last chat call made by the running stage */
+export function lastChatModel(trace: PipelineTrace): string | null {
+  const calls = currentStep(trace)?.llmCalls.filter(call => call.kind === 'chat') || [];
+  return calls.length > 0 ? calls[calls.length - 1].model : null;
+}
+
+/**
+ * Fill in the outcome once the stages are done; `response` is null when a stage threw
+ */
+export function finishTrace(ctx: PipelineContext, response: BotResponse | null): PipelineTrace {
+  const { trace } = ctx;
+  trace.englishQuery = ctx.englishQuery !== ctx.input.message ? ctx.englishQuery : null;
+  trace.faqId = response?.faqId ?? null;
+  trace.answer = response?.text ?? null;
+  trace.usage = trace.steps
+    .flatMap(step => step.llmCalls)
+    .reduce((sum, call) => ({
+      promptTokens: sum.promptTokens + call.promptTokens,
+      completionTokens: sum.completionTokens + call.completionTokens,
+      totalTokens: sum.totalTokens + call.totalTokens,
+      costUsd: sum.costUsd + call.costUsd,
+    }), { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 });
+  trace.totalMs = Date.now() - Date.parse(trace.createdAt);
+  return trace;
+}
+
+/** The trace's LLM calls as `llm_usage` rows, attributed to their stage */
+export function traceUsageEntries(trace: PipelineTrace): LlmUsageEntry[] {
+  return trace.steps.flatMap(step => step.llmCalls.map(call => ({
+    ...call,
+    stage: step.name,
+    queryId: trace.queryId,
+    conversationId: trace.conversationId,
+  })));
+}
+
+export async function saveTrace(db: Client, trace: PipelineTrace) {
+  await dbHelpers.insert(db, 'pipeline_traces', {
+    query_id: trace.queryId,
+    conversation_id: trace.conversationId,
+    pipeline_version: trace.pipelineVersion,
+    route: trace.route,
+    total_ms: trace.totalMs,
+    trace_json: JSON.stringify(trace),
+    created_at: trace.createdAt,
+  });
+}
+
+export async function loadTrace(db: Client, queryId: string): Promise<PipelineTrace | null> {
+  const row = await dbHelpers.selectOne(db, 'pipeline_traces', { column: 'query_id', value: queryId });
+  return row ? JSON.parse(row.trace_json as string) : null;
+}
+
+/**
+ * Queries that used a fallback in the last `days` days, from the stored traces
+ */
+export async function summarizeFallbacks(db: Client, days = 30): Promise<FallbackSummary> {
+  const since = new Date(Date.now() - Math.max(days - 1, 0) * 86_400_000).toISOString().slice(0, 10);
+
+  const [totalsResult, stepResult] = await Promise.all([
+    db.execute({
+      sql: `SELECT COUNT(*) AS queries,
+                   COALESCE(SUM(CASE WHEN json_array_length(trace_json, '$.fallbacks') > 0 THEN 1 ELSE 0 END), 0) AS degraded
+            FROM pipeline_traces WHERE created_at >= ?`,
+      args: [since],
+    }),
+    db.execute({
+      sql: `SELECT json_extract(f.value, '$.step') AS step, COUNT(DISTINCT t.id) AS queries
+            FROM pipeline_traces t, json_each(t.trace_json, '$.fallbacks') f
+            WHERE t.created_at >= ? GROUP BY step ORDER BY queries DESC, step ASC`,
+      args: [since],
+    }),
+  ]);
+
+  const totals = totalsResult.rows[0] as any;
+  return {
+    queries: Number(totals.queries),
+    degradedQueries: Number(totals.degraded),
+    byStep: (stepResult.rows as any[]).map(row => ({ step: row.step as string, queries: Number(row.queries) })),
+  };
+}
+
+const CACHE_OUTCOMES: CacheOutcome[] = ['full_hit', 'partial_hit', 'semantic_hit', 'miss', 'bypass', 'disabled'];
+
+/**
+ * Cache lookup outcomes per day over the last `days` days, from the stored traces.
+ * Queries answered before the lookup (safety, urgent, budget, suggestion clicks) have none.
+ */
+export async function summarizeCacheOutcomes(db: Client, days = 30): Promise<CacheOutcomeSummary> {
+  const since = new Date(Date.now() - Math.max(days - 1, 0) * 86_400_000).toISOString().slice(0, 10);
+  const result = await db.execute({
+    sql: `SELECT substr(created_at, 1, 10) AS date, json_extract(trace_json, '$.cache') AS outcome, COUNT(*) AS queries
+          FROM pipeline_traces
+          WHERE created_at >= ? AND json_extract(trace_json, '$.cache') IS NOT NULL
+          GROUP BY date, outcome ORDER BY date ASC`,
+    args: [since],
+  });
+
+  const emptyCounts = () => Object.fromEntries(CACHE_OUTCOMES.map(outcome => [outcome, 0])) as Record<CacheOutcome, number>;
+  const totals = emptyCounts();
+  const daily = new Map<string, Record<CacheOutcome, number> & { date: string }>();
+  for (const row of result.rows as any[]) {
+    const outcome = row.outcome as CacheOutcome;
+    if (!CACHE_OUTCOMES.includes(outcome)) continue;
+    const day = daily.get(row.date) ?? { date: row.date as string, ...emptyCounts() };
+    day[outcome] += Number(row.queries);
+    totals[outcome] += Number(row.queries);
+    daily.set(row.date, day);
+  }
+
+  return {
+    days,
+    queries: CACHE_OUTCOMES.reduce((sum, outcome) => sum + totals[outcome], 0),
+    totals,
+    daily: [...daily.values()],
+  };
+}
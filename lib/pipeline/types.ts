@@ -0,0 +1,106 @@
+/**
+ * Shared types for the chat pipeline stages
+ */
+
+import type { Client } from '@libsql/client';
+import type { Llm } from '../llm';
+import type { Language } from '../language';
+import type { BudgetLevel, PipelineTrace, SuggestionChip } from '../../types';
+
+export type { Language };
+
+export type RouteCategory = 'GREETING' | 'META' | 'IRRELEVANT' | 'EDUCATION' | 'FAQ' | 'GENERAL' | 'URGENT';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface BotResponse {
+  text: string;
+  mediaUrls: string[];
+  faqId: number | null;
+  queryId: string | null;
+  pipelineLogs?: string[];
+  suggestions?: SuggestionChip[];
+  // Rows stored by /api/chat; null when saving them failed
+  userMessageId?: number | null;
+  botMessageId?: number | null;
+}
+
+export type ChatStage = 'language' | 'intent' | 'route' | 'faq' | 'media';
+
+/**
+ * Progress hooks for the streaming variant; the JSON endpoint uses NO_EVENTS
+ */
+export interface ChatEvents {
+  streaming: boolean;
+  stage: (stage: ChatStage, data: Record<string, unknown>) => void;
+  token: (text: string) => void;
+}
+
+export const NO_EVENTS: ChatEvents = { streaming: false, stage: () => { }, token: () => { } };
+
+export interface ChatInput {
+  message: string;        // trimmed and length-limited
+  userName: string;
+  userId?: string | null;
+  conversationId?: number | null;
+  suggestionFaqId?: number;
+}
+
+/**
+ * Everything a request carries through the stages. Stages read what earlier
+ * stages produced and fill in their own fields; setting `response` ends the run.
+ */
+export interface PipelineContext {
+  // Request
+  readonly db: Client;
+  /** Calls are recorded in the running stage's trace step, fallbacks in `trace.fallbacks` */
+  readonly llm: Llm;
+  readonly events: ChatEvents;
+  readonly log: (msg: string, ...args: any[]) => void;
+  readonly input: ChatInput;
+  readonly queryId: string;
+  readonly pipelineVersion: number;
+  readonly isSuggestionCandidate: boolean; // 3 words or less
+  readonly trace: PipelineTrace;
+
+  // Budget: degraded levels skip LLM calls (lib/llmBudget.ts)
+  budgetLevel: BudgetLevel;
+
+  // Understanding
+  language: Language;
+  englishQuery: string;
+  history: ConversationTurn[];
+  standaloneQuery: string;
+  isContextual: boolean; // follow-up rewritten with conversation context
+
+  // Cache (lib/responseCache.ts): `cached` holds the decisions of a partial or semantic hit
+  cacheEnabled: boolean;
+  cached: { intent: string; route: RouteCategory; faqId: number | null } | null;
+
+  // Decisions
+  canonicalIntent: string;
+  intentEmbedding: number[] | null; // computed once, for the semantic cache and the FAQ search
+  faqs: any[];
+  media: any[];
+  route: RouteCategory | null;
+  selectedFAQ: any | null;
+  resolvedFaqId: number | null; // stored on the user row and the response cache entry
+
+  // Answer
+  finalAnswer: string;
+  selectedMedia: string[];
+
+  /** Set by a stage to finish early; the remaining stages are skipped */
+  response: BotResponse | null;
+}
+
+export interface PipelineStage {
+  name: string;
+  /** Skip the stage for this request; the runner logs it as skipped */
+  when?: (ctx: PipelineContext) => boolean;
+  /** Returns a short summary of the decision made, for pipelineLogs */
+  run: (ctx: PipelineContext) => Promise<string | void>;
+}
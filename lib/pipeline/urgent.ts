@@ -0,0 +1,97 @@
+/**
+ * Red-flag symptoms that need urgent care rather than an FAQ answer
+ *
+ * Messages describing facial swelling, heavy bleeding, trauma, trouble breathing
+ * or swallowing, or fever are routed to URGENT before any LLM call; the router
+ * can also choose URGENT for phrasings these patterns miss. The reply escalates
+ * to the clinic, with the contact details admins enter in Settings.
+ */
+
+import type { ClinicContact } from '../../types';
+import type { Language } from './types';
+
+export type RedFlag = 'swelling' | 'bleeding' | 'trauma' | 'breathing' | 'fever';
+
+// English, Roman Urdu and Urdu. Everyday orthodontic complaints (sore or swollen gums,
+// gums that bleed when brushing, a poking wire, sores from wires or brackets) are
+// deliberately not matched, and trauma needs a fall, a blow or a broken tooth or jaw,
+// not just the word for an injury or a wound.
+const RED_FLAG_PATTERNS: [RedFlag, RegExp[]][] = [
+  ['swelling', [
+    /\b(swollen|swelling|swelled|swell(s|ing)?\s+up)\b.{0,30}\b(face|jaw|cheek|neck|eye|throat)s?\b/i,
+    /\b(face|jaw|cheek|neck|eye|throat)s?\b.{0,30}\b(swollen|swelling|swelled|swell(s|ing)?\s+up)\b/i,
+    /\b(chehr[aei]|jabr[aei]|gaal|gardan|gala)\b.{0,30}\b(soo?j(a|i|an|gaya|gayi)|suj(a|i|an))\b/i,
+    /\b(soo?jan|sujan)\b.{0,30}\b(chehr[aei]|jabr[aei]|gaal|gardan|gal[ae])\b/i,
+    /(چہر|جبڑ|گال|گردن|گل[اے]).{0,30}سوج|سوج.{0,30}(چہر|جبڑ|گال|گردن|گل[اے])/,
+  ]],
+  ['bleeding', [
+    /\b(bleed(ing)?|blood)\b.{0,30}\b(won'?t|doesn'?t|does\s+not|will\s+not|not|can'?t|cannot)\s+stop/i,
+    /\b(heavy|heavily|severe|lots?\s+of|a\s+lot\s+of|non-?stop|constant)\s+(bleeding|blood)\b/i,
+    /\bbleeding\s+(a\s+lot|heavily|badly)\b/i,
+    /\bkhoon\b.{0,30}\b(band\s+nahi|ruk\s+nahi|nahi\s+ruk)/i,
+    /\b(bohat|bohot|bahut|zyada|ziada)\s+khoon\b/i,
+    /خون.{0,30}(بند\s*نہیں|رک\s*نہیں|نہیں\s*رک)|(بہت|زیادہ)\s*خون/,
+  ]],
+  ['trauma', [
+    /\bknocked\s+(out|loose)\b/i,
+    /\b(broken|fractured|dislocated)\s+jaw\b/i,
+    /\b(broke|broken|cracked|chipped|snapped)\s+(a\s+|my\s+)?(front\s+)?(tooth|teeth)\b/i,
+    /\b(hit|punched|kicked|fell)\s+(in|on)\s+(the|my)\s+(face|mouth|jaw|teeth)\b/i,
+    /\b(injured|hurt|hit|punched|kicked|struck|banged|smashed)\s+(my|his|her|their)\s+(face|mouth|jaw|teeth|tooth|lips?)\b/i,
+    /\b(accident|fell|fallen)\b.{0,40}\b(face|mouth|jaw|teeth|tooth|lips?|chin)\b/i,
+    /\b(had|got|have|suffered)\s+an?\s+(face|facial|mouth|jaw|dental|tooth)\s+injury\b/i,
+    /\b(daant|dant|danton)\b.{0,20}\b(toot|tut)(\s*gay[aei]|a|i)?\b/i,
+    /\b(gir|gira|giri|hadsa|hadse|hadsay|accident)\b.{0,40}\b(daant|dant|danton|jabr[aei]|chehr[aei])\b/i,
+    /\b(chehr[aei]|jabr[aei]|daant|dant|danton)\b.{0,20}\bchot\b|\bchot\b.{0,20}\b(chehr[aei]|jabr[aei]|daant|dant|danton)\b/i,
+    /(^|\s)(گر|گرا|گری|گرنے|حادث).{0,40}(دانت|جبڑ|چہر)/,
+    /(دانت|جبڑ|چہر).{0,20}(ٹوٹ|چوٹ)|چوٹ.{0,20}(دانت|جبڑ|چہر)/,
+  ]],
+  ['breathing', [
+    /\b(can'?t|cannot|trouble|difficulty|hard\s+to|struggling\s+to|unable\s+to)\s+(breath(e|ing)?|swallow(ing)?)\b/i,
+    /\bshort(ness)?\s+of\s+breath\b/i,
+    /\bsaa?ns\b.{0,30}\b(nahi|mushkil|ruk)/i,
+    /\bnigal(n[ae])?\b.{0,20}\b(nahi|mushkil)/i,
+    /سانس.{0,30}(نہیں|مشکل|رک)|نگل.{0,20}(نہیں|مشکل)/,
+  ]],
+  ['fever', [
+    /\b(fever|feverish|high\s+temperature)\b/i,
+    /\b(bukhar|bukhaar)\b/i,
+    /بخار/,
+  ]],
+];
+
+/**
+ * The red flags a message mentions, in a fixed order; empty when there are none
+ */
+export function detectRedFlags(text: string): RedFlag[] {
+  return RED_FLAG_PATTERNS
+    .filter(([, patterns]) => patterns.some(pattern => pattern.test(text)))
+    .map(([flag]) => flag);
+}
+
+const URGENT_MESSAGES: Record<Language, string> = {
+  english: 'These symptoms may need urgent care. Please contact your orthodontist or dentist right away. If you have trouble breathing or swallowing, bleeding that will not stop, or swelling spreading across your face, go to the nearest emergency department now.',
+  urdu: 'یہ علامات فوری توجہ کی متقاضی ہو سکتی ہیں۔ براہ کرم فوراً اپنے آرتھوڈونٹسٹ یا ڈینٹسٹ سے رابطہ کریں۔ اگر سانس لینے یا نگلنے میں دشواری ہو، خون نہ رک رہا ہو، یا چہرے پر سوجن پھیل رہی ہو تو ابھی قریبی ایمرجنسی میں جائیں۔',
+  roman: 'Yeh alamat fori tawajjah maang sakti hain. Baraye meharbani foran apne orthodontist ya dentist se rabta karein. Agar saans lene ya nigalne mein mushkil ho, khoon band na ho raha ho, ya chehre par soojan phail rahi ho to abhi qareebi emergency mein jayein.',
+};
+
+const CONTACT_LABELS: Record<Language, { intro: string; phone: string; address: string; hours: string }> = {
+  english: { intro: 'Clinic contact:', phone: 'Phone', address: 'Address', hours: 'Hours' },
+  urdu: { intro: 'کلینک سے رابطہ:', phone: 'فون', address: 'پتہ', hours: 'اوقات' },
+  roman: { intro: 'Clinic se rabta:', phone: 'Phone', address: 'Pata', hours: 'Auqaat' },
+};
+
+/**
+ * The escalation reply in the user's language, with the clinic's contact details when they are set
+ */
+export function urgentReply(language: Language, contact: ClinicContact): string {
+  const labels = CONTACT_LABELS[language];
+  const lines = [
+    contact.name && `**${contact.name}**`,
+    contact.phone && `• ${labels.phone}: ${contact.phone}`,
+    contact.address && `• ${labels.address}: ${contact.address}`,
+    contact.hours && `• ${labels.hours}: ${contact.hours}`,
+  ].filter(Boolean);
+  if (lines.length === 0) return URGENT_MESSAGES[language];
+  return `${URGENT_MESSAGES[language]}\n\n${labels.intro}\n${lines.join('\n')}`;
+}
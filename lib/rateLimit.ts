@@ -0,0 +1,207 @@
+/**
+ * Rate limiting for the public routes (server-side only)
+ *
+ * /api/chat and the chatbot's write routes are unauthenticated, and every chat
+ * message costs several paid LLM calls. The admin login is throttled too, so
+ * passwords cannot be guessed at speed. Each throttled route belongs to a bucket
+ * with limits per userId, per client IP and globally, counted in fixed windows.
+ * Counters live in the `rate_limits` table by default, so they hold across Edge
+ * isolates; any RateLimitStore can replace it.
+ */
+
+import type { Client } from '@libsql/client';
+
+export type RateLimitScope = 'user' | 'ip' | 'global';
+export type RateLimitBucket = 'chat' | 'write' | 'login';
+
+export interface RateLimit {
+  scope: RateLimitScope;
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitRule {
+  methods: string[];
+  pattern: RegExp;
+  bucket: RateLimitBucket;
+}
+
+// Sending one chat message makes up to three writes (conversation, user message, bot message)
+export const RATE_LIMITS: Record<RateLimitBucket, RateLimit[]> = {
+  chat: [
+    { scope: 'user', limit: 10, windowSeconds: 60 },
+    { scope: 'user', limit: 100, windowSeconds: 3600 },
+    { scope: 'ip', limit: 30, windowSeconds: 60 },
+    { scope: 'global', limit: 600, windowSeconds: 60 },
+  ],
+  write: [
+    { scope: 'user', limit: 40, windowSeconds: 60 },
+    { scope: 'ip', limit: 120, windowSeconds: 60 },
+    { scope: 'global', limit: 2000, windowSeconds: 60 },
+  ],
+  // Per IP only: a global limit would let anyone lock the admins out
+  login: [
+    { scope: 'ip', limit: 10, windowSeconds: 60 },
+    { scope: 'ip', limit: 50, windowSeconds: 3600 },
+  ],
+};
+
+export interface RateLimitCounter {
+  key: string;
+  windowStart: number; // epoch seconds
+  expiresAt: number; // epoch seconds
+}
+
+export interface RateLimitStore {
+  /** Count one request against each counter; returns the new counts in the same order */
+  increment(counters: RateLimitCounter[], now: number): Promise<number[]>;
+}
+
+/**
+ * Counters in the `rate_limits` table, updated in one batch; expired windows are pruned as it goes
+ */
+export function dbRateLimitStore(db: Client): RateLimitStore {
+  return {
+    async increment(counters, now) {
+      const results = await db.batch([
+        ...counters.map(counter => ({
+          sql: `INSERT INTO rate_limits (key, window_start, count, expires_at) VALUES (?, ?, 1, ?)
+                ON CONFLICT(key, window_start) DO UPDATE SET count = count + 1
+                RETURNING count`,
+          args: [counter.key, counter.windowStart, counter.expiresAt],
+        })),
+        { sql: 'DELETE FROM rate_limits WHERE expires_at <= ?', args: [now] },
+      ], 'write');
+      return counters.map((_, index) => Number(results[index].rows[0]?.count ?? 0));
+    },
+  };
+}
+
+/**
+ * Counters in memory, per isolate (tests, or a single long-running server)
+ */
+export function memoryRateLimitStore(): RateLimitStore {
+  const counts = new Map<string, { count: number; expiresAt: number }>();
+  return {
+    async increment(counters, now) {
+      for (const [key, entry] of counts) {
+        if (entry.expiresAt <= now) counts.delete(key);
+      }
+      return counters.map(counter => {
+        const id = `${counter.key}@${counter.windowStart}`;
+        const entry = counts.get(id) || { count: 0, expiresAt: counter.expiresAt };
+        entry.count++;
+        counts.set(id, entry);
+        return entry.count;
+      });
+    },
+  };
+}
+
+export interface RateLimitIdentity {
+  userId?: string | null;
+  ip: string;
+}
+
+export interface RateLimitResult {
+  limited: boolean;
+  scope?: RateLimitScope; // the limit that was exceeded
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Count the request against every limit of the bucket that applies to it (the user
+ * limits only when a userId is known) and report the one it exceeds, if any
+ */
+export async function checkRateLimit(
+  store: RateLimitStore,
+  bucket: RateLimitBucket,
+  identity: RateLimitIdentity,
+  nowMs: number = Date.now(),
+  limits: RateLimit[] = RATE_LIMITS[bucket]
+): Promise<RateLimitResult> {
+  const now = Math.floor(nowMs / 1000);
+  const applicable = limits.filter(limit => limit.scope !== 'user' || identity.userId);
+  const counters = applicable.map(limit => {
+    const id = limit.scope === 'user' ? identity.userId : limit.scope === 'ip' ? identity.ip : 'all';
+    const windowStart = now - (now % limit.windowSeconds);
+    return {
+      key: `${bucket}:${limit.scope}:${id}:${limit.windowSeconds}`,
+      windowStart,
+      expiresAt: windowStart + limit.windowSeconds,
+    };
+  });
+
+  const counts = await store.increment(counters, now);
+  let exceeded: RateLimitResult = { limited: false };
+  applicable.forEach((limit, index) => {
+    if (counts[index] <= limit.limit) return;
+    const retryAfterSeconds = Math.max(1, counters[index].expiresAt - now);
+    if (!exceeded.limited || retryAfterSeconds > exceeded.retryAfterSeconds!) {
+      exceeded = { limited: true, scope: limit.scope, retryAfterSeconds };
+    }
+  });
+  return exceeded;
+}
+
+/**
+ * The caller's IP as reported by the platform proxy (Vercel sets x-forwarded-for)
+ */
+export function clientIp(req: Request): string {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return req.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * userId from a JSON body, read from a clone so the handler can still read the body
+ */
+async function bodyUserId(req: Request): Promise<string | null> {
+  try {
+    const body = await req.clone().json();
+    return typeof body?.userId === 'string' && body.userId ? body.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+export function rateLimitedResponse(result: RateLimitResult, headers: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Too many requests. Please slow down.',
+      code: 'rate_limited',
+      scope: result.scope,
+      retryAfter: result.retryAfterSeconds,
+    }),
+    {
+      status: 429,
+      headers: { ...headers, 'Content-Type': 'application/json', 'Retry-After': String(result.retryAfterSeconds) },
+    }
+  );
+}
+
+/**
+ * Check a request against its bucket. Returns the 429 response when it is over a limit,
+ * or null (also when the counters cannot be read)
+ */
+export async function guardRateLimit(
+  req: Request,
+  store: RateLimitStore,
+  bucket: RateLimitBucket,
+  headers: Record<string, string>
+): Promise<Response | null> {
+  try {
+    const result = await checkRateLimit(store, bucket, { userId: await bodyUserId(req), ip: clientIp(req) });
+    if (!result.limited) return null;
+    console.warn(`[RATE_LIMIT] ${bucket} ${result.scope} limit exceeded, retry after ${result.retryAfterSeconds}s`);
+    return rateLimitedResponse(result, headers);
+  } catch (error) {
+    // Failing open: an outage of the counters should not take the chatbot down
+    console.error('[RATE_LIMIT] Failed to check rate limit:', error);
+    return null;
+  }
+}
+
+export function findRateLimitRule(rules: RateLimitRule[], method: string, path: string): RateLimitRule | undefined {
+  return rules.find(rule => rule.methods.includes(method) && rule.pattern.test(path));
+}
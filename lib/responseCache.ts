@@ -0,0 +1,352 @@
+/**
+ * Response cache for repeated questions (server-side only)
+ *
+ * Entries live in `response_cache`, keyed by normalized query, language and
+ * pipeline version, and expire after RESPONSE_CACHE_TTL_SECONDS unless an admin
+ * pins them. Each entry records the FAQ and media its reply was built from, so
+ * admin edits evict exactly the replies they make stale (pinned or not):
+ *   FAQ answer or media changed     the FAQ's entries drop their text; intent, route
+ *                                   and FAQ are reused and the reply is rebuilt
+ *   FAQ added, deleted, or question
+ *   or intent changed               the FAQ's entries and FAQ-route entries that
+ *                                   matched no FAQ are evicted (matching may differ)
+ *   media item changed or deleted   entries showing it are evicted
+ *   suggestion group changed        short-query entries are evicted (chips may differ)
+ *
+ * On a miss the semantic cache compares the embedding of the canonical intent
+ * with the intents of recent entries (findSemanticCacheMatch). A match at or above
+ * the threshold in `app_settings` reuses the entry's route and FAQ, like a partial
+ * hit, so the reply is rebuilt in the asking user's language.
+ */
+
+import type { Client } from '@libsql/client';
+import { cosineSimilarity, normalizeText } from './pipeline/steps';
+import type { Language, RouteCategory } from './pipeline/types';
+import type { CacheEntry, SuggestionChip } from '../types';
+
+export const RESPONSE_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export const SEMANTIC_CACHE_THRESHOLD_KEY = 'semantic_cache_threshold';
+export const DEFAULT_SEMANTIC_CACHE_THRESHOLD = 0.9;
+export const MIN_SEMANTIC_CACHE_THRESHOLD = 0.5;
+// New intents are compared with the intents of this many recent entries
+const SEMANTIC_CACHE_CANDIDATES = 200;
+
+export interface ResponseCacheKey {
+  queryKey: string;
+  language: Language;
+  pipelineVersion: number;
+}
+
+export interface ResponseCacheEntry {
+  canonicalIntent: string;
+  route: RouteCategory;
+  faqId: number | null;
+  mediaIds: number[];
+  shortQuery: boolean;
+  /** null when only the decisions are still valid */
+  answer: string | null;
+  mediaUrls: string[];
+  suggestions: SuggestionChip[] | null;
+  /** Embedding of canonicalIntent; null leaves the entry out of semantic matching */
+  intentEmbedding: number[] | null;
+}
+
+export interface SemanticCacheMatch {
+  canonicalIntent: string;
+  route: RouteCategory;
+  faqId: number | null;
+  similarity: number;
+}
+
+export function responseCacheKey(message: string, language: Language, pipelineVersion: number): ResponseCacheKey {
+  return { queryKey: normalizeText(message), language, pipelineVersion };
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  try {
+    return value ? JSON.parse(value as string) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * The unexpired entry for a key, counting the hit; null on a miss
+ */
+export async function readResponseCache(db: Client, key: ResponseCacheKey, now = new Date()): Promise<ResponseCacheEntry | null> {
+  const result = await db.execute({
+    sql: `UPDATE response_cache
+              SET hits = hits + 1
+              WHERE query_key = ? AND language = ? AND pipeline_version = ? AND (pinned = 1 OR expires_at > ?)
+              RETURNING canonical_intent, route, faq_id, media_ids, short_query, answer, media_urls, suggestions_json, intent_embedding`,
+    args: [key.queryKey, key.language, key.pipelineVersion, now.toISOString()],
+  });
+  const row = result.rows[0];
+  if (!row) return null;
+  return {
+    canonicalIntent: row.canonical_intent as string,
+    route: row.route as RouteCategory,
+    faqId: row.faq_id === null ? null : Number(row.faq_id),
+    mediaIds: parseJson<number[]>(row.media_ids, []),
+    shortQuery: Number(row.short_query) === 1,
+    answer: (row.answer as string | null) ?? null,
+    mediaUrls: parseJson<string[]>(row.media_urls, []),
+    suggestions: parseJson<SuggestionChip[] | null>(row.suggestions_json, null),
+    intentEmbedding: parseJson<number[] | null>(row.intent_embedding, null),
+  };
+}
+
+/**
+ * Store (or replace) the entry for a key with a fresh TTL, pruning expired entries.
+ * A pinned entry stays pinned, and a partial hit (no new embedding) keeps its intent embedding.
+ */
+export async function writeResponseCache(
+  db: Client,
+  key: ResponseCacheKey,
+  entry: ResponseCacheEntry,
+  now = new Date(),
+  ttlSeconds = RESPONSE_CACHE_TTL_SECONDS
+): Promise<void> {
+  const createdAt = now.toISOString();
+  await db.batch([
+    { sql: 'DELETE FROM response_cache WHERE pinned = 0 AND expires_at <= ?', args: [createdAt] },
+    {
+      sql: `INSERT INTO response_cache
+                (query_key, language, pipeline_version, canonical_intent, route, faq_id, media_ids, short_query,
+                 answer, media_urls, suggestions_json, intent_embedding, hits, created_at, expires_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+                ON CONFLICT(query_key, language, pipeline_version) DO UPDATE SET
+                  canonical_intent = excluded.canonical_intent,
+                  route = excluded.route,
+                  faq_id = excluded.faq_id,
+                  media_ids = excluded.media_ids,
+                  short_query = excluded.short_query,
+                  answer = excluded.answer,
+                  media_urls = excluded.media_urls,
+                  suggestions_json = excluded.suggestions_json,
+                  intent_embedding = COALESCE(excluded.intent_embedding, response_cache.intent_embedding),
+                  hits = 0,
+                  created_at = excluded.created_at,
+                  expires_at = excluded.expires_at`,
+      args: [
+        key.queryKey,
+        key.language,
+        key.pipelineVersion,
+        entry.canonicalIntent,
+        entry.route,
+        entry.faqId,
+        JSON.stringify(entry.mediaIds),
+        entry.shortQuery ? 1 : 0,
+        entry.answer,
+        JSON.stringify(entry.mediaUrls),
+        entry.suggestions ? JSON.stringify(entry.suggestions) : null,
+        entry.intentEmbedding ? JSON.stringify(entry.intentEmbedding) : null,
+        createdAt,
+        new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+      ],
+    },
+  ], 'write');
+}
+
+// --- Semantic cache ---
+
+/**
+ * A threshold between MIN_SEMANTIC_CACHE_THRESHOLD and 1, null for "off";
+ * undefined when the value is neither
+ */
+export function parseSemanticCacheThreshold(value: unknown): number | null | undefined {
+  if (value === null || value === 'off') return null;
+  const threshold = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  if (!Number.isFinite(threshold) || threshold < MIN_SEMANTIC_CACHE_THRESHOLD || threshold > 1) return undefined;
+  return threshold;
+}
+
+/**
+ * The configured threshold, null when the semantic cache is off
+ */
+export async function loadSemanticCacheThreshold(db: Client): Promise<number | null> {
+  const result = await db.execute({ sql: 'SELECT value FROM app_settings WHERE key = ?', args: [SEMANTIC_CACHE_THRESHOLD_KEY] });
+  const threshold = parseSemanticCacheThreshold(result.rows[0]?.value ?? DEFAULT_SEMANTIC_CACHE_THRESHOLD);
+  return threshold === undefined ? DEFAULT_SEMANTIC_CACHE_THRESHOLD : threshold;
+}
+
+/**
+ * Store the threshold (null turns the semantic cache off); returns the previous one
+ */
+export async function saveSemanticCacheThreshold(db: Client, threshold: number | null): Promise<number | null> {
+  const before = await loadSemanticCacheThreshold(db);
+  await db.execute({
+    sql: 'INSERT INTO app_settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+    args: [SEMANTIC_CACHE_THRESHOLD_KEY, threshold === null ? 'off' : String(threshold)],
+  });
+  return before;
+}
+
+/**
+ * The most similar intent among recent unexpired entries of this pipeline version,
+ * in any language; chip replies are left out, their GENERAL route is a placeholder.
+ * Null when none reaches the threshold.
+ */
+export async function findSemanticCacheMatch(
+  db: Client,
+  intentEmbedding: number[],
+  pipelineVersion: number,
+  threshold: number,
+  now = new Date()
+): Promise<SemanticCacheMatch | null> {
+  const result = await db.execute({
+    sql: `SELECT canonical_intent, route, faq_id, intent_embedding FROM response_cache
+          WHERE pipeline_version = ? AND intent_embedding IS NOT NULL AND suggestions_json IS NULL
+            AND (pinned = 1 OR expires_at > ?)
+          ORDER BY created_at DESC
+          LIMIT ?`,
+    args: [pipelineVersion, now.toISOString(), SEMANTIC_CACHE_CANDIDATES],
+  });
+
+  let best: SemanticCacheMatch | null = null;
+  for (const row of result.rows) {
+    const similarity = cosineSimilarity(intentEmbedding, parseJson<number[]>(row.intent_embedding, []));
+    if (similarity >= threshold && similarity > (best?.similarity ?? 0)) {
+      best = {
+        canonicalIntent: row.canonical_intent as string,
+        route: row.route as RouteCategory,
+        faqId: row.faq_id === null ? null : Number(row.faq_id),
+        similarity,
+      };
+    }
+  }
+  return best;
+}
+
+// --- Dashboard (GET /api/cache and friends) ---
+
+const ENTRY_COLUMNS = `c.id, c.query_key, c.language, c.pipeline_version, c.canonical_intent, c.route,
+  c.faq_id, f.question AS faq_question, c.answer, c.hits, c.pinned, c.created_at, c.expires_at`;
+
+function toCacheEntry(row: any): CacheEntry {
+  return {
+    id: Number(row.id),
+    query: row.query_key,
+    language: row.language,
+    pipelineVersion: Number(row.pipeline_version),
+    canonicalIntent: row.canonical_intent,
+    route: row.route,
+    faqId: row.faq_id === null ? null : Number(row.faq_id),
+    faqQuestion: row.faq_question ?? null,
+    answer: row.answer ?? null,
+    hits: Number(row.hits),
+    pinned: Number(row.pinned) === 1,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Unexpired entries, pinned first and then by hits; `search` matches the query or intent
+ */
+export async function listResponseCache(
+  db: Client,
+  filters: { search?: string | null; faqId?: number | null; limit?: number } = {},
+  now = new Date()
+): Promise<CacheEntry[]> {
+  const conditions = ['(c.pinned = 1 OR c.expires_at > ?)'];
+  const args: (string | number)[] = [now.toISOString()];
+  if (filters.search?.trim()) {
+    conditions.push('(c.query_key LIKE ? OR lower(c.canonical_intent) LIKE ?)');
+    const pattern = `%${normalizeText(filters.search)}%`;
+    args.push(pattern, pattern);
+  }
+  if (filters.faqId) {
+    conditions.push('c.faq_id = ?');
+    args.push(filters.faqId);
+  }
+  args.push(Math.min(Math.max(filters.limit ?? 200, 1), 500));
+
+  const result = await db.execute({
+    sql: `SELECT ${ENTRY_COLUMNS}
+          FROM response_cache c LEFT JOIN faqs f ON f.id = c.faq_id
+          WHERE ${conditions.join(' AND ')}
+          ORDER BY c.pinned DESC, c.hits DESC, c.created_at DESC
+          LIMIT ?`,
+    args,
+  });
+  return result.rows.map(toCacheEntry);
+}
+
+export async function getResponseCacheEntry(db: Client, id: number): Promise<CacheEntry | null> {
+  const result = await db.execute({
+    sql: `SELECT ${ENTRY_COLUMNS} FROM response_cache c LEFT JOIN faqs f ON f.id = c.faq_id WHERE c.id = ?`,
+    args: [id],
+  });
+  return result.rows[0] ? toCacheEntry(result.rows[0]) : null;
+}
+
+export async function deleteResponseCacheEntry(db: Client, id: number): Promise<number> {
+  const result = await db.execute({ sql: 'DELETE FROM response_cache WHERE id = ?', args: [id] });
+  return result.rowsAffected;
+}
+
+/**
+ * Pinning and unpinning both restart the entry's TTL, so an unpinned entry does not expire at once
+ */
+export async function setResponseCachePinned(
+  db: Client,
+  id: number,
+  pinned: boolean,
+  now = new Date(),
+  ttlSeconds = RESPONSE_CACHE_TTL_SECONDS
+): Promise<number> {
+  const result = await db.execute({
+    sql: 'UPDATE response_cache SET pinned = ?, expires_at = ? WHERE id = ?',
+    args: [pinned ? 1 : 0, new Date(now.getTime() + ttlSeconds * 1000).toISOString(), id],
+  });
+  return result.rowsAffected;
+}
+
+// Each invalidation returns the number of entries it evicted or refreshed
+
+export async function refreshCachedFaqAnswers(db: Client, faqId: number): Promise<number> {
+  const result = await db.execute({
+    sql: 'UPDATE response_cache SET answer = NULL WHERE faq_id = ?',
+    args: [faqId],
+  });
+  return result.rowsAffected;
+}
+
+/**
+ * Pass null for a new FAQ, which has no entries of its own yet
+ */
+export async function evictCachedFaqMatches(db: Client, faqId: number | null): Promise<number> {
+  const result = await db.execute({
+    sql: `DELETE FROM response_cache WHERE faq_id = ? OR (route = 'FAQ' AND faq_id IS NULL)`,
+    args: [faqId],
+  });
+  return result.rowsAffected;
+}
+
+/**
+ * Only the FAQ's own entries, for a purge from the dashboard
+ */
+export async function purgeCachedFaq(db: Client, faqId: number): Promise<number> {
+  const result = await db.execute({ sql: 'DELETE FROM response_cache WHERE faq_id = ?', args: [faqId] });
+  return result.rowsAffected;
+}
+
+export async function evictCachedMedia(db: Client, mediaId: number): Promise<number> {
+  const result = await db.execute({
+    sql: 'DELETE FROM response_cache WHERE EXISTS (SELECT 1 FROM json_each(response_cache.media_ids) WHERE value = ?)',
+    args: [mediaId],
+  });
+  return result.rowsAffected;
+}
+
+export async function evictCachedShortQueries(db: Client): Promise<number> {
+  const result = await db.execute('DELETE FROM response_cache WHERE short_query = 1');
+  return result.rowsAffected;
+}
+
+export async function clearResponseCache(db: Client): Promise<number> {
+  const result = await db.execute('DELETE FROM response_cache');
+  return result.rowsAffected;
+}
@@ -0,0 +1,42 @@
+/**
+ * Admin roles and what each one may do.
+ * Shared by the API (authorization) and the dashboard (navigation).
+ */
+
+export type AdminRole = 'owner' | 'editor' | 'reviewer';
+
+export type AdminPermission =
+  | 'stats'         // Dashboard overview
+  | 'faqs'          // FAQ CRUD
+  | 'media'         // Media library CRUD
+  | 'suggestions'   // Suggestion chip groups
+  | 'reports'       // Triage user_reports and report categories
+  | 'conversations' // Read user conversations
+  | 'traces'        // Read per-query pipeline traces
+  | 'settings'      // App settings such as the response cache
+  | 'admin_users'   // Manage admin accounts and sessions
+  | 'audit'         // Read the audit log
+  | 'reset_data';   // Wipe all user data
+
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'editor', 'reviewer'];
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  owner: ['stats', 'faqs', 'media', 'suggestions', 'reports', 'conversations', 'traces', 'settings', 'admin_users', 'audit', 'reset_data'],
+  editor: ['stats', 'faqs', 'media', 'suggestions'],
+  reviewer: ['stats', 'reports', 'conversations', 'traces'],
+};
+
+export const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: 'Full access, including admin accounts, the audit log and resetting user data',
+  editor: 'Edit FAQs, media and suggestions',
+  reviewer: 'Triage user reports, read conversations and their pipeline traces',
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as string[]).includes(value);
+}
+
+export function hasPermission(role: AdminRole | null | undefined, permission: AdminPermission): boolean {
+  if (!role || !isAdminRole(role)) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
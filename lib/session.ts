@@ -0,0 +1,199 @@
+/**
+ * Admin session tokens (server-side only)
+ *
+ * Tokens are `<payload>.<signature>` where the payload is base64url JSON and the
+ * signature is an HMAC-SHA256 over it using SESSION_SECRET. Every token also maps
+ * to a row in `admin_sessions`, so a session can be revoked before it expires.
+ * Uses Web Crypto only, so it runs in the Edge runtime.
+ */
+
+import type { Client } from '@libsql/client';
+import * as dbHelpers from './dbHelpers';
+import { isAdminRole, type AdminRole } from './roles';
+
+export const SESSION_TTL_SECONDS = 60 * 60 * 8; // 8 hours
+
+interface SessionPayload {
+  sid: string;
+  exp: number; // Unix seconds
+}
+
+export interface AdminSession {
+  id: string;
+  expiresAt: string;
+  adminUserId: number;
+  username: string;
+  role: AdminRole;
+}
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(input: string): Uint8Array {
+  const padded = input.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((input.length + 3) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('Server configuration error: SESSION_SECRET not set');
+  }
+  return secret;
+}
+
+async function sign(data: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+/**
+ * Constant-time string comparison (avoids leaking how many characters matched)
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < Math.max(aBytes.length, bBytes.length); i++) {
+    diff |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+async function issueToken(sessionId: string, expiresAtSeconds: number): Promise<string> {
+  const payload: SessionPayload = { sid: sessionId, exp: expiresAtSeconds };
+  const encodedPayload = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await sign(encodedPayload);
+  return `${encodedPayload}.${signature}`;
+}
+
+async function readToken(token: string): Promise<SessionPayload | null> {
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return null;
+
+  const expected = await sign(encodedPayload);
+  if (!timingSafeEqual(signature, expected)) return null;
+
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload)));
+    if (typeof payload?.sid !== 'string' || typeof payload?.exp !== 'number') return null;
+    if (payload.exp * 1000 <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract a bearer token from the Authorization header
+ */
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.get('authorization');
+  if (!header || !header.toLowerCase().startsWith('bearer ')) return null;
+  return header.slice(7).trim() || null;
+}
+
+/**
+ * Create a new session row for an admin user and return a signed token for it
+ */
+export async function createSession(
+  db: Client,
+  adminUser: { id: number; username: string; role: AdminRole },
+  userAgent?: string | null
+): Promise<{ token: string; session: AdminSession }> {
+  const sessionId = crypto.randomUUID();
+  const expSeconds = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const expiresAt = new Date(expSeconds * 1000).toISOString();
+
+  await dbHelpers.insert(db, 'admin_sessions', {
+    id: sessionId,
+    admin_user_id: adminUser.id,
+    created_at: new Date().toISOString(),
+    expires_at: expiresAt,
+    user_agent: userAgent || null,
+  });
+
+  const token = await issueToken(sessionId, expSeconds);
+  return {
+    token,
+    session: { id: sessionId, expiresAt, adminUserId: adminUser.id, username: adminUser.username, role: adminUser.role },
+  };
+}
+
+/**
+ * Verify a token's signature and expiry, then confirm the session and its account are still active.
+ * The role is read from admin_users on every call so role changes apply immediately.
+ */
+export async function verifySession(db: Client, token: string): Promise<AdminSession | null> {
+  const payload = await readToken(token);
+  if (!payload) return null;
+
+  const result = await db.execute({
+    sql: `SELECT s.id, s.expires_at, s.revoked_at, u.id as admin_user_id, u.username, u.role
+          FROM admin_sessions s
+          JOIN admin_users u ON s.admin_user_id = u.id
+          WHERE s.id = ?
+          LIMIT 1`,
+    args: [payload.sid],
+  });
+  const row = result.rows[0] as any;
+  if (!row || row.revoked_at) return null;
+  if (new Date(row.expires_at).getTime() <= Date.now()) return null;
+  if (!isAdminRole(row.role)) return null;
+
+  return {
+    id: row.id,
+    expiresAt: row.expires_at,
+    adminUserId: Number(row.admin_user_id),
+    username: row.username,
+    role: row.role,
+  };
+}
+
+/**
+ * Extend an active session and issue a fresh token for it
+ */
+export async function refreshSession(db: Client, session: AdminSession): Promise<{ token: string; session: AdminSession }> {
+  const expSeconds = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const expiresAt = new Date(expSeconds * 1000).toISOString();
+
+  await dbHelpers.update(db, 'admin_sessions', { expires_at: expiresAt }, { column: 'id', value: session.id });
+
+  const token = await issueToken(session.id, expSeconds);
+  return { token, session: { ...session, expiresAt } };
+}
+
+export async function revokeSession(db: Client, sessionId: string): Promise<void> {
+  await dbHelpers.update(db, 'admin_sessions', { revoked_at: new Date().toISOString() }, { column: 'id', value: sessionId });
+}
+
+/**
+ * Revoke every active session (e.g. after a lost or stolen device).
+ * Pass an admin user id to revoke only that account's sessions.
+ */
+export async function revokeAllSessions(db: Client, adminUserId?: number): Promise<number> {
+  const now = new Date().toISOString();
+  const result = adminUserId === undefined
+    ? await db.execute({
+      sql: 'UPDATE admin_sessions SET revoked_at = ? WHERE revoked_at IS NULL',
+      args: [now],
+    })
+    : await db.execute({
+      sql: 'UPDATE admin_sessions SET revoked_at = ? WHERE revoked_at IS NULL AND admin_user_id = ?',
+      args: [now, adminUserId],
+    });
+  return result.rowsAffected;
+}
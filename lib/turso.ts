@@ -1,14 +1,31 @@
 /**
  * Turso database client configuration
+ *
+ * There is deliberately no built-in production URL: without TURSO_DATABASE_URL the
+ * app uses a local SQLite file, and LOCAL_MODE=true ignores the Turso settings entirely.
  */
 
-import { createClient } from '@libsql/client';
+import { createClient, type Client } from '@libsql/client';
 
-const tursoUrl = process.env.TURSO_DATABASE_URL || 'libsql://dentalcare-ai-zunxo7.aws-ap-south-1.turso.io';
-const tursoAuthToken = process.env.TURSO_AUTH_TOKEN || '';
+export const LOCAL_DATABASE_URL = 'file:local.db';
 
-export const turso = createClient({
-  url: tursoUrl,
-  authToken: tursoAuthToken || undefined,
-});
+/**
+ * Offline development: local SQLite file plus the mock LLM (see lib/llm.ts)
+ */
+export function isLocalMode(): boolean {
+  return process.env.LOCAL_MODE === 'true' || process.env.LOCAL_MODE === '1';
+}
+
+export function getDatabaseConfig(): { url: string; authToken?: string } {
+  if (isLocalMode()) {
+    return { url: process.env.LOCAL_DATABASE_URL || LOCAL_DATABASE_URL };
+  }
+  return {
+    url: process.env.TURSO_DATABASE_URL || LOCAL_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN || undefined,
+  };
+}
 
+export function createDb(): Client {
+  return createClient(getDatabaseConfig());
+}
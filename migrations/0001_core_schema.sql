@@ -0,0 +1,91 @@
+-- Core chatbot and dashboard tables.
+-- Timestamps are ISO-8601 strings so they sort and compare as text.
+
+CREATE TABLE IF NOT EXISTS faqs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  intent TEXT NOT NULL,                -- canonical intent phrase; the embedding is computed from this
+  asked_count INTEGER NOT NULL DEFAULT 0,
+  embedding TEXT,                      -- JSON number[] (text-embedding-3-small)
+  embedding_updated_at TEXT,
+  media_ids TEXT NOT NULL DEFAULT '[]', -- JSON number[] of linked media
+  updated_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS media (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT NOT NULL,
+  type TEXT NOT NULL,                  -- image | video
+  url TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,                 -- UUID generated by the client
+  name TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT REFERENCES users(id),
+  title TEXT,
+  is_deleted_by_user INTEGER DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id INTEGER REFERENCES conversations(id), -- NULL for rows logged by /api/chat itself
+  sender TEXT NOT NULL,                -- user | bot
+  text TEXT NOT NULL,
+  media_urls TEXT,                     -- JSON string[]
+  query_id TEXT,                       -- links a user message to its bot reply and pipeline logs
+  suggestions_json TEXT,               -- JSON SuggestionChip[]
+  -- Pipeline cache fields, written by /api/chat
+  canonical_intent TEXT,
+  route TEXT,
+  resolved_faq_id INTEGER,
+  pipeline_version INTEGER,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation_id ON chat_messages(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_query_id ON chat_messages(query_id);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_cache ON chat_messages(sender, pipeline_version, created_at);
+
+CREATE TABLE IF NOT EXISTS user_reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id INTEGER,
+  query_id TEXT,
+  category TEXT,
+  other_reason TEXT,
+  message_snapshot TEXT,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending | active | resolved
+  -- Older report shape, still read by the Reports page
+  user_id TEXT,
+  report_type TEXT,
+  user_query TEXT,
+  bot_response TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS report_categories (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT UNIQUE NOT NULL,
+  display_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS suggestions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  keywords TEXT NOT NULL,              -- space-separated trigger keywords
+  chips_json TEXT NOT NULL,            -- JSON SuggestionChip[]
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT
+);
@@ -0,0 +1,15 @@
+-- Record of every admin write.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at TEXT NOT NULL,
+  actor_id INTEGER,
+  actor TEXT NOT NULL,
+  action TEXT NOT NULL,                -- create | update | restore | delete | delete_all | reorder | reset | revoke
+  route TEXT NOT NULL,                 -- e.g. "PUT /api/faqs/12"
+  entity_type TEXT NOT NULL,           -- faq | media | suggestion | report | report_category | setting | user_data | admin_user | admin_session
+  entity_id TEXT,
+  before_json TEXT,
+  after_json TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
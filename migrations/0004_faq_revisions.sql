@@ -0,0 +1,14 @@
+-- Prior versions of each FAQ, saved before an edit or restore overwrites it.
+
+CREATE TABLE IF NOT EXISTS faq_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  faq_id INTEGER NOT NULL REFERENCES faqs(id),
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  intent TEXT NOT NULL,
+  media_ids TEXT,
+  created_at TEXT NOT NULL,            -- when this version was replaced
+  created_by TEXT,                     -- admin who replaced it
+  reason TEXT NOT NULL                 -- edit | restore
+);
+CREATE INDEX IF NOT EXISTS idx_faq_revisions_faq_id ON faq_revisions(faq_id);
@@ -0,0 +1,4 @@
+-- Follow-ups resolved with conversation context (e.g. "what about at night?").
+-- Set by /api/chat when the standalone question differs from the message;
+-- the response cache only reuses rows where this is NULL.
+ALTER TABLE chat_messages ADD COLUMN standalone_query TEXT;
@@ -0,0 +1,13 @@
+-- Structured trace of each /api/chat request, keyed by the query_id returned to the client.
+
+CREATE TABLE IF NOT EXISTS pipeline_traces (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  query_id TEXT UNIQUE NOT NULL,
+  conversation_id INTEGER,
+  pipeline_version INTEGER NOT NULL,
+  route TEXT,
+  total_ms INTEGER NOT NULL,
+  trace_json TEXT NOT NULL,            -- PipelineTrace (types.ts)
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_pipeline_traces_conversation_id ON pipeline_traces(conversation_id);
@@ -0,0 +1,17 @@
+-- One row per LLM call with its tokens and estimated cost (lib/llmUsage.ts).
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at TEXT NOT NULL,
+  query_id TEXT,                       -- chat pipeline calls only
+  conversation_id INTEGER,
+  stage TEXT NOT NULL,                 -- pipeline stage, or calculateEmbedding | generateCanonicalIntent | translateChips
+  kind TEXT NOT NULL,                  -- chat | embedding
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_conversation_id ON llm_usage(conversation_id);
@@ -0,0 +1,11 @@
+-- Request counters for the rate limiter on /api/chat and the public write routes (lib/rateLimit.ts).
+-- One row per key and fixed window, removed once the window has expired.
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT NOT NULL,                   -- bucket:scope:id:window seconds, e.g. chat:ip:203.0.113.7:60
+  window_start INTEGER NOT NULL,       -- epoch seconds
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at INTEGER NOT NULL,         -- epoch seconds
+  PRIMARY KEY (key, window_start)
+);
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at ON rate_limits(expires_at);
@@ -0,0 +1,3 @@
+-- User messages screened out by the chat pipeline's safety stage
+-- (prompt_injection | self_harm | abuse), shown to admins in User Conversations.
+ALTER TABLE chat_messages ADD COLUMN safety_flag TEXT;
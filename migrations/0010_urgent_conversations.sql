@@ -0,0 +1,5 @@
+-- Conversations with red-flag symptoms (the URGENT route), listed on the dashboard
+-- until staff mark them as followed up. Flagging again clears urgent_followed_up_at.
+ALTER TABLE conversations ADD COLUMN urgent_flagged_at TEXT;
+ALTER TABLE conversations ADD COLUMN urgent_followed_up_at TEXT;
+CREATE INDEX IF NOT EXISTS idx_conversations_urgent_flagged_at ON conversations(urgent_flagged_at);
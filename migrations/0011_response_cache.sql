@@ -0,0 +1,23 @@
+-- Replies served again to repeated questions (lib/responseCache.ts), keyed by normalized
+-- query, language and pipeline version. faq_id and media_ids record what an entry
+-- depends on, so FAQ and media edits can evict it. Entries expire after a TTL.
+
+CREATE TABLE IF NOT EXISTS response_cache (
+  query_key TEXT NOT NULL,             -- lowercased, whitespace-collapsed message
+  language TEXT NOT NULL,
+  pipeline_version INTEGER NOT NULL,
+  canonical_intent TEXT NOT NULL,
+  route TEXT NOT NULL,
+  faq_id INTEGER,                      -- the FAQ the reply was built from, if any
+  media_ids TEXT NOT NULL DEFAULT '[]', -- JSON array of media ids attached to the reply
+  short_query INTEGER NOT NULL DEFAULT 0, -- 1 for suggestion-chip candidates (3 words or less)
+  answer TEXT,                         -- NULL once the FAQ answer changed: decisions are reused, the text is rebuilt
+  media_urls TEXT NOT NULL DEFAULT '[]',
+  suggestions_json TEXT,
+  hits INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  PRIMARY KEY (query_key, language, pipeline_version)
+);
+CREATE INDEX IF NOT EXISTS idx_response_cache_faq_id ON response_cache(faq_id);
+CREATE INDEX IF NOT EXISTS idx_response_cache_expires_at ON response_cache(expires_at);
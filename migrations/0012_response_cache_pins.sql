@@ -0,0 +1,2 @@
+-- Pinned cache entries never expire (they are still evicted by FAQ, media and suggestion edits).
+ALTER TABLE response_cache ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- Embedding of each entry's canonical intent (JSON array), compared with new intents by the
+-- semantic cache. NULL when the reply was cached before the intent was embedded (chip replies).
+ALTER TABLE response_cache ADD COLUMN intent_embedding TEXT;
@@ -0,0 +1,14 @@
+-- Results of chatbot sends by their client-generated message id (lib/idempotency.ts), so a
+-- retried send gets the original result instead of running again.
+-- status_code and response_json stay NULL while the first request is still running.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  scope TEXT NOT NULL,                 -- chat (/api/chat) or message (/api/messages)
+  key TEXT NOT NULL,
+  status_code INTEGER,
+  response_json TEXT,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  PRIMARY KEY (scope, key)
+);
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
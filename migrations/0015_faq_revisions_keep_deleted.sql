@@ -0,0 +1,20 @@
+-- Revisions outlive their FAQ: deleting an FAQ saves a final `delete` revision instead of
+-- dropping its history, so a deleted FAQ can still be inspected and restored.
+-- SQLite cannot drop a foreign key in place, so the table is rebuilt without the one on faqs(id).
+
+CREATE TABLE faq_revisions_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  faq_id INTEGER NOT NULL,             -- may point at a deleted FAQ
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  intent TEXT NOT NULL,
+  media_ids TEXT,
+  created_at TEXT NOT NULL,            -- when this version was replaced or deleted
+  created_by TEXT,                     -- admin who replaced or deleted it
+  reason TEXT NOT NULL                 -- edit | restore | delete
+);
+INSERT INTO faq_revisions_new (id, faq_id, question, answer, intent, media_ids, created_at, created_by, reason)
+  SELECT id, faq_id, question, answer, intent, media_ids, created_at, created_by, reason FROM faq_revisions;
+DROP TABLE faq_revisions;
+ALTER TABLE faq_revisions_new RENAME TO faq_revisions;
+CREATE INDEX IF NOT EXISTS idx_faq_revisions_faq_id ON faq_revisions(faq_id);
@@ -0,0 +1,5 @@
+-- The conversation and user a client message id was first sent for (lib/idempotency.ts).
+-- The same id sent for anyone else is rejected instead of replaying their result.
+
+ALTER TABLE idempotency_keys ADD COLUMN conversation_id INTEGER;
+ALTER TABLE idempotency_keys ADD COLUMN user_id TEXT;
@@ -0,0 +1,34 @@
+-- Cache entries get a stable id for the dashboard. The table was keyed by
+-- (query_key, language, pipeline_version) only, so entries were addressed by rowid, which
+-- VACUUM may renumber. The key stays unique, and the table is rebuilt because SQLite cannot
+-- change a primary key in place.
+
+CREATE TABLE response_cache_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  query_key TEXT NOT NULL,             -- lowercased, whitespace-collapsed message
+  language TEXT NOT NULL,
+  pipeline_version INTEGER NOT NULL,
+  canonical_intent TEXT NOT NULL,
+  route TEXT NOT NULL,
+  faq_id INTEGER,                      -- the FAQ the reply was built from, if any
+  media_ids TEXT NOT NULL DEFAULT '[]', -- JSON array of media ids attached to the reply
+  short_query INTEGER NOT NULL DEFAULT 0, -- 1 for suggestion-chip candidates (3 words or less)
+  answer TEXT,                         -- NULL once the FAQ answer changed: decisions are reused, the text is rebuilt
+  media_urls TEXT NOT NULL DEFAULT '[]',
+  suggestions_json TEXT,
+  hits INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  pinned INTEGER NOT NULL DEFAULT 0,
+  intent_embedding TEXT,
+  UNIQUE (query_key, language, pipeline_version)
+);
+INSERT INTO response_cache_new (query_key, language, pipeline_version, canonical_intent, route, faq_id, media_ids,
+    short_query, answer, media_urls, suggestions_json, hits, created_at, expires_at, pinned, intent_embedding)
+  SELECT query_key, language, pipeline_version, canonical_intent, route, faq_id, media_ids,
+    short_query, answer, media_urls, suggestions_json, hits, created_at, expires_at, pinned, intent_embedding
+  FROM response_cache;
+DROP TABLE response_cache;
+ALTER TABLE response_cache_new RENAME TO response_cache;
+CREATE INDEX IF NOT EXISTS idx_response_cache_faq_id ON response_cache(faq_id);
+CREATE INDEX IF NOT EXISTS idx_response_cache_expires_at ON response_cache(expires_at);
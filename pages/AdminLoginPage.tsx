@@ -1,15 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { LockIcon, EyeIcon, EyeOffIcon } from '../components/icons';
-import { setAdminStatus, isAdmin } from '../lib/auth';
-
-const ADMIN_PASSWORD = import.meta.env.ADMIN_PASSWORD;
+import { setAdminSession, isAdmin } from '../lib/auth';
+import { api } from '../lib/apiClient';
 
 interface AdminLoginPageProps {
     onLoginSuccess: () => void;
 }
 
 const AdminLoginPage: React.FC<AdminLoginPageProps> = ({ onLoginSuccess }) => {
+    const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -38,24 +38,16 @@ const AdminLoginPage: React.FC<AdminLoginPageProps> = ({ onLoginSuccess }) => {
         setError('');
 
         try {
-            // Simple password-based authentication
-            if (!ADMIN_PASSWORD) {
-                setError('Admin password not configured. Please set ADMIN_PASSWORD environment variable.');
-                return;
-            }
-
-            if (password === ADMIN_PASSWORD) {
-                setAdminStatus(true);
-                console.log('[ADMIN] Admin logged in');
-                onLoginSuccess();
-                const redirectPath = getRedirectPath();
-                navigate(redirectPath, { replace: true });
-            } else {
-                setError('Incorrect password. Please try again.');
-            }
+            // Password is verified server-side; we only keep the signed session token
+            const { token, expiresAt, user } = await api.login(username, password);
+            setAdminSession(token, expiresAt, user);
+            console.log('[ADMIN] Admin logged in');
+            onLoginSuccess();
+            const redirectPath = getRedirectPath();
+            navigate(redirectPath, { replace: true });
         } catch (err: any) {
             console.error('Login error:', err);
-            setError('An error occurred. Please try again.');
+            setError(err?.message || 'An error occurred. Please try again.');
         } finally {
             setIsLoading(false);
         }
@@ -69,11 +61,23 @@ const AdminLoginPage: React.FC<AdminLoginPageProps> = ({ onLoginSuccess }) => {
                         <LockIcon />
                     </div>
                     <h1 className="text-3xl font-bold text-text-primary">Admin Access</h1>
-                    <p className="text-text-secondary mt-2">Enter the admin password to access the dashboard.</p>
+                    <p className="text-text-secondary mt-2">Sign in with your admin account to access the dashboard.</p>
                 </div>
 
                 <div className="bg-surface p-8 rounded-xl shadow-lg border border-border">
                     <form onSubmit={handleLogin} className="space-y-6">
+                        <div>
+                            <label htmlFor="username" className="block text-sm font-medium text-text-secondary mb-2">Username</label>
+                            <input
+                                id="username"
+                                type="text"
+                                autoComplete="username"
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                className="w-full bg-surface-light border border-border rounded-lg py-3 px-4 focus:outline-none focus:ring-2 focus:ring-primary transition-all text-text-primary"
+                                required
+                            />
+                        </div>
                         <div>
                             <label htmlFor="password" className="block text-sm font-medium text-text-secondary mb-2">Password</label>
                             <div className="relative">
@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import { api, type AdminAccount } from '../lib/apiClient';
+import { getAdminUsername } from '../lib/auth';
+import { ADMIN_ROLES, ROLE_DESCRIPTIONS, type AdminRole } from '../lib/roles';
+import ConfirmDeleteModal from '../components/ConfirmDeleteModal';
+import { PlusIcon, TrashIcon, SpinnerIcon, LockIcon } from '../components/icons';
+
+interface AdminUsersPageProps {
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const AdminUsersPage: React.FC<AdminUsersPageProps> = ({ showToast }) => {
+    const [admins, setAdmins] = useState<AdminAccount[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [deleteTarget, setDeleteTarget] = useState<AdminAccount | null>(null);
+    const [passwordResetId, setPasswordResetId] = useState<number | null>(null);
+    const [newPassword, setNewPassword] = useState('');
+    const currentUsername = getAdminUsername();
+
+    // Form State
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [role, setRole] = useState<AdminRole>('editor');
+
+    useEffect(() => {
+        loadAdmins();
+    }, []);
+
+    const loadAdmins = async () => {
+        setIsLoading(true);
+        try {
+            setAdmins(await api.getAdminUsers());
+        } catch (error) {
+            console.error('Error loading admin accounts:', error);
+            showToast('Failed to load admin accounts', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!username.trim()) {
+            showToast('Please enter a username', 'error');
+            return;
+        }
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            showToast(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 'error');
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            await api.createAdminUser({ username: username.trim(), password, role });
+            showToast(`Admin "${username.trim()}" created`, 'success');
+            setUsername('');
+            setPassword('');
+            setRole('editor');
+            loadAdmins();
+        } catch (error: any) {
+            console.error('Error creating admin:', error);
+            showToast(`Failed to create admin: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleRoleChange = async (admin: AdminAccount, nextRole: AdminRole) => {
+        if (nextRole === admin.role) return;
+        try {
+            await api.updateAdminUser(admin.id, { role: nextRole });
+            showToast(`${admin.username} is now ${nextRole === 'owner' ? 'an' : 'a'} ${nextRole}`, 'success');
+            loadAdmins();
+        } catch (error: any) {
+            console.error('Error updating role:', error);
+            showToast(`Failed to change role: ${error?.message || 'Unknown error'}`, 'error');
+        }
+    };
+
+    const handlePasswordReset = async (admin: AdminAccount) => {
+        if (newPassword.length < MIN_PASSWORD_LENGTH) {
+            showToast(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 'error');
+            return;
+        }
+        try {
+            await api.updateAdminUser(admin.id, { password: newPassword });
+            showToast(`Password updated for ${admin.username}; their sessions were signed out.`, 'success');
+            setPasswordResetId(null);
+            setNewPassword('');
+        } catch (error: any) {
+            console.error('Error resetting password:', error);
+            showToast(`Failed to reset password: ${error?.message || 'Unknown error'}`, 'error');
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!deleteTarget) return;
+        try {
+            await api.deleteAdminUser(deleteTarget.id);
+            showToast(`Admin "${deleteTarget.username}" deleted`, 'success');
+            loadAdmins();
+        } catch (error: any) {
+            console.error('Error deleting admin:', error);
+            showToast(`Failed to delete admin: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setDeleteTarget(null);
+        }
+    };
+
+    return (
+        <div className="p-4 md:p-8 space-y-6 animate-fade-in-up max-w-5xl mx-auto">
+            {/* Header */}
+            <div>
+                <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-text-primary mb-1 sm:mb-2">
+                    Admin Accounts
+                </h1>
+                <p className="text-sm text-text-secondary">
+                    Manage who can sign in to the dashboard and what each person can change
+                </p>
+            </div>
+
+            {/* Add Admin Form */}
+            <div className="bg-surface/50 backdrop-blur-sm border border-border/50 rounded-2xl shadow-lg p-4 sm:p-6">
+                <h2 className="text-lg sm:text-xl font-semibold mb-4 text-text-primary flex items-center gap-2">
+                    <div className="p-1.5 bg-primary/10 rounded-lg">
+                        <PlusIcon className="w-4 h-4 text-primary" />
+                    </div>
+                    Add Admin
+                </h2>
+                <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-text-primary mb-2">Username</label>
+                        <input
+                            type="text"
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            placeholder="e.g. dr.ahmed"
+                            autoComplete="off"
+                            className="w-full bg-surface-light border border-border rounded-xl px-4 py-3 focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-text-primary mb-2">Password</label>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                            autoComplete="new-password"
+                            className="w-full bg-surface-light border border-border rounded-xl px-4 py-3 focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-text-primary mb-2">Role</label>
+                        <select
+                            value={role}
+                            onChange={(e) => setRole(e.target.value as AdminRole)}
+                            className="w-full bg-surface-light border border-border rounded-xl px-4 py-3 focus:ring-2 focus:ring-primary focus:border-primary outline-none transition-all text-sm capitalize"
+                        >
+                            {ADMIN_ROLES.map(r => (
+                                <option key={r} value={r}>{r}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-text-secondary mt-1.5">{ROLE_DESCRIPTIONS[role]}</p>
+                    </div>
+                    <div className="md:col-span-3 flex justify-end">
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="bg-primary text-background px-6 py-2.5 rounded-xl font-semibold hover:bg-primary-hover transition-colors flex items-center gap-2 text-sm disabled:opacity-50"
+                        >
+                            {isSubmitting ? <SpinnerIcon className="w-4 h-4" /> : <PlusIcon className="w-4 h-4" />}
+                            Create Admin
+                        </button>
+                    </div>
+                </form>
+            </div>
+
+            {/* Admin List */}
+            <div className="bg-surface border border-border rounded-2xl overflow-hidden">
+                {isLoading ? (
+                    <div className="flex justify-center items-center py-12">
+                        <SpinnerIcon className="w-8 h-8 text-primary" />
+                    </div>
+                ) : admins.length === 0 ? (
+                    <div className="text-center py-12 text-text-secondary">
+                        <p>No admin accounts yet.</p>
+                    </div>
+                ) : (
+                    <ul className="divide-y divide-border">
+                        {admins.map(admin => {
+                            const isSelf = admin.username === currentUsername;
+                            return (
+                                <li key={admin.id} className="p-4 flex flex-col gap-3">
+                                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-text-primary truncate">
+                                                {admin.username}
+                                                {isSelf && <span className="ml-2 text-xs text-text-secondary font-normal">(you)</span>}
+                                            </p>
+                                            {admin.created_at && (
+                                                <p className="text-xs text-text-secondary">Added {new Date(admin.created_at).toLocaleDateString()}</p>
+                                            )}
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <select
+                                                value={admin.role}
+                                                onChange={(e) => handleRoleChange(admin, e.target.value as AdminRole)}
+                                                title={ROLE_DESCRIPTIONS[admin.role]}
+                                                className="bg-surface-light border border-border rounded-lg px-3 py-2 text-sm capitalize focus:ring-2 focus:ring-primary outline-none"
+                                            >
+                                                {ADMIN_ROLES.map(r => (
+                                                    <option key={r} value={r}>{r}</option>
+                                                ))}
+                                            </select>
+                                            <button
+                                                onClick={() => {
+                                                    setPasswordResetId(passwordResetId === admin.id ? null : admin.id);
+                                                    setNewPassword('');
+                                                }}
+                                                className="p-2 rounded-lg bg-surface-light text-text-primary hover:bg-primary hover:text-background transition-colors"
+                                                title="Reset password"
+                                            >
+                                                <LockIcon className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => setDeleteTarget(admin)}
+                                                disabled={isSelf}
+                                                className="p-2 rounded-lg bg-accent/10 text-accent hover:bg-accent hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                                title={isSelf ? 'You cannot delete your own account' : 'Delete admin'}
+                                            >
+                                                <TrashIcon className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                    {passwordResetId === admin.id && (
+                                        <div className="flex flex-col sm:flex-row gap-2">
+                                            <input
+                                                type="password"
+                                                value={newPassword}
+                                                onChange={(e) => setNewPassword(e.target.value)}
+                                                placeholder={`New password (at least ${MIN_PASSWORD_LENGTH} characters)`}
+                                                autoComplete="new-password"
+                                                className="flex-1 bg-surface-light border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none"
+                                            />
+                                            <button
+                                                onClick={() => handlePasswordReset(admin)}
+                                                className="bg-primary text-background px-4 py-2 rounded-lg font-semibold hover:bg-primary-hover transition-colors text-sm"
+                                            >
+                                                Update Password
+                                            </button>
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+
+            <ConfirmDeleteModal
+                isOpen={deleteTarget !== null}
+                onClose={() => setDeleteTarget(null)}
+                onConfirm={handleDelete}
+                title="Delete Admin?"
+                message={`"${deleteTarget?.username}" will lose dashboard access and be signed out of every device.`}
+            />
+        </div>
+    );
+};
+
+export default AdminUsersPage;
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../lib/apiClient';
+import type { AuditLogEntry } from '../types';
+import DiffView from '../components/DiffView';
+import { SpinnerIcon, RefreshIcon } from '../components/icons';
+
+interface AuditLogPageProps {
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+    faq: 'FAQs',
+    media: 'Media',
+    suggestion: 'Suggestions',
+    report: 'Reports',
+    report_category: 'Report categories',
+    conversation: 'Conversations',
+    setting: 'Settings',
+    cache_entry: 'Cached replies',
+    user_data: 'User data',
+    admin_user: 'Admin accounts',
+    admin_session: 'Admin sessions',
+};
+
+const ACTION_STYLES: Record<string, string> = {
+    create: 'bg-primary/20 text-primary',
+    update: 'bg-secondary/20 text-secondary',
+    restore: 'bg-secondary/20 text-secondary',
+    reorder: 'bg-secondary/20 text-secondary',
+    delete: 'bg-accent/20 text-accent',
+    delete_all: 'bg-accent/20 text-accent',
+    reset: 'bg-accent/20 text-accent',
+    revoke: 'bg-accent/20 text-accent',
+};
+
+const AuditLogPage: React.FC<AuditLogPageProps> = ({ showToast }) => {
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [actors, setActors] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+
+    // Filters
+    const [entity, setEntity] = useState('');
+    const [actor, setActor] = useState('');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+
+    useEffect(() => {
+        loadEntries();
+    }, [entity, actor, from, to]);
+
+    const loadEntries = async () => {
+        setIsLoading(true);
+        try {
+            const data = await api.getAuditLog({ entity, actor, from, to });
+            setEntries(data.entries || []);
+            setActors(data.actors || []);
+        } catch (error: any) {
+            console.error('Error loading audit log:', error);
+            showToast(`Failed to load audit log: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const clearFilters = () => {
+        setEntity('');
+        setActor('');
+        setFrom('');
+        setTo('');
+    };
+
+    const hasFilters = !!(entity || actor || from || to);
+    const filterClassName = 'w-full bg-surface-light border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none';
+
+    return (
+        <div className="p-4 md:p-8 space-y-6 animate-fade-in-up max-w-5xl mx-auto">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+                <div>
+                    <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-text-primary mb-1 sm:mb-2">
+                        Audit Log
+                    </h1>
+                    <p className="text-sm text-text-secondary">
+                        Every change made from the dashboard, who made it and what it replaced
+                    </p>
+                </div>
+                <button
+                    onClick={loadEntries}
+                    disabled={isLoading}
+                    className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors flex items-center gap-2 text-sm disabled:opacity-50"
+                >
+                    <RefreshIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="bg-surface border border-border rounded-2xl p-4 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3">
+                <div>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">Entity</label>
+                    <select value={entity} onChange={(e) => setEntity(e.target.value)} className={filterClassName}>
+                        <option value="">All entities</option>
+                        {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">Actor</label>
+                    <select value={actor} onChange={(e) => setActor(e.target.value)} className={filterClassName}>
+                        <option value="">All admins</option>
+                        {actors.map(name => (
+                            <option key={name} value={name}>{name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">From</label>
+                    <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={filterClassName} />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">To</label>
+                    <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={filterClassName} />
+                </div>
+                {hasFilters && (
+                    <div className="sm:col-span-2 md:col-span-4 flex justify-end">
+                        <button onClick={clearFilters} className="text-sm text-primary hover:underline">Clear filters</button>
+                    </div>
+                )}
+            </div>
+
+            {/* Entries */}
+            <div className="bg-surface border border-border rounded-2xl overflow-hidden">
+                {isLoading && entries.length === 0 ? (
+                    <div className="flex justify-center items-center py-12">
+                        <SpinnerIcon className="w-8 h-8 text-primary" />
+                    </div>
+                ) : entries.length === 0 ? (
+                    <div className="text-center py-12 text-text-secondary">
+                        <p>{hasFilters ? 'No changes match these filters.' : 'No admin changes have been recorded yet.'}</p>
+                    </div>
+                ) : (
+                    <ul className="divide-y divide-border">
+                        {entries.map(entry => (
+                            <li key={entry.id}>
+                                <button
+                                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                                    className="w-full text-left p-4 hover:bg-surface-light/50 transition-colors flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4"
+                                >
+                                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold w-fit ${ACTION_STYLES[entry.action] || 'bg-surface-light text-text-secondary'}`}>
+                                        {entry.action.replace('_', ' ')}
+                                    </span>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm text-text-primary truncate">
+                                            {ENTITY_LABELS[entry.entity_type] || entry.entity_type}
+                                            {entry.entity_id && <span className="text-text-secondary"> #{entry.entity_id}</span>}
+                                        </p>
+                                        <p className="text-xs text-text-secondary font-mono truncate">{entry.route}</p>
+                                    </div>
+                                    <div className="text-xs text-text-secondary sm:text-right">
+                                        <p className="font-semibold text-text-primary">{entry.actor}</p>
+                                        <p>{new Date(entry.created_at).toLocaleString()}</p>
+                                    </div>
+                                </button>
+                                {expandedId === entry.id && (
+                                    <div className="px-4 pb-4">
+                                        <DiffView before={entry.before} after={entry.after} />
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AuditLogPage;
@@ -0,0 +1,322 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../lib/apiClient';
+import type { CacheEntry, CacheOutcome, CacheOutcomeSummary, FAQ } from '../types';
+import ConfirmDeleteModal from '../components/ConfirmDeleteModal';
+import { SpinnerIcon, RefreshIcon, TrashIcon, SearchIcon } from '../components/icons';
+
+interface CachePageProps {
+    faqs: FAQ[];
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const PERIODS = [7, 30, 90];
+
+const OUTCOMES: { outcome: CacheOutcome; label: string; color: string }[] = [
+    { outcome: 'full_hit', label: 'Hit', color: 'bg-primary' },
+    { outcome: 'partial_hit', label: 'Partial hit', color: 'bg-secondary' },
+    { outcome: 'semantic_hit', label: 'Semantic hit', color: 'bg-primary/50' },
+    { outcome: 'miss', label: 'Miss', color: 'bg-accent' },
+    { outcome: 'bypass', label: 'Bypass', color: 'bg-text-secondary' },
+    { outcome: 'disabled', label: 'Disabled', color: 'bg-surface-light' },
+];
+
+const LANGUAGE_LABELS: Record<string, string> = {
+    english: 'English',
+    urdu: 'Urdu',
+    roman: 'Roman Urdu',
+};
+
+const formatAge = (iso: string) => {
+    const minutes = Math.max(Math.floor((Date.now() - new Date(iso).getTime()) / 60000), 0);
+    if (minutes < 60) return `${minutes}m`;
+    if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h`;
+    return `${Math.floor(minutes / (60 * 24))}d`;
+};
+
+const formatRate = (count: number, total: number) => total > 0 ? `${((count / total) * 100).toFixed(1)}%` : '—';
+
+/**
+ * Cached replies in `response_cache` (lib/responseCache.ts) and how often queries hit them
+ */
+const CachePage: React.FC<CachePageProps> = ({ faqs, showToast }) => {
+    const [entries, setEntries] = useState<CacheEntry[]>([]);
+    const [stats, setStats] = useState<CacheOutcomeSummary | null>(null);
+    const [days, setDays] = useState(30);
+    const [isLoading, setIsLoading] = useState(false);
+    const [updatingId, setUpdatingId] = useState<number | null>(null);
+    const [confirmPurge, setConfirmPurge] = useState(false);
+
+    // Filters
+    const [search, setSearch] = useState('');
+    const [faqId, setFaqId] = useState<number | null>(null);
+
+    useEffect(() => {
+        const timeout = setTimeout(loadEntries, 300);
+        return () => clearTimeout(timeout);
+    }, [search, faqId]);
+
+    useEffect(() => {
+        loadStats();
+    }, [days]);
+
+    const loadEntries = async () => {
+        setIsLoading(true);
+        try {
+            const data = await api.getCacheEntries({ search: search.trim(), faqId });
+            setEntries(data.entries || []);
+        } catch (error: any) {
+            console.error('Error loading cache entries:', error);
+            showToast(`Failed to load cached replies: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const loadStats = async () => {
+        try {
+            setStats(await api.getCacheStats(days));
+        } catch (error) {
+            console.error('Failed to load cache stats:', error);
+        }
+    };
+
+    const handleRefresh = () => {
+        loadEntries();
+        loadStats();
+    };
+
+    const handleTogglePin = async (entry: CacheEntry) => {
+        setUpdatingId(entry.id);
+        try {
+            const data = await api.setCacheEntryPinned(entry.id, !entry.pinned);
+            setEntries(prev => prev.map(e => e.id === entry.id ? data.entry : e));
+            showToast(data.entry.pinned ? 'Entry pinned' : 'Entry unpinned', 'success');
+        } catch (error: any) {
+            console.error('Failed to pin cache entry:', error);
+            showToast(`Failed to update entry: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const handleDelete = async (entry: CacheEntry) => {
+        setUpdatingId(entry.id);
+        try {
+            await api.deleteCacheEntry(entry.id);
+            setEntries(prev => prev.filter(e => e.id !== entry.id));
+            showToast('Entry purged', 'success');
+        } catch (error: any) {
+            console.error('Failed to delete cache entry:', error);
+            showToast(`Failed to purge entry: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const handlePurge = async () => {
+        setConfirmPurge(false);
+        try {
+            const { purged } = await api.purgeCache(faqId);
+            showToast(`Purged ${purged} cached ${purged === 1 ? 'reply' : 'replies'}`, 'success');
+            loadEntries();
+        } catch (error: any) {
+            console.error('Failed to purge cache:', error);
+            showToast(`Failed to purge cache: ${error?.message || 'Unknown error'}`, 'error');
+        }
+    };
+
+    const selectedFaq = faqId ? faqs.find(f => f.id === faqId) : null;
+    const maxDaily = stats ? Math.max(...stats.daily.map(day => OUTCOMES.reduce((sum, { outcome }) => sum + day[outcome], 0)), 0) : 0;
+    const filterClassName = 'w-full bg-surface-light border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none';
+
+    return (
+        <div className="p-4 md:p-8 space-y-6 animate-fade-in-up max-w-5xl mx-auto">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+                <div>
+                    <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-text-primary mb-1 sm:mb-2">
+                        Response Cache
+                    </h1>
+                    <p className="text-sm text-text-secondary">
+                        Replies served again to repeated questions. Entries expire after 7 days unless pinned, and FAQ, media
+                        and suggestion edits purge the ones they make stale.
+                    </p>
+                </div>
+                <button
+                    onClick={handleRefresh}
+                    disabled={isLoading}
+                    className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors flex items-center gap-2 text-sm disabled:opacity-50"
+                >
+                    <RefreshIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+                </button>
+            </div>
+
+            {/* Outcome rates */}
+            <div className="bg-surface border border-border rounded-2xl p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3 mb-4">
+                    <div>
+                        <h2 className="font-semibold text-text-primary">Cache outcomes</h2>
+                        <p className="text-xs text-text-secondary">From the query traces; answers given before the cache lookup are not counted</p>
+                    </div>
+                    <div className="flex gap-1 bg-background rounded-full p-1 border border-border w-fit">
+                        {PERIODS.map(period => (
+                            <button
+                                key={period}
+                                onClick={() => setDays(period)}
+                                className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${days === period ? 'bg-primary text-background' : 'text-text-secondary hover:text-text-primary'}`}
+                            >
+                                {period}d
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {!stats ? (
+                    <div className="flex justify-center items-center py-8"><SpinnerIcon className="w-8 h-8 text-primary" /></div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                            {OUTCOMES.map(({ outcome, label, color }) => (
+                                <div key={outcome} className="p-3 bg-background rounded-lg border border-border">
+                                    <p className="text-xs text-text-secondary flex items-center gap-1.5">
+                                        <span className={`inline-block w-2 h-2 rounded-full ${color}`} /> {label}
+                                    </p>
+                                    <p className="text-xl font-bold text-text-primary">{formatRate(stats.totals[outcome], stats.queries)}</p>
+                                    <p className="text-xs text-text-secondary">{stats.totals[outcome]} queries</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        {stats.daily.length === 0 ? (
+                            <p className="text-sm text-text-secondary">No traced queries in this period.</p>
+                        ) : (
+                            <ul className="space-y-1.5">
+                                {stats.daily.map(day => {
+                                    const total = OUTCOMES.reduce((sum, { outcome }) => sum + day[outcome], 0);
+                                    return (
+                                        <li key={day.date} className="flex items-center gap-3 text-xs">
+                                            <span className="w-20 text-text-secondary font-mono">{day.date.slice(5)}</span>
+                                            <div className="flex-1 h-2 bg-background rounded-full overflow-hidden flex" style={{ maxWidth: `${maxDaily > 0 ? (total / maxDaily) * 100 : 0}%` }}>
+                                                {OUTCOMES.map(({ outcome, label, color }) => day[outcome] > 0 && (
+                                                    <div key={outcome} className={`h-full ${color}`} style={{ width: `${(day[outcome] / total) * 100}%` }} title={`${label}: ${day[outcome]}`} />
+                                                ))}
+                                            </div>
+                                            <span className="w-24 text-right text-text-primary">
+                                                {formatRate(day.full_hit + day.partial_hit + day.semantic_hit, total)} <span className="text-text-secondary">of {total}</span>
+                                            </span>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Filters */}
+            <div className="bg-surface border border-border rounded-2xl p-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="md:col-span-2">
+                    <label className="block text-xs font-medium text-text-secondary mb-1">Search</label>
+                    <div className="relative">
+                        <SearchIcon className="w-4 h-4 text-text-secondary absolute left-3 top-1/2 -translate-y-1/2" />
+                        <input
+                            type="text"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Query or intent"
+                            className={`${filterClassName} pl-9`}
+                        />
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">FAQ</label>
+                    <select value={faqId ?? ''} onChange={(e) => setFaqId(e.target.value ? Number(e.target.value) : null)} className={filterClassName}>
+                        <option value="">All FAQs</option>
+                        {faqs.map(faq => (
+                            <option key={faq.id} value={faq.id}>#{faq.id} {faq.question}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="md:col-span-3 flex justify-end">
+                    <button
+                        onClick={() => setConfirmPurge(true)}
+                        className="text-sm text-accent hover:underline font-semibold flex items-center gap-1.5"
+                    >
+                        <TrashIcon className="w-4 h-4" /> {selectedFaq ? `Purge replies for FAQ #${selectedFaq.id}` : 'Purge all cached replies'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Entries */}
+            <div className="bg-surface border border-border rounded-2xl overflow-hidden">
+                {isLoading && entries.length === 0 ? (
+                    <div className="flex justify-center items-center py-12">
+                        <SpinnerIcon className="w-8 h-8 text-primary" />
+                    </div>
+                ) : entries.length === 0 ? (
+                    <div className="text-center py-12 text-text-secondary">
+                        <p>{search || faqId ? 'No cached replies match these filters.' : 'Nothing is cached yet.'}</p>
+                    </div>
+                ) : (
+                    <ul className="divide-y divide-border">
+                        {entries.map(entry => (
+                            <li key={entry.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-text-primary truncate" title={entry.query}>"{entry.query}"</p>
+                                    <p className="text-xs text-text-secondary truncate">
+                                        {entry.route} · {LANGUAGE_LABELS[entry.language] || entry.language} · intent "{entry.canonicalIntent}"
+                                    </p>
+                                    <p className="text-xs text-text-secondary truncate">
+                                        {entry.faqId ? (
+                                            <>FAQ #{entry.faqId}{entry.faqQuestion && `: ${entry.faqQuestion}`}</>
+                                        ) : 'No FAQ'}
+                                        {entry.answer === null && <span className="text-secondary"> · reply rebuilt on the next hit</span>}
+                                    </p>
+                                </div>
+                                <div className="text-xs text-text-secondary sm:text-right whitespace-nowrap">
+                                    <p><span className="font-semibold text-text-primary">{entry.hits}</span> {entry.hits === 1 ? 'hit' : 'hits'}</p>
+                                    <p title={new Date(entry.createdAt).toLocaleString()}>cached {formatAge(entry.createdAt)} ago</p>
+                                    <p>{entry.pinned ? 'never expires' : `expires ${new Date(entry.expiresAt).toLocaleDateString()}`}</p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleTogglePin(entry)}
+                                        disabled={updatingId === entry.id}
+                                        className={`px-3 py-1.5 rounded-md text-xs font-semibold transition-colors disabled:opacity-50 ${entry.pinned ? 'bg-primary text-background hover:bg-primary-hover' : 'bg-surface-light text-text-primary hover:bg-primary hover:text-background'}`}
+                                    >
+                                        {entry.pinned ? 'Pinned' : 'Pin'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(entry)}
+                                        disabled={updatingId === entry.id}
+                                        className="p-1.5 rounded-md text-accent hover:bg-accent/10 transition-colors disabled:opacity-50"
+                                        title="Purge this entry"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <p className="text-xs text-text-secondary text-center">
+                Turn the cache off under <Link to="/dashboard" className="text-primary hover:underline">Dashboard → Settings</Link>.
+            </p>
+
+            <ConfirmDeleteModal
+                isOpen={confirmPurge}
+                onClose={() => setConfirmPurge(false)}
+                onConfirm={handlePurge}
+                title={selectedFaq ? `Purge replies for FAQ #${selectedFaq.id}?` : 'Purge the whole cache?'}
+                message={selectedFaq
+                    ? 'Every cached reply built from this FAQ is removed, pinned ones included. The next identical question is answered from scratch.'
+                    : 'Every cached reply is removed, pinned ones included. Repeated questions are answered from scratch until the cache fills again.'}
+            />
+        </div>
+    );
+};
+
+export default CachePage;
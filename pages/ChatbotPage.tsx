@@ -7,8 +7,9 @@
     useLayoutEffect,
 } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { ChatMessage, FAQ, Media, Conversation, User, SuggestionChip } from '../types';
-import { api } from '../lib/apiClient';
+import type { ChatMessage, FAQ, Media, Conversation, User, SuggestionChip, PendingSend } from '../types';
+import { api, RateLimitError } from '../lib/apiClient';
+import { detectLanguage, type Language } from '../lib/language';
 import { isAdmin, updateUserInfo, getCurrentUserId, getCurrentUserName, clearAuth } from '../lib/auth';
 
 import {
@@ -33,6 +34,22 @@ import {
 
 const SIDEBAR_BG = 'bg-[#1A1F2E] border-[#08101a]';
 
+// Shown in the thinking bubble while a streamed reply reports its progress
+const THINKING_LABELS: Record<string, string> = {
+    language: 'Understanding your question...',
+    intent: 'Understanding your question...',
+    route: 'Finding the best answer...',
+    faq: 'Preparing your answer...',
+    media: 'Attaching media...',
+};
+
+// Shown in the chat (not saved) when the server rate-limits the user, in the language they wrote in
+const SLOW_DOWN_MESSAGES: Record<Language, (seconds: number) => string> = {
+    english: seconds => `You're sending messages too quickly. Please wait ${seconds} seconds and try again.`,
+    urdu: seconds => `آپ بہت تیزی سے پیغامات بھیج رہے ہیں۔ براہ کرم ${seconds} سیکنڈ انتظار کریں اور دوبارہ کوشش کریں۔`,
+    roman: seconds => `Aap bohat tezi se messages bhej rahe hain. Barah-e-karam ${seconds} second intezar karein aur dobara koshish karein.`,
+};
+
 // Kept only so old DB messages with these prefixes can be ignored
 const SUGGESTION_PREFIX = '__FAQ_SUGGESTIONS__';
 const SUGGESTION_CHOICE_PREFIX = '__FAQ_SUGGESTION_CHOICE__';
@@ -172,6 +189,7 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ faqs, media, incrementFaqCoun
     const [isSidebarOpen, setIsSidebarOpen] = useState(false);
     const [isConversationLoading, setIsConversationLoading] = useState(false);
     const [isThinking, setIsThinking] = useState(false);
+    const [thinkingStage, setThinkingStage] = useState<string | null>(null);
     const [activeMediaPreview, setActiveMediaPreview] = useState<MediaPreviewState | null>(null);
     const [isPreviewLoading, setIsPreviewLoading] = useState(false);
     const [reportModalOpen, setReportModalOpen] = useState(false);
@@ -242,13 +260,13 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ faqs, media, incrementFaqCoun
     };
 
     const handleSend = useCallback(
-        async (messageText?: string, suggestionFaqId?: number) => {
+        async (messageText?: string, suggestionFaqId?: number, retryOf?: ChatMessage) => {
             if (isConversationLoading) return;
-            const userInput = messageText || input;
+            const userInput = retryOf?.text ?? (messageText || input);
             if (userInput.trim() === '' || isLoading || !currentUser) return;
 
             // Check for /debug command
-            if (userInput.trim().toLowerCase() === '/debug') {
+            if (!retryOf && userInput.trim().toLowerCase() === '/debug') {
                 if (isAdmin()) {
                     navigate('/dashboard/reports');
                 } else {
@@ -261,22 +279,33 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ faqs, media, incrementFaqCoun
                 return;
             }
 
-            if (!messageText) {
+            if (!messageText && !retryOf) {
                 setInput('');
             }
 
-            let currentConversationId = activeConversationId;
-            const userMessagePayload = { sender: 'user' as const, text: userInput };
+            // A retry resends with the failed message's id, so a send that reached the server
+            // gets its stored reply back instead of being answered twice
+            const send: PendingSend = retryOf?.send
+                ? { ...retryOf.send, failed: false }
+                : { clientMessageId: crypto.randomUUID(), suggestionFaqId };
+            // A message whose conversation could not be created has conversation_id 0
+            let currentConversationId = retryOf ? retryOf.conversation_id || null : activeConversationId;
+            const userMessagePayload = { sender: 'user' as const, text: userInput, send };
+            // /api/chat stores the message with its reply; until then it only lives in state
+            const tempUserMsg: ChatMessage = retryOf
+                ? { ...retryOf, send }
+                : addMessageToState(
+                    userMessagePayload,
+                    currentConversationId ?? 0,
+                    !currentConversationId && messages.length === 0,
+                );
+            if (retryOf) {
+                setMessages(prev => prev.map(m => (m.id === retryOf.id ? tempUserMsg : m)));
+            }
 
             try {
                 if (!currentConversationId) {
                     setIsLoading(true);
-                    const tempUserMsg = addMessageToState(
-                        userMessagePayload,
-                        0,
-                        messages.length === 0,
-                    );
-
                     const newConversation = await api.createConversation(
                         currentUser.id,
                         userInput,
@@ -293,31 +322,49 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ faqs, media, incrementFaqCoun
                                 : m,
                         ),
                     );
-
-                    await api.createMessage({
-                        conversationId: currentConversationId,
-                        sender: userMessagePayload.sender,
-                        text: userMessagePayload.text,
-                    });
-                } else {
-                    addMessageToState(userMessagePayload, currentConversationId);
-                    await api.createMessage({
-                        conversationId: currentConversationId,
-                        sender: userMessagePayload.sender,
-                        text: userMessagePayload.text,
-                    });
                 }
 
                 setIsLoading(true);
                 setIsThinking(true);
+                setThinkingStage(null);
 
                 // ⬇️ Call Edge Function for bot response (OpenAI key stays server-side)
-                const botResponse = await api.getBotResponse({
+                const botRequest = {
                     message: userInput,
                     userName: currentUser.name,
                     userId: currentUser.id,
-                    suggestionFaqId, // Pass suggestionFaqId if present
-                });
+                    conversationId: currentConversationId,
+                    suggestionFaqId: send.suggestionFaqId, // Pass suggestionFaqId if present
+                    clientMessageId: send.clientMessageId,
+                };
+
+                // Stream tokens into a placeholder bot message; fall back to the JSON endpoint if streaming fails
+                const streamed = { id: null as number | null };
+                let botResponse;
+                try {
+                    botResponse = await api.streamBotResponse(botRequest, {
+                        onStage: stage => setThinkingStage(stage),
+                        onToken: token => {
+                            if (streamed.id === null) {
+                                setIsThinking(false);
+                                streamed.id = addMessageToState({ sender: 'bot', text: token }, currentConversationId!).id;
+                            } else {
+                                const id = streamed.id;
+                                setMessages(prev => prev.map(m => (m.id === id ? { ...m, text: m.text + token } : m)));
+                            }
+                        },
+                    });
+                } catch (streamError) {
+                    if (streamError instanceof RateLimitError) throw streamError;
+                    console.warn('[BOT_STREAM] Falling back to JSON response:', streamError);
+                    if (streamed.id !== null) {
+                        const id = streamed.id;
+                        setMessages(prev => prev.filter(m => m.id !== id));
+                        streamed.id = null;
+                    }
+                    setIsThinking(true);
+                    botResponse = await api.getBotResponse(botRequest);
+                }
 
                 if (botResponse.faqId) {
                     incrementFaqCount(botResponse.faqId);
@@ -345,25 +392,27 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ faqs, media, incrementFaqCoun
                     console.groupEnd();
                 }
 
-                addMessageToState(botMessagePayload, currentConversationId!);
+                const botId = streamed.id ?? addMessageToState(botMessagePayload, currentConversationId!).id;
+                // The final reply replaces the streamed text (it may have been translated or fallen back),
+                // and both messages take the ids of the rows /api/chat stored
+                setMessages(prev => prev.map(m => {
+                    if (m.id === botId) return { ...m, ...botMessagePayload, id: botResponse.botMessageId ?? m.id };
+                    if (m.id === tempUserMsg.id) return { ...m, id: botResponse.userMessageId ?? m.id, send: undefined };
+                    return m;
+                }));
                 setIsThinking(false);
-
-                // Persist bot message with suggestions
-                await api.createMessage({
-                    conversationId: currentConversationId!,
-                    sender: botMessagePayload.sender,
-                    text: botMessagePayload.text,
-                    mediaUrls: botMessagePayload.mediaUrls,
-                    queryId: botMessagePayload.queryId,
-                    suggestions: botMessagePayload.suggestions,
-                });
             } catch (error: any) {
-                console.error('Error sending message:', error);
                 setIsThinking(false);
-                showToast(
-                    `Could not send message: ${error.message || 'Unknown error'}`,
-                    'error',
-                );
+                // The message stays in the chat with a retry link under it
+                setMessages(prev => prev.map(m => (m.id === tempUserMsg.id ? { ...m, send: { ...send, failed: true } } : m)));
+                if (error instanceof RateLimitError) {
+                    addMessageToState(
+                        { sender: 'bot', text: SLOW_DOWN_MESSAGES[detectLanguage(userInput)](error.retryAfterSeconds) },
+                        currentConversationId ?? 0,
+                    );
+                    return;
+                }
+                console.error('Error sending message:', error);
             } finally {
                 setIsLoading(false);
             }
@@ -376,7 +425,6 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ faqs, media, incrementFaqCoun
             isLoading,
             isConversationLoading,
             messages.length,
-            showToast,
             navigate,
             messages,
         ],
@@ -1216,6 +1264,19 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ faqs, media, incrementFaqCoun
                                                         )}
                                                     </div>
                                                 </div>
+                                                {alignRight && message.send?.failed && (
+                                                    <div className="flex justify-end -mt-2 mb-3 pr-12 text-[11px] text-red-400">
+                                                        <span>Not sent</span>
+                                                        <span className="mx-1">·</span>
+                                                        <button
+                                                            onClick={() => handleSend(undefined, undefined, message)}
+                                                            disabled={isLoading}
+                                                            className="underline hover:text-red-300 disabled:opacity-50"
+                                                        >
+                                                            Retry
+                                                        </button>
+                                                    </div>
+                                                )}
                                                 {attachments.length > 0 && (
                                                     <div
                                                         className={`flex mt-2 mb-4 ${alignRight ? 'justify-end' : 'justify-start'
@@ -1241,7 +1302,7 @@ const ChatbotPage: React.FC<ChatbotPageProps> = ({ faqs, media, incrementFaqCoun
                                         <div className="flex justify-start mb-3 animate-fade-in-up">
                                             <div className="inline-flex items-center gap-2 rounded-2xl px-3 py-1.5 bg-surface border border-border text-text-secondary text-[11px]">
                                                 <div className="w-4 h-4 rounded-full border-2 border-text-secondary border-t-transparent animate-spin" />
-                                                <span>Thinking...</span>
+                                                <span>{(thinkingStage && THINKING_LABELS[thinkingStage]) || 'Thinking...'}</span>
                                             </div>
                                         </div>
                                     )}
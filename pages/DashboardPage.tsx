@@ -1,6 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import type { FAQ, DashboardStats } from '../types';
+import { useNavigate } from 'react-router-dom';
+import type { FAQ, DashboardStats, BudgetLevel, LlmBudgetStatus } from '../types';
 import { api } from '../lib/apiClient';
+import { clearAdminSession } from '../lib/auth';
+import { hasPermission, type AdminRole } from '../lib/roles';
+import LlmModelSettings from '../components/LlmModelSettings';
+import LlmSpendPanel from '../components/LlmSpendPanel';
+import ClinicContactSettings from '../components/ClinicContactSettings';
+import UrgentConversationsPanel from '../components/UrgentConversationsPanel';
 import { TotalMessagesIcon, UniqueUsersIcon, TotalFaqsIcon, TimeIcon, SpinnerIcon, TrashIcon, RefreshIcon } from '../components/icons';
 
 interface DashboardPageProps {
@@ -9,6 +16,7 @@ interface DashboardPageProps {
     loading: boolean;
     refreshData: (silent?: boolean) => void;
     showToast: (message: string, type: 'success' | 'error') => void;
+    adminRole: AdminRole | null;
 }
 
 interface StatCardProps {
@@ -116,6 +124,37 @@ const ConfirmModal = ({ isOpen, onClose, onConfirm, title, message }: {
     );
 };
 
+const BUDGET_LEVEL_LABELS: Record<BudgetLevel, string> = {
+    normal: 'Within budget',
+    top_hit: 'No answers are generated; FAQ questions are matched to the top embedding hit without the LLM selection step',
+    faq_only: 'Only cached replies and FAQ answers are served; nothing is generated or translated',
+    fallback_only: 'Every message gets the safe fallback reply; no LLM calls are made',
+};
+
+const formatBudgetUsd = (value: number) => `$${value.toFixed(2)}`;
+
+const BudgetBanner: React.FC<{ status: LlmBudgetStatus }> = ({ status }) => {
+    const degraded = status.level !== 'normal';
+    const limits = [
+        status.budget.dailyUsd && `${formatBudgetUsd(status.spentTodayUsd)} of ${formatBudgetUsd(status.budget.dailyUsd)} today`,
+        status.budget.monthlyUsd && `${formatBudgetUsd(status.spentThisMonthUsd)} of ${formatBudgetUsd(status.budget.monthlyUsd)} this month`,
+    ].filter(Boolean);
+
+    return (
+        <div className={`mb-6 p-4 rounded-xl border ${degraded ? 'bg-accent/10 border-accent/30' : 'bg-yellow-500/10 border-yellow-500/30'}`}>
+            <p className={`font-semibold ${degraded ? 'text-accent' : 'text-yellow-500'}`}>
+                {degraded
+                    ? `LLM spend is at ${Math.round(status.usedFraction * 100)}% of the budget: chat is degraded`
+                    : `LLM spend is at ${Math.round(status.usedFraction * 100)}% of the budget`}
+            </p>
+            <p className="text-sm text-text-secondary mt-1">
+                {limits.join(' · ')}
+                {degraded ? ` — ${BUDGET_LEVEL_LABELS[status.level]}.` : '. From 90% the chatbot starts skipping LLM calls.'}
+            </p>
+        </div>
+    );
+};
+
 const StatCard: React.FC<StatCardProps> = ({ title, value, description, icon }) => (
     <div className="bg-surface p-6 rounded-xl flex items-center gap-6 border border-border transition-all hover:border-primary/50 hover:shadow-glow-primary hover:-translate-y-1">
         <div className="flex-shrink-0 text-primary">{icon}</div>
@@ -127,26 +166,87 @@ const StatCard: React.FC<StatCardProps> = ({ title, value, description, icon })
     </div>
 );
 
-const DashboardPage: React.FC<DashboardPageProps> = ({ faqs, stats, loading, refreshData, showToast }) => {
+const DashboardPage: React.FC<DashboardPageProps> = ({ faqs, stats, loading, refreshData, showToast, adminRole }) => {
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [isRevokeModalOpen, setIsRevokeModalOpen] = useState(false);
     const [cacheEnabled, setCacheEnabled] = useState(true);
     const [isCacheLoading, setIsCacheLoading] = useState(false);
+    const [semanticThreshold, setSemanticThreshold] = useState<number | null>(null);
+    const [budgetStatus, setBudgetStatus] = useState<LlmBudgetStatus | null>(null);
+    const [budgetInput, setBudgetInput] = useState({ dailyUsd: '', monthlyUsd: '' });
+    const [isBudgetSaving, setIsBudgetSaving] = useState(false);
+    const navigate = useNavigate();
     const mostAskedQuestions = [...faqs].sort((a, b) => b.asked_count - a.asked_count).slice(0, 5);
+    const canManageSettings = hasPermission(adminRole, 'settings');
+    const canViewConversations = hasPermission(adminRole, 'conversations');
+    const canResetData = hasPermission(adminRole, 'reset_data');
+    const canManageAdmins = hasPermission(adminRole, 'admin_users');
+
+    useEffect(() => {
+        if (canManageSettings) {
+            loadCacheStatus();
+        }
+    }, [canManageSettings]);
 
     useEffect(() => {
-        loadCacheStatus();
+        loadBudgetStatus();
     }, []);
 
+    const loadBudgetStatus = async () => {
+        try {
+            const status = await api.getLlmBudget();
+            setBudgetStatus(status);
+            setBudgetInput({
+                dailyUsd: status.budget.dailyUsd?.toString() ?? '',
+                monthlyUsd: status.budget.monthlyUsd?.toString() ?? '',
+            });
+        } catch (error) {
+            console.error('Failed to load LLM budget:', error);
+        }
+    };
+
+    const handleSaveBudget = async () => {
+        setIsBudgetSaving(true);
+        try {
+            const status = await api.setLlmBudget({
+                dailyUsd: budgetInput.dailyUsd.trim() ? Number(budgetInput.dailyUsd) : null,
+                monthlyUsd: budgetInput.monthlyUsd.trim() ? Number(budgetInput.monthlyUsd) : null,
+            });
+            setBudgetStatus(status);
+            showToast('LLM budget saved', 'success');
+        } catch (error: any) {
+            console.error('Failed to save LLM budget:', error);
+            showToast(`Failed to save LLM budget: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setIsBudgetSaving(false);
+        }
+    };
+
     const loadCacheStatus = async () => {
         try {
-            const { enabled } = await api.getCacheStatus();
+            const { enabled, semanticThreshold } = await api.getCacheStatus();
             setCacheEnabled(enabled);
+            setSemanticThreshold(semanticThreshold);
         } catch (error) {
             console.error('Failed to load cache status:', error);
         }
     };
 
+    const handleSemanticThresholdChange = async (value: string) => {
+        setIsCacheLoading(true);
+        try {
+            const { semanticThreshold } = await api.setSemanticCacheThreshold(value === 'off' ? null : Number(value));
+            setSemanticThreshold(semanticThreshold);
+            showToast(semanticThreshold === null ? 'Semantic matching turned off' : `Semantic matching threshold set to ${semanticThreshold}`, 'success');
+        } catch (error: any) {
+            console.error('Failed to update semantic matching:', error);
+            showToast(`Failed to update semantic matching: ${error?.message || 'Unknown error'}`, 'error');
+        } finally {
+            setIsCacheLoading(false);
+        }
+    };
+
     const handleToggleCache = async () => {
         setIsCacheLoading(true);
         try {
@@ -185,10 +285,24 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ faqs, stats, loading, ref
         }
     };
 
+    const handleRevokeAllSessions = async () => {
+        setIsRevokeModalOpen(false);
+        try {
+            const { revoked } = await api.revokeAllSessions();
+            showToast(`Signed out ${revoked} admin session${revoked === 1 ? '' : 's'}.`, 'success');
+            // This browser's session was revoked too
+            clearAdminSession();
+            navigate('/login', { replace: true });
+        } catch (error: any) {
+            console.error('Error revoking sessions:', error);
+            showToast(`Failed to sign out sessions: ${error?.message || 'Unknown error'}`, 'error');
+        }
+    };
+
     const handleRefresh = async () => {
         setIsRefreshing(true);
         try {
-            await refreshData(true);
+            await Promise.all([refreshData(true), loadBudgetStatus()]);
         } finally {
             setIsRefreshing(false);
         }
@@ -229,6 +343,8 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ faqs, stats, loading, ref
                 </button>
             </div>
 
+            {budgetStatus?.warning && <BudgetBanner status={budgetStatus} />}
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
                 <StatCard title="Total User Messages" value={displayStats.totalMessages.toString()} description="Messages sent by users" icon={<TotalMessagesIcon />} />
                 <StatCard title="Unique Users" value={displayStats.uniqueUsers.toString()} description="Unique conversation sessions" icon={<UniqueUsersIcon />} />
@@ -236,6 +352,12 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ faqs, stats, loading, ref
                 <StatCard title="Conversation Time" value={formatTime(displayStats.conversationTime)} description="Est. duration across all users" icon={<TimeIcon />} />
             </div>
 
+            {canViewConversations && (
+                <div className="mb-8">
+                    <UrgentConversationsPanel showToast={showToast} />
+                </div>
+            )}
+
             <div className="bg-surface p-6 rounded-xl border border-border">
                 <h2 className="text-xl font-bold mb-2">Most Asked Questions</h2>
                 <p className="text-sm text-text-secondary mb-6">Top 5 frequently asked questions by users</p>
@@ -265,43 +387,127 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ faqs, stats, loading, ref
                 </div>
             </div>
 
+            <LlmSpendPanel />
+
             {/* Settings Section */}
-            <div className="mt-8 bg-surface p-6 rounded-xl border border-border">
-                <h2 className="text-xl font-bold text-text-primary mb-2">Settings</h2>
-                <p className="text-sm text-text-secondary mb-6">Configure application behavior</p>
+            {canManageSettings && (
+                <div className="mt-8 bg-surface p-6 rounded-xl border border-border">
+                    <h2 className="text-xl font-bold text-text-primary mb-2">Settings</h2>
+                    <p className="text-sm text-text-secondary mb-6">Configure application behavior</p>
+
+                    <div className="flex items-center justify-between p-4 bg-background rounded-lg border border-border">
+                        <div className="flex-1">
+                            <h3 className="font-semibold text-text-primary">Response Cache</h3>
+                            <p className="text-sm text-text-secondary mt-1">
+                                When enabled, the chatbot will reuse cached replies for repeated queries,
+                                making responses faster. Disable for testing new FAQ changes.
+                            </p>
+                            <button onClick={() => navigate('/dashboard/cache')} className="text-sm text-primary hover:underline mt-2">
+                                Manage cached replies
+                            </button>
+                        </div>
+                        <button
+                            onClick={handleToggleCache}
+                            disabled={isCacheLoading}
+                            className={`ml-4 relative inline-flex h-7 w-14 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background disabled:opacity-50 disabled:cursor-not-allowed ${cacheEnabled ? 'bg-primary' : 'bg-surface-light'
+                                }`}
+                        >
+                            <span
+                                className={`pointer-events-none inline-block h-6 w-6 transform rounded-full bg-white shadow-lg ring-0 transition duration-200 ease-in-out ${cacheEnabled ? 'translate-x-7' : 'translate-x-0'
+                                    }`}
+                            />
+                        </button>
+                    </div>
 
-                <div className="flex items-center justify-between p-4 bg-background rounded-lg border border-border">
-                    <div className="flex-1">
-                        <h3 className="font-semibold text-text-primary">Response Cache</h3>
+                    <div className="mt-3 flex items-center justify-between p-4 bg-background rounded-lg border border-border">
+                        <div className="flex-1">
+                            <h3 className="font-semibold text-text-primary">Semantic Matching</h3>
+                            <p className="text-sm text-text-secondary mt-1">
+                                Questions worded differently but with the same intent reuse the cached route and FAQ, and are
+                                answered in the asker's language. Lower thresholds match more loosely.
+                            </p>
+                        </div>
+                        <select
+                            value={semanticThreshold === null ? 'off' : String(semanticThreshold)}
+                            onChange={(e) => handleSemanticThresholdChange(e.target.value)}
+                            disabled={isCacheLoading || !cacheEnabled}
+                            className="ml-4 bg-surface-light border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none disabled:opacity-50"
+                        >
+                            <option value="off">Off</option>
+                            {[...new Set([0.8, 0.85, 0.9, 0.95, ...(semanticThreshold === null ? [] : [semanticThreshold])])].sort((a, b) => a - b).map(value => (
+                                <option key={value} value={String(value)}>{value.toFixed(2)} similarity</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="mt-4 p-4 bg-background rounded-lg border border-border">
+                        <h3 className="font-semibold text-text-primary">LLM Budget</h3>
                         <p className="text-sm text-text-secondary mt-1">
-                            When enabled, the chatbot will use cached intent and route decisions for repeated queries,
-                            making responses faster. Disable for testing new FAQ changes.
+                            Estimated spend limits in USD (UTC days and months); leave empty for no limit. Admins are warned at 80%.
+                            The chatbot degrades step by step before the limit is reached: at 90% FAQ matching without the LLM
+                            selection, at 95% cached and FAQ answers only, and at 100% the safe fallback reply with no LLM calls,
+                            so chat spend stays within the limit. Admin actions (FAQ embeddings, intent generation) are not limited.
                         </p>
+                        {budgetStatus && (
+                            <p className="text-xs text-text-secondary mt-2">
+                                Spent {formatBudgetUsd(budgetStatus.spentTodayUsd)} today and {formatBudgetUsd(budgetStatus.spentThisMonthUsd)} this month · {BUDGET_LEVEL_LABELS[budgetStatus.level]}
+                            </p>
+                        )}
+                        <div className="flex flex-wrap items-end gap-3 mt-4">
+                            {(['dailyUsd', 'monthlyUsd'] as const).map(field => (
+                                <label key={field} className="text-xs text-text-secondary">
+                                    {field === 'dailyUsd' ? 'Daily limit' : 'Monthly limit'}
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={budgetInput[field]}
+                                        onChange={e => setBudgetInput({ ...budgetInput, [field]: e.target.value })}
+                                        placeholder="No limit"
+                                        className="block mt-1 w-36 bg-surface border border-border rounded-md px-3 py-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                                    />
+                                </label>
+                            ))}
+                            <button
+                                onClick={handleSaveBudget}
+                                disabled={isBudgetSaving}
+                                className="bg-primary text-background px-4 py-2 rounded-md hover:bg-primary-hover font-semibold transition-colors text-sm disabled:opacity-50"
+                            >
+                                {isBudgetSaving ? 'Saving...' : 'Save'}
+                            </button>
+                        </div>
                     </div>
-                    <button
-                        onClick={handleToggleCache}
-                        disabled={isCacheLoading}
-                        className={`ml-4 relative inline-flex h-7 w-14 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background disabled:opacity-50 disabled:cursor-not-allowed ${cacheEnabled ? 'bg-primary' : 'bg-surface-light'
-                            }`}
-                    >
-                        <span
-                            className={`pointer-events-none inline-block h-6 w-6 transform rounded-full bg-white shadow-lg ring-0 transition duration-200 ease-in-out ${cacheEnabled ? 'translate-x-7' : 'translate-x-0'
-                                }`}
-                        />
-                    </button>
-                </div>
-            </div>
 
-            <div className="mt-8 bg-surface p-6 rounded-xl border border-accent/30">
-                <h2 className="text-xl font-bold text-accent">Danger Zone</h2>
-                <p className="text-sm text-text-secondary mt-2 mb-6">These actions are irreversible. Please proceed with caution.</p>
-                <button
-                    onClick={() => setIsModalOpen(true)}
-                    className="bg-accent text-white px-4 py-2 rounded-md hover:bg-accent-hover transition-colors flex items-center gap-2 text-sm font-semibold"
-                >
-                    <TrashIcon /> Reset All User Data
-                </button>
-            </div>
+                    <ClinicContactSettings showToast={showToast} />
+
+                    <LlmModelSettings showToast={showToast} />
+                </div>
+            )}
+
+            {(canResetData || canManageAdmins) && (
+                <div className="mt-8 bg-surface p-6 rounded-xl border border-accent/30">
+                    <h2 className="text-xl font-bold text-accent">Danger Zone</h2>
+                    <p className="text-sm text-text-secondary mt-2 mb-6">These actions are irreversible. Please proceed with caution.</p>
+                    <div className="flex flex-wrap gap-3">
+                        {canResetData && (
+                            <button
+                                onClick={() => setIsModalOpen(true)}
+                                className="bg-accent text-white px-4 py-2 rounded-md hover:bg-accent-hover transition-colors flex items-center gap-2 text-sm font-semibold"
+                            >
+                                <TrashIcon /> Reset All User Data
+                            </button>
+                        )}
+                        {canManageAdmins && (
+                            <button
+                                onClick={() => setIsRevokeModalOpen(true)}
+                                className="bg-accent/20 text-accent border border-accent/30 px-4 py-2 rounded-md hover:bg-accent/30 transition-colors flex items-center gap-2 text-sm font-semibold"
+                            >
+                                Sign Out All Admin Sessions
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
 
             <ConfirmModal
                 isOpen={isModalOpen}
@@ -310,6 +516,14 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ faqs, stats, loading, ref
                 title="Reset All User Data?"
                 message="DANGER: This will delete ALL users, conversations, and messages, and reset all FAQ counters. This action is irreversible. Are you sure you want to proceed?"
             />
+
+            <ConfirmModal
+                isOpen={isRevokeModalOpen}
+                onClose={() => setIsRevokeModalOpen(false)}
+                onConfirm={handleRevokeAllSessions}
+                title="Sign Out All Admin Sessions?"
+                message="Every device logged in to the dashboard, including this one, will be signed out immediately. Use this if a device with dashboard access was lost or stolen."
+            />
         </div>
     );
 };
@@ -1,8 +1,9 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import type { FAQ, Media } from '../types';
+import type { FAQ, FAQRevision, Media } from '../types';
 import { api } from '../lib/apiClient';
-import { PlusIcon, TrashIcon, EditIcon, SpinnerIcon } from '../components/icons';
+import { PlusIcon, TrashIcon, EditIcon, SpinnerIcon, TimeIcon } from '../components/icons';
+import DiffView from '../components/DiffView';
 import Papa from 'papaparse';
 
 interface ManageFaqsPageProps {
@@ -13,6 +14,192 @@ interface ManageFaqsPageProps {
   showToast: (message: string, type: 'success' | 'error') => void;
 }
 
+const parseMediaIds = (value: unknown): number[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+// Shape used for diffing: media shown by title so the diff is readable
+const toComparableFaq = (item: { question?: string; answer?: string; intent?: string; media_ids?: unknown }, media: Media[]) => ({
+  question: item.question || '',
+  answer: item.answer || '',
+  intent: item.intent || '',
+  media: parseMediaIds(item.media_ids)
+    .map(id => media.find(m => m.id === id)?.title || `#${id}`)
+    .join(', '),
+});
+
+const FAQHistoryPanel = ({ faqId, current, media, onRestored, showToast }: { faqId: number, current: Partial<FAQ>, media: Media[], onRestored: (faq: FAQ) => void, showToast: (message: string, type: 'success' | 'error') => void }) => {
+  const [revisions, setRevisions] = useState<FAQRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const selected = revisions.find(r => r.id === selectedId) || null;
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    try {
+      const data = await api.getFaqRevisions(faqId);
+      setRevisions(data);
+      setSelectedId(prev => prev ?? data[0]?.id ?? null);
+    } catch (error: any) {
+      console.error('Error loading FAQ history:', error);
+      showToast(`Failed to load history: ${error.message || 'Unknown error'}`, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [faqId]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      const restored = await api.restoreFaqRevision(faqId, selected.id);
+      onRestored(restored);
+      setSelectedId(null);
+      await loadRevisions();
+      showToast('Revision restored. The replaced version was added to the history.', 'success');
+    } catch (error: any) {
+      console.error('Error restoring revision:', error);
+      showToast(`Failed to restore revision: ${error.message || 'Unknown error'}`, 'error');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (isLoading && revisions.length === 0) {
+    return <div className="flex justify-center py-6"><SpinnerIcon /></div>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-xs text-text-secondary/70 italic py-2">No earlier versions. A revision is saved each time this FAQ is edited.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {revisions.map(revision => (
+          <button
+            key={revision.id}
+            type="button"
+            onClick={() => setSelectedId(revision.id)}
+            className={`flex-shrink-0 text-left px-3 py-1.5 rounded-md border text-xs transition-colors ${revision.id === selectedId ? 'border-primary bg-primary/10 text-primary' : 'border-border bg-surface-light hover:bg-surface'}`}
+          >
+            <span className="block font-semibold">{new Date(revision.created_at).toLocaleString()}</span>
+            <span className="block text-text-secondary">
+              {revision.reason === 'delete' ? 'Deleted' : revision.reason === 'restore' ? 'Replaced by restore' : 'Replaced by edit'}{revision.created_by ? ` · ${revision.created_by}` : ''}
+            </span>
+          </button>
+        ))}
+      </div>
+      {selected && (
+        <>
+          <DiffView
+            before={toComparableFaq(selected, media)}
+            after={toComparableFaq(current, media)}
+            layout="split"
+            beforeLabel={`Revision from ${new Date(selected.created_at).toLocaleString()}`}
+            afterLabel="Current"
+          />
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="px-3 py-1.5 rounded-md bg-secondary/20 text-secondary hover:bg-secondary/30 transition-colors flex items-center gap-2 disabled:opacity-50 text-sm font-semibold"
+            >
+              {isRestoring && <SpinnerIcon />}
+              Restore this version
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const DeletedFAQsPanel = ({ faqCount, refreshData, showToast }: { faqCount: number, refreshData: () => void, showToast: (message: string, type: 'success' | 'error') => void }) => {
+  const [deletedFaqs, setDeletedFaqs] = useState<FAQRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const loadDeletedFaqs = async () => {
+    setIsLoading(true);
+    try {
+      setDeletedFaqs(await api.getDeletedFaqs());
+    } catch (error: any) {
+      console.error('Error loading deleted FAQs:', error);
+      showToast(`Failed to load deleted FAQs: ${error.message || 'Unknown error'}`, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reloaded when FAQs are deleted or restored
+  useEffect(() => {
+    loadDeletedFaqs();
+  }, [faqCount]);
+
+  const handleRestore = async (revision: FAQRevision) => {
+    setRestoringId(revision.id);
+    try {
+      await api.restoreFaqRevision(revision.faq_id, revision.id);
+      showToast('FAQ restored.', 'success');
+      refreshData();
+    } catch (error: any) {
+      console.error('Error restoring FAQ:', error);
+      showToast(`Failed to restore FAQ: ${error.message || 'Unknown error'}`, 'error');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading && deletedFaqs.length === 0) {
+    return <div className="flex justify-center py-6"><SpinnerIcon /></div>;
+  }
+
+  if (deletedFaqs.length === 0) {
+    return <p className="text-xs text-text-secondary/70 italic py-2">No deleted FAQs.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {deletedFaqs.map(revision => (
+        <div key={revision.id} className="bg-surface-light p-4 rounded-md border border-border flex flex-col md:flex-row justify-between md:items-start gap-3">
+          <div className="max-w-4xl">
+            <h4 className="font-semibold text-sm text-text-primary">{revision.question}</h4>
+            <p className="text-text-secondary text-xs whitespace-pre-wrap mt-1">{revision.answer}</p>
+            <p className="text-xs text-text-secondary/70 mt-2">
+              Deleted {new Date(revision.created_at).toLocaleString()}{revision.created_by ? ` · ${revision.created_by}` : ''}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => handleRestore(revision)}
+            disabled={restoringId !== null}
+            className="px-3 py-1.5 rounded-md bg-secondary/20 text-secondary hover:bg-secondary/30 transition-colors flex items-center gap-2 disabled:opacity-50 text-sm font-semibold flex-shrink-0 self-start"
+          >
+            {restoringId === revision.id && <SpinnerIcon />}
+            Restore
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const FAQModal = ({ faq, media, onClose, refreshData, showToast }: { faq: Partial<FAQ> | null, media: Media[], onClose: () => void, refreshData: () => void, showToast: (message: string, type: 'success' | 'error') => void }) => {
   const [question, setQuestion] = useState(faq?.question || '');
   const [answer, setAnswer] = useState(faq?.answer || '');
@@ -20,6 +207,8 @@ const FAQModal = ({ faq, media, onClose, refreshData, showToast }: { faq: Partia
   const [selectedMediaIds, setSelectedMediaIds] = useState<number[]>(faq?.media_ids || []);
   const [isSaving, setIsSaving] = useState(false);
   const [isGeneratingIntent, setIsGeneratingIntent] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [savedFaq, setSavedFaq] = useState<Partial<FAQ> | null>(faq);
   const isEditing = !!faq?.id;
 
   // Ensure selectedMediaIds and intent syncs with FAQ when FAQ changes
@@ -55,6 +244,16 @@ const FAQModal = ({ faq, media, onClose, refreshData, showToast }: { faq: Partia
     }
   }, [faq?.id, faq?.media_ids, faq?.intent, media]);
 
+  const handleRestored = (restored: FAQ) => {
+    setSavedFaq(restored);
+    setQuestion(restored.question);
+    setAnswer(restored.answer);
+    setIntent(restored.intent);
+    const validMediaIds = media.map(m => m.id);
+    setSelectedMediaIds(parseMediaIds(restored.media_ids).filter(id => validMediaIds.includes(id)));
+    refreshData();
+  };
+
   const toggleMediaSelection = (mediaId: number) => {
     setSelectedMediaIds(prev =>
       prev.includes(mediaId)
@@ -114,8 +313,24 @@ const FAQModal = ({ faq, media, onClose, refreshData, showToast }: { faq: Partia
 
   return (
     <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4" onClick={onClose}>
-      <div className="bg-surface rounded-lg shadow-xl p-6 w-full max-w-xl border border-border max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
-        <h2 className="text-xl font-bold mb-4">{isEditing ? 'Edit FAQ' : 'Add FAQ'}</h2>
+      <div className={`bg-surface rounded-lg shadow-xl p-6 w-full ${showHistory ? 'max-w-4xl' : 'max-w-xl'} border border-border max-h-[90vh] overflow-y-auto`} onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">{isEditing ? 'Edit FAQ' : 'Add FAQ'}</h2>
+          {isEditing && (
+            <button
+              type="button"
+              onClick={() => setShowHistory(prev => !prev)}
+              className={`px-3 py-1.5 rounded-md text-sm flex items-center gap-1.5 transition-colors ${showHistory ? 'bg-primary/20 text-primary' : 'bg-surface-light hover:opacity-80'}`}
+            >
+              <TimeIcon className="w-4 h-4" /> History
+            </button>
+          )}
+        </div>
+        {isEditing && showHistory && faq?.id && savedFaq && (
+          <div className="mb-4 pb-4 border-b border-border">
+            <FAQHistoryPanel faqId={faq.id} current={savedFaq} media={media} onRestored={handleRestored} showToast={showToast} />
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="space-y-3">
           <div>
             <label htmlFor="question" className="block text-xs font-medium text-text-secondary mb-1">Question</label>
@@ -283,6 +498,7 @@ const ManageFaqsPage: React.FC<ManageFaqsPageProps> = ({ faqs, media, refreshDat
   const [selectedFaq, setSelectedFaq] = useState<Partial<FAQ> | null>(null);
   const [deleteModalState, setDeleteModalState] = useState<{ isOpen: boolean; faqId: number | null; isDeleteAll: boolean; }>({ isOpen: false, faqId: null, isDeleteAll: false });
   const [isImporting, setIsImporting] = useState(false);
+  const [showDeleted, setShowDeleted] = useState(false);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const openFaqModal = (faq: Partial<FAQ> | null = null) => {
@@ -454,7 +670,7 @@ const ManageFaqsPage: React.FC<ManageFaqsPageProps> = ({ faqs, media, refreshDat
           }
         }}
         title={deleteModalState.isDeleteAll ? "Delete All FAQs?" : "Delete FAQ?"}
-        message={deleteModalState.isDeleteAll ? `Are you sure you want to delete all ${faqs.length} FAQs? This is irreversible.` : "Are you sure you want to permanently delete this FAQ?"}
+        message={deleteModalState.isDeleteAll ? `Are you sure you want to delete all ${faqs.length} FAQs? They can be restored from Deleted FAQs.` : "Are you sure you want to delete this FAQ? It can be restored from Deleted FAQs."}
       />
       <div className="flex flex-col md:flex-row justify-between md:items-center mb-6 gap-4">
         <div>
@@ -475,6 +691,12 @@ const ManageFaqsPage: React.FC<ManageFaqsPageProps> = ({ faqs, media, refreshDat
           >
             <PlusIcon /> {isImporting ? 'Importing...' : 'Import CSV'}
           </button>
+          <button
+            onClick={() => setShowDeleted(prev => !prev)}
+            className={`px-3 sm:px-4 py-2 rounded-md transition-colors flex items-center gap-2 text-xs sm:text-sm whitespace-nowrap ${showDeleted ? 'bg-primary/20 text-primary' : 'bg-surface-light hover:opacity-80'}`}
+          >
+            <TimeIcon className="w-4 h-4" /> Deleted FAQs
+          </button>
           {faqs.length > 0 && (
             <>
               <button
@@ -494,6 +716,13 @@ const ManageFaqsPage: React.FC<ManageFaqsPageProps> = ({ faqs, media, refreshDat
         </div>
       </div>
 
+      {showDeleted && (
+        <div className="mb-6 bg-surface p-4 rounded-lg border border-border">
+          <h3 className="font-bold mb-2">Deleted FAQs</h3>
+          <DeletedFAQsPanel faqCount={faqs.length} refreshData={refreshData} showToast={showToast} />
+        </div>
+      )}
+
       <div className="space-y-4">
         <input
           type="file"
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { SpinnerIcon, TrashIcon, DragHandleIcon, RefreshIcon } from '../components/icons';
 import { api } from '../lib/apiClient';
 import ConfirmDeleteModal from '../components/ConfirmDeleteModal';
@@ -357,6 +358,14 @@ const ReportsPage: React.FC<ReportsPageProps> = ({ showToast }) => {
                                                     )}
                                                 </div>
                                                 <div className="flex items-center gap-2 flex-shrink-0">
+                                                    {report.query_id && (
+                                                        <Link
+                                                            to={`/dashboard/traces/${encodeURIComponent(report.query_id)}`}
+                                                            className="px-3 py-1.5 text-xs rounded-lg bg-primary/20 text-primary border border-primary/30 font-semibold hover:bg-primary/30 transition-colors whitespace-nowrap"
+                                                        >
+                                                            View trace
+                                                        </Link>
+                                                    )}
                                                     <button
                                                         onClick={(e) => {
                                                             e.stopPropagation();
@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { api } from '../lib/apiClient';
+import type { PipelineTrace } from '../types';
+import { SpinnerIcon, RefreshIcon } from '../components/icons';
+
+interface TraceViewerPageProps {
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const STEP_STYLES: Record<string, string> = {
+    ran: 'bg-primary/20 text-primary',
+    skipped: 'bg-surface-light text-text-secondary',
+    failed: 'bg-accent/20 text-accent',
+};
+
+const CACHE_LABELS: Record<string, string> = {
+    full_hit: 'Full hit (answer reused)',
+    partial_hit: 'Partial hit (intent and route reused)',
+    semantic_hit: 'Semantic hit (route and FAQ of a similar intent reused)',
+    miss: 'Miss',
+    bypass: 'Bypassed',
+    disabled: 'Disabled',
+};
+
+// Traces recorded before cost accounting have no costUsd
+const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 0.01 ? 6 : 4)}`;
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <div>
+        <dt className="text-xs font-medium text-text-secondary">{label}</dt>
+        <dd className="text-sm text-text-primary break-words">{children}</dd>
+    </div>
+);
+
+const TraceViewerPage: React.FC<TraceViewerPageProps> = ({ showToast }) => {
+    const { queryId } = useParams<{ queryId: string }>();
+    const navigate = useNavigate();
+    const [trace, setTrace] = useState<PipelineTrace | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [notFound, setNotFound] = useState(false);
+
+    useEffect(() => {
+        loadTrace();
+    }, [queryId]);
+
+    const loadTrace = async () => {
+        if (!queryId) return;
+        setIsLoading(true);
+        setNotFound(false);
+        try {
+            const data = await api.getTrace(queryId);
+            setTrace(data.trace);
+        } catch (error: any) {
+            setTrace(null);
+            if (error?.message === 'Trace not found') {
+                setNotFound(true);
+            } else {
+                console.error('Error loading trace:', error);
+                showToast(`Failed to load trace: ${error?.message || 'Unknown error'}`, 'error');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const slowestMs = trace ? Math.max(1, ...trace.steps.map(step => step.ms)) : 1;
+
+    return (
+        <div className="p-4 md:p-8 space-y-6 animate-fade-in-up max-w-5xl mx-auto">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+                <div className="min-w-0">
+                    <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-text-primary mb-1 sm:mb-2">
+                        Query Trace
+                    </h1>
+                    <p className="text-sm text-text-secondary font-mono truncate">{queryId}</p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => navigate(-1)}
+                        className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors text-sm"
+                    >
+                        Back
+                    </button>
+                    <button
+                        onClick={loadTrace}
+                        disabled={isLoading}
+                        className="bg-surface-light text-text-primary px-4 py-2 rounded-full hover:bg-primary hover:text-background font-semibold transition-colors flex items-center gap-2 text-sm disabled:opacity-50"
+                    >
+                        <RefreshIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+                    </button>
+                </div>
+            </div>
+
+            {isLoading && !trace ? (
+                <div className="flex justify-center items-center py-12">
+                    <SpinnerIcon className="w-8 h-8 text-primary" />
+                </div>
+            ) : !trace ? (
+                <div className="bg-surface border border-border rounded-2xl text-center py-12 text-text-secondary">
+                    <p>{notFound ? 'No trace was recorded for this query. Messages sent before tracing was added have none.' : 'Trace unavailable.'}</p>
+                </div>
+            ) : (
+                <>
+                    {/* Decisions */}
+                    <div className="bg-surface border border-border rounded-2xl p-4 md:p-6">
+                        <h2 className="text-lg font-semibold text-text-primary mb-4">Decisions</h2>
+                        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <Field label="Message">{trace.message}</Field>
+                            <Field label="Language">{trace.language || '—'}</Field>
+                            <Field label="English query">{trace.englishQuery || <span className="text-text-secondary">Same as message</span>}</Field>
+                            <Field label="Canonical intent">{trace.canonicalIntent || '—'}</Field>
+                            <Field label="Route">
+                                {trace.route || '—'}
+                                {trace.routeModel && <span className="text-text-secondary font-mono text-xs"> via {trace.routeModel}</span>}
+                            </Field>
+                            <Field label="Cache">
+                                {trace.cache ? CACHE_LABELS[trace.cache] || trace.cache : '—'}
+                                {trace.semanticMatch && (
+                                    <span className="text-text-secondary text-xs"> "{trace.semanticMatch.intent}" at {trace.semanticMatch.similarity.toFixed(3)}</span>
+                                )}
+                            </Field>
+                            <Field label="LLM selection">
+                                {trace.selection
+                                    ? <>{trace.selection.faqId !== null ? `FAQ #${trace.selection.faqId}` : 'No match'}{trace.selection.model && <span className="text-text-secondary font-mono text-xs"> via {trace.selection.model}</span>}</>
+                                    : '—'}
+                            </Field>
+                            <Field label="Answered with">{trace.faqId !== null ? `FAQ #${trace.faqId}` : 'Generated / fixed reply'}</Field>
+                            <Field label="Budget">
+                                {!trace.budgetLevel ? '—' : trace.budgetLevel === 'normal' ? 'Within budget' : <span className="text-accent">Degraded: {trace.budgetLevel}</span>}
+                            </Field>
+                            <Field label="Safety">
+                                {trace.safetyFlag ? <span className="text-accent">Flagged: {trace.safetyFlag}</span> : '—'}
+                            </Field>
+                            <Field label="Pipeline version">v{trace.pipelineVersion}</Field>
+                            <Field label="Recorded">{new Date(trace.createdAt).toLocaleString()}</Field>
+                        </dl>
+                        {trace.fallbacks?.length > 0 && (
+                            <div className="mt-4">
+                                <p className="text-xs font-medium text-text-secondary mb-1">Fallbacks</p>
+                                <ul className="text-sm bg-surface-light rounded-lg p-3 space-y-1">
+                                    {trace.fallbacks.map((fallback, index) => (
+                                        <li key={index}>
+                                            <span className="font-mono text-accent">{fallback.step}</span>
+                                            <span className="text-text-secondary"> in {fallback.stage}: {fallback.reason}</span>
+                                            <span className="text-text-primary"> → {fallback.fallback}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                        {trace.answer && (
+                            <div className="mt-4">
+                                <p className="text-xs font-medium text-text-secondary mb-1">Answer</p>
+                                <p className="text-sm text-text-primary bg-surface-light rounded-lg p-3 whitespace-pre-wrap">{trace.answer}</p>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Candidates */}
+                    <div className="bg-surface border border-border rounded-2xl p-4 md:p-6">
+                        <h2 className="text-lg font-semibold text-text-primary mb-4">FAQ Candidates</h2>
+                        {trace.candidates.length === 0 ? (
+                            <p className="text-sm text-text-secondary">No embedding search ran for this query.</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs text-text-secondary">
+                                        <th className="pb-2 font-medium">#</th>
+                                        <th className="pb-2 font-medium">FAQ</th>
+                                        <th className="pb-2 font-medium">Intent</th>
+                                        <th className="pb-2 font-medium text-right">Score</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-border">
+                                    {trace.candidates.map((candidate, index) => (
+                                        <tr key={candidate.faqId} className={candidate.faqId === trace.selection?.faqId ? 'text-primary font-semibold' : 'text-text-primary'}>
+                                            <td className="py-2">{index + 1}</td>
+                                            <td className="py-2">#{candidate.faqId}</td>
+                                            <td className="py-2">{candidate.intent}</td>
+                                            <td className="py-2 text-right font-mono">{candidate.score.toFixed(4)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+
+                    {/* Steps */}
+                    <div className="bg-surface border border-border rounded-2xl p-4 md:p-6">
+                        <div className="flex justify-between items-baseline mb-4">
+                            <h2 className="text-lg font-semibold text-text-primary">Steps</h2>
+                            <p className="text-xs text-text-secondary">
+                                {trace.totalMs}ms total · {trace.usage.totalTokens} tokens ({trace.usage.promptTokens} prompt, {trace.usage.completionTokens} completion) · {formatUsd(trace.usage.costUsd ?? 0)}
+                            </p>
+                        </div>
+                        <ul className="space-y-2">
+                            {trace.steps.map((step, index) => (
+                                <li key={`${step.name}-${index}`} className="text-sm">
+                                    <div className="flex items-center gap-3">
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold w-16 text-center ${STEP_STYLES[step.status]}`}>
+                                            {step.status}
+                                        </span>
+                                        <span className={`font-mono w-40 truncate ${step.status === 'skipped' ? 'text-text-secondary' : 'text-text-primary'}`}>{step.name}</span>
+                                        <div className="flex-1 h-2 bg-surface-light rounded-full overflow-hidden">
+                                            <div className="h-full bg-primary" style={{ width: `${(step.ms / slowestMs) * 100}%` }} />
+                                        </div>
+                                        <span className="w-16 text-right text-xs text-text-secondary">{step.status === 'skipped' ? '' : `${step.ms}ms`}</span>
+                                    </div>
+                                    {(step.decision || step.llmCalls.length > 0) && (
+                                        <div className="ml-[13.75rem] mt-1 text-xs text-text-secondary space-y-0.5">
+                                            {step.decision && <p>→ {step.decision}</p>}
+                                            {step.llmCalls.map((call, callIndex) => (
+                                                <p key={callIndex} className="font-mono">
+                                                    {call.kind} {call.model}: {call.promptTokens} + {call.completionTokens} tokens{call.costUsd !== undefined && ` · ${formatUsd(call.costUsd)}`}
+                                                </p>
+                                            ))}
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TraceViewerPage;
@@ -1,11 +1,25 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { api } from '../lib/apiClient';
-import type { UserWithStats, User, Conversation, ChatMessage, Media, FAQ } from '../types';
+import type { UserWithStats, User, Conversation, ChatMessage, Media, FAQ, SafetyFlag } from '../types';
 import { SpinnerIcon, SearchIcon, BotIcon, UserCircleIcon, ChatIcon, BackIcon, VideoIcon, ImageIcon, ChipIcon } from '../components/icons';
 
 const SUGGESTION_PREFIX = '__FAQ_SUGGESTIONS__';
 const SUGGESTION_CHOICE_PREFIX = '__FAQ_SUGGESTION_CHOICE__';
 
+// Set by the chat pipeline's safety screening (lib/pipeline/safety.ts)
+const SAFETY_FLAG_LABELS: Record<SafetyFlag, string> = {
+    prompt_injection: 'Prompt injection',
+    self_harm: 'Self-harm',
+    abuse: 'Abuse',
+};
+
+const FlagBadge: React.FC<{ label: string }> = ({ label }) => (
+    <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full bg-red-500/10 text-red-400 border border-red-500/30 whitespace-nowrap flex-shrink-0">
+        {label}
+    </span>
+);
+
 const renderFormattedText = (text: string, isUserMessage: boolean = false) => {
     const boldColorClass = isUserMessage ? 'text-background/90' : 'text-primary';
     const applyPattern = (
@@ -86,6 +100,8 @@ const UserConversationsPage: React.FC = () => {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [loading, setLoading] = useState({ users: true, messages: false });
     const [searchTerm, setSearchTerm] = useState('');
+    const [flaggedConversationIds, setFlaggedConversationIds] = useState<Set<number>>(new Set());
+    const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
     const fetchAndProcessData = useCallback(async () => {
@@ -96,6 +112,7 @@ const UserConversationsPage: React.FC = () => {
             const data = await api.getAdminConversationsWithUsers();
 
             const userMap = new Map<string, { user: User; convos: Conversation[]; totalMessages: number; totalTimeSpent: number; lastActive: string }>();
+            const flaggedIds = new Set<number>();
 
             // Process conversations and count messages per user
             for (const convo of data || []) {
@@ -114,6 +131,7 @@ const UserConversationsPage: React.FC = () => {
                         // Only count user messages, not bot messages
                         const userMessages = messages.filter(msg => msg.sender === 'user');
                         userEntry.totalMessages += userMessages.length;
+                        if (userMessages.some(msg => msg.safetyFlag)) flaggedIds.add(convo.id);
 
                         // Update last active to the most recent user message
                         if (userMessages.length > 0) {
@@ -173,6 +191,7 @@ const UserConversationsPage: React.FC = () => {
 
             setUsers(usersWithStats);
             setConversationsByUser(convosByUserMap);
+            setFlaggedConversationIds(flaggedIds);
             const mediaList = await api.getAllMedia();
             setAllMedia(mediaList || []);
         } catch (err: any) {
@@ -219,13 +238,19 @@ const UserConversationsPage: React.FC = () => {
         }
     };
 
+    const hasFlaggedConversation = useCallback((userId: string) => {
+        return (conversationsByUser.get(userId) || []).some(convo => flaggedConversationIds.has(convo.id));
+    }, [conversationsByUser, flaggedConversationIds]);
+
     const filteredUsers = useMemo(() => {
         return users.filter(user =>
             user.name.toLowerCase().includes(searchTerm.toLowerCase())
+            && (!showFlaggedOnly || hasFlaggedConversation(user.id))
         );
-    }, [users, searchTerm]);
+    }, [users, searchTerm, showFlaggedOnly, hasFlaggedConversation]);
 
-    const selectedUserConversations = selectedUser ? conversationsByUser.get(selectedUser.id) || [] : [];
+    const selectedUserConversations = (selectedUser ? conversationsByUser.get(selectedUser.id) || [] : [])
+        .filter(convo => !showFlaggedOnly || flaggedConversationIds.has(convo.id));
 
     const getMessageAttachments = (msg: ChatMessage): { url: string; title: string; type: 'image' | 'video' }[] => {
         if (!msg.mediaUrls) return [];
@@ -275,6 +300,15 @@ const UserConversationsPage: React.FC = () => {
                         />
                         <div className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary"><SearchIcon /></div>
                     </div>
+                    <label className="flex items-center gap-2 mt-3 text-xs text-text-secondary cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={showFlaggedOnly}
+                            onChange={(e) => setShowFlaggedOnly(e.target.checked)}
+                            className="accent-primary"
+                        />
+                        Only conversations with flagged messages ({flaggedConversationIds.size})
+                    </label>
                 </div>
                 <div className="flex-1 overflow-y-auto custom-scrollbar">
                     {loading.users ? (
@@ -316,7 +350,10 @@ const UserConversationsPage: React.FC = () => {
                                                 <UserCircleIcon className="w-6 h-6 text-primary" />
                                             </div>
                                             <div className="flex-1 min-w-0">
-                                                <div className="font-semibold text-sm text-text-primary truncate">{user.name}</div>
+                                                <div className="flex items-center gap-2 min-w-0">
+                                                    <div className="font-semibold text-sm text-text-primary truncate">{user.name}</div>
+                                                    {hasFlaggedConversation(user.id) && <FlagBadge label="Flagged" />}
+                                                </div>
                                                 <div className="flex items-center gap-2 mt-1">
                                                     <ChatIcon className="w-3 h-3 text-text-secondary/70" />
                                                     <span className="text-xs text-text-secondary">{user.message_count} {user.message_count === 1 ? 'message' : 'messages'}</span>
@@ -354,7 +391,9 @@ const UserConversationsPage: React.FC = () => {
                         </header>
                         <div className="flex-1 overflow-y-auto overflow-x-hidden custom-scrollbar p-4 md:p-6 space-y-6 bg-gradient-to-b from-background to-surface/10">
                             {selectedUserConversations.length === 0 ? (
-                                <div className="text-center py-10 text-text-secondary text-sm">This user has no conversations.</div>
+                                <div className="text-center py-10 text-text-secondary text-sm">
+                                    {showFlaggedOnly ? 'This user has no conversations with flagged messages.' : 'This user has no conversations.'}
+                                </div>
                             ) : (
                                 selectedUserConversations.map(convo => (
                                     <div key={convo.id} className="bg-surface/50 backdrop-blur-sm rounded-2xl border border-border/50 overflow-hidden shadow-md hover:border-primary/50 transition-all duration-300 max-w-full">
@@ -365,7 +404,11 @@ const UserConversationsPage: React.FC = () => {
                                             <div className="flex items-center gap-3 flex-1 min-w-0 overflow-hidden">
                                                 <ChatIcon className="w-5 h-5 text-primary flex-shrink-0" />
                                                 <div className="flex-1 min-w-0 overflow-hidden">
-                                                    <p className="font-semibold text-sm truncate">{convo.title || `Conversation #${convo.id}`}</p>
+                                                    <div className="flex items-center gap-2 min-w-0">
+                                                        <p className="font-semibold text-sm truncate">{convo.title || `Conversation #${convo.id}`}</p>
+                                                        {flaggedConversationIds.has(convo.id) && <FlagBadge label="Flagged" />}
+                                                        {convo.urgent_flagged_at && !convo.urgent_followed_up_at && <FlagBadge label="Urgent" />}
+                                                    </div>
                                                     <p className="text-xs text-text-secondary/70 truncate">{new Date(convo.created_at).toLocaleString()}</p>
                                                 </div>
                                             </div>
@@ -503,9 +546,18 @@ const UserConversationsPage: React.FC = () => {
                                                                                 )}
                                                                             </div>
 
-                                                                            {/* Timestamp */}
-                                                                            <div className={`text-xs mt-2 text-right ${alignRight ? 'text-background/70' : 'text-text-secondary/70'}`}>
-                                                                                {new Date(msg.created_at).toLocaleTimeString()}
+                                                                            {/* Safety flag, timestamp and trace link */}
+                                                                            <div className={`text-xs mt-2 flex justify-end items-center gap-3 ${alignRight ? 'text-background/70' : 'text-text-secondary/70'}`}>
+                                                                                {msg.safetyFlag && <FlagBadge label={SAFETY_FLAG_LABELS[msg.safetyFlag]} />}
+                                                                                {!alignRight && msg.queryId && (
+                                                                                    <Link
+                                                                                        to={`/dashboard/traces/${encodeURIComponent(msg.queryId)}`}
+                                                                                        className="text-primary hover:underline font-semibold"
+                                                                                    >
+                                                                                        View trace
+                                                                                    </Link>
+                                                                                )}
+                                                                                <span>{new Date(msg.created_at).toLocaleTimeString()}</span>
                                                                             </div>
                                                                         </div>
                                                                     </div>
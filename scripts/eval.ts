@@ -0,0 +1,165 @@
+/**
+ * Offline FAQ-matching evaluation
+ *
+ *   npm run eval                              # run evals/faq-matching.json, compare with the stored baseline
+ *   npm run eval -- --save                    # also store the report as evals/results/pipeline-v<PIPELINE_VERSION>.json
+ *   npm run eval -- --baseline 1              # compare against a specific pipeline version
+ *   npm run eval -- --tolerance 0.02          # allow small drops (absolute, 0-1) before failing
+ *   npm run eval -- --dataset path/to/cases.json
+ *
+ * Uses the same database, providers and model assignments as the app (LOCAL_MODE=true for the mock).
+ * Exits with status 1 when any metric regresses against the baseline.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import {
+  detectLanguage,
+  getTopFAQs,
+  rewriteToCanonicalIntent,
+  selectBestFAQWithLLM,
+  selectPipelineVersion,
+  strictRouter,
+  translateToEnglish,
+} from '../lib/pipeline';
+import { buildReport, findRegressions, type EvalCase, type EvalMetrics, type EvalReport, type EvalResult } from '../lib/evaluation';
+import { createLlmForRequest, type Llm } from '../lib/llm';
+import { DEFAULT_LLM_POLICY } from '../lib/llmResilience';
+import { createDb } from '../lib/turso';
+import * as dbHelpers from '../lib/dbHelpers';
+
+const RESULTS_DIR = join(process.cwd(), 'evals', 'results');
+const DEFAULT_DATASET = join(process.cwd(), 'evals', 'faq-matching.json');
+
+function loadEnvFiles() {
+  for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) process.loadEnvFile(file);
+  }
+}
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function resultsPath(version: number): string {
+  return join(RESULTS_DIR, `pipeline-v${version}.json`);
+}
+
+/**
+ * The stored report for --baseline, else this version's, else the newest older one
+ */
+function loadBaseline(version: number): EvalReport | null {
+  const requested = argValue('--baseline');
+  if (requested) {
+    const path = resultsPath(Number(requested));
+    if (!existsSync(path)) throw new Error(`No stored results for pipeline version ${requested}`);
+    return JSON.parse(readFileSync(path, 'utf8'));
+  }
+  if (!existsSync(RESULTS_DIR)) return null;
+  const versions = readdirSync(RESULTS_DIR)
+    .map(file => file.match(/^pipeline-v(\d+)\.json$/)?.[1])
+    .filter((v): v is string => !!v)
+    .map(Number)
+    .filter(v => v <= version)
+    .sort((a, b) => b - a);
+  return versions.length > 0 ? JSON.parse(readFileSync(resultsPath(versions[0]), 'utf8')) : null;
+}
+
+async function evaluateCase(testCase: EvalCase, faqs: any[], llm: Llm): Promise<EvalResult> {
+  const detected = detectLanguage(testCase.query);
+  const englishQuery = await translateToEnglish(testCase.query, detected, llm);
+  const canonicalIntent = await rewriteToCanonicalIntent(englishQuery, llm);
+  const route = await strictRouter(canonicalIntent, 'Eval', llm);
+
+  // Retrieval is measured for every case; selection only runs where the pipeline would run it
+  const topFAQs = getTopFAQs(await llm.embed(canonicalIntent), faqs, 5);
+  const selected = route === 'FAQ' ? await selectBestFAQWithLLM(canonicalIntent, topFAQs, llm) : null;
+
+  return {
+    query: testCase.query,
+    language: testCase.language || detected,
+    expectedFaqId: testCase.expectedFaqId,
+    expectedRoute: testCase.expectedRoute,
+    canonicalIntent,
+    route,
+    candidateIds: topFAQs.map(item => Number(item.faq.id)),
+    matchedFaqId: selected ? Number(selected.id) : null,
+  };
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '   n/a' : `${(value * 100).toFixed(1).padStart(5)}%`;
+}
+
+function printMetrics(label: string, metrics: EvalMetrics) {
+  console.log(
+    `  ${label.padEnd(8)} cases ${String(metrics.cases).padStart(4)}` +
+    `  top-1 ${formatRatio(metrics.top1Recall)}  top-5 ${formatRatio(metrics.top5Recall)}` +
+    `  match ${formatRatio(metrics.matchAccuracy)}  routing ${formatRatio(metrics.routingAccuracy)}` +
+    `  false positives ${metrics.falsePositives} (${formatRatio(metrics.falsePositiveRate).trim()})`
+  );
+}
+
+async function main() {
+  loadEnvFiles();
+  const datasetPath = argValue('--dataset') || DEFAULT_DATASET;
+  const tolerance = Number(argValue('--tolerance') || 0);
+  const cases: EvalCase[] = JSON.parse(readFileSync(datasetPath, 'utf8'));
+
+  const db = createDb();
+  // One client serves the whole run, so it gets no request deadline
+  const llm = await createLlmForRequest(db, { ...DEFAULT_LLM_POLICY, requestDeadlineMs: Infinity });
+  if (!llm) throw new Error('No LLM provider configured: set OPENAI_API_KEY (or use LOCAL_MODE=true for the mock LLM)');
+  const faqs = await dbHelpers.selectAll(db, 'faqs', 'id, question, answer, embedding, media_ids, intent');
+
+  const version = selectPipelineVersion();
+  console.log(`[EVAL] Pipeline v${version}, ${cases.length} cases, ${faqs.length} FAQs`);
+
+  const results: EvalResult[] = [];
+  for (const testCase of cases) {
+    results.push(await evaluateCase(testCase, faqs, llm));
+  }
+
+  const report = buildReport(version, relative(process.cwd(), datasetPath), results);
+
+  console.log('\nResults');
+  printMetrics('overall', report.overall);
+  Object.entries(report.byLanguage).forEach(([language, metrics]) => printMetrics(language, metrics!));
+
+  const misses = results.filter(r => r.matchedFaqId !== r.expectedFaqId || r.route !== r.expectedRoute);
+  if (misses.length > 0) {
+    console.log('\nMismatches');
+    misses.forEach(r => console.log(
+      `  "${r.query}" → intent "${r.canonicalIntent}", route ${r.route} (expected ${r.expectedRoute}), ` +
+      `FAQ ${r.matchedFaqId ?? 'NONE'} (expected ${r.expectedFaqId ?? 'NONE'}), candidates [${r.candidateIds.join(', ')}]`
+    ));
+  }
+
+  const baseline = loadBaseline(version);
+  const regressions = baseline ? findRegressions(baseline, report, tolerance) : [];
+  if (baseline) {
+    console.log(`\nBaseline: pipeline v${baseline.pipelineVersion} (${baseline.createdAt})`);
+    regressions.forEach(r => console.log(
+      `  REGRESSION ${r.scope} ${r.metric}: ${formatRatio(r.baseline).trim()} → ${formatRatio(r.current).trim()}`
+    ));
+    if (regressions.length === 0) console.log('  No regressions');
+  } else {
+    console.log('\nNo stored baseline; run with --save to create one');
+  }
+
+  if (process.argv.includes('--save') && regressions.length > 0) {
+    console.log('\n[EVAL] Not saved: fix the regressions or raise --tolerance first');
+  } else if (process.argv.includes('--save')) {
+    mkdirSync(RESULTS_DIR, { recursive: true });
+    writeFileSync(resultsPath(version), JSON.stringify(report, null, 2) + '\n');
+    console.log(`\n[EVAL] Saved ${relative(process.cwd(), resultsPath(version))}`);
+  }
+
+  if (regressions.length > 0) process.exit(1);
+}
+
+main().catch(error => {
+  console.error('[EVAL] Failed:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+/**
+ * Apply pending schema migrations from ./migrations
+ *
+ *   npm run db:migrate             # TURSO_DATABASE_URL from .env.local / .env, else file:local.db
+ *   LOCAL_MODE=true npm run db:migrate  # always the local file (LOCAL_DATABASE_URL or file:local.db)
+ *   npm run db:migrate -- --status # list applied and pending migrations without changing anything
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createClient } from '@libsql/client';
+import { getAppliedMigrations, parseMigrationFilename, runMigrations, type Migration } from '../lib/migrations';
+import { getDatabaseConfig } from '../lib/turso';
+
+const MIGRATIONS_DIR = join(process.cwd(), 'migrations');
+
+function loadEnvFiles() {
+  // Same precedence as Vite: .env.local overrides .env, real env vars override both
+  for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) process.loadEnvFile(file);
+  }
+}
+
+function loadMigrations(): Migration[] {
+  return readdirSync(MIGRATIONS_DIR)
+    .map(filename => {
+      const parsed = parseMigrationFilename(filename);
+      if (!parsed) return null;
+      return { ...parsed, sql: readFileSync(join(MIGRATIONS_DIR, filename), 'utf8') };
+    })
+    .filter((m): m is Migration => m !== null);
+}
+
+async function main() {
+  loadEnvFiles();
+  const config = getDatabaseConfig();
+  const db = createClient(config);
+  const migrations = loadMigrations();
+
+  console.log(`[MIGRATE] Database: ${config.url}`);
+
+  if (process.argv.includes('--status')) {
+    const applied = new Map((await getAppliedMigrations(db)).map(m => [m.version, m]));
+    migrations
+      .sort((a, b) => a.version - b.version)
+      .forEach(m => {
+        const row = applied.get(m.version);
+        console.log(`  ${row ? 'applied' : 'pending'}  ${String(m.version).padStart(4, '0')}_${m.name}${row ? `  (${row.applied_at})` : ''}`);
+      });
+    return;
+  }
+
+  const applied = await runMigrations(db, migrations, m => {
+    console.log(`[MIGRATE] Applying ${String(m.version).padStart(4, '0')}_${m.name}`);
+  });
+  console.log(applied.length === 0 ? '[MIGRATE] Schema is up to date' : `[MIGRATE] Applied ${applied.length} migration(s)`);
+}
+
+main().catch(error => {
+  console.error('[MIGRATE] Failed:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { buildReport, computeMetrics, findRegressions, type EvalResult } from '../lib/evaluation';
+
+function result(overrides: Partial<EvalResult>): EvalResult {
+  return {
+    query: 'q',
+    language: 'english',
+    expectedFaqId: null,
+    expectedRoute: 'FAQ',
+    canonicalIntent: 'intent',
+    route: 'FAQ',
+    candidateIds: [],
+    matchedFaqId: null,
+    ...overrides,
+  };
+}
+
+const RESULTS: EvalResult[] = [
+  result({ expectedFaqId: 1, candidateIds: [1, 2, 3], matchedFaqId: 1 }),                    // top-1, matched
+  result({ expectedFaqId: 2, candidateIds: [1, 3, 4, 5, 2], matchedFaqId: 1 }),              // top-5, wrong FAQ
+  result({ expectedFaqId: 3, candidateIds: [1, 2, 4, 5, 6, 3], matchedFaqId: null, language: 'urdu' }), // outside top 5
+  result({ expectedRoute: 'GREETING', route: 'GREETING', language: 'roman' }),               // correct non-match
+  result({ expectedRoute: 'GENERAL', route: 'FAQ', matchedFaqId: 4, language: 'roman' }),    // false positive, misrouted
+];
+
+describe('computeMetrics', () => {
+  it('computes recall over FAQ cases and accuracy over all cases', () => {
+    expect(computeMetrics(RESULTS)).toEqual({
+      cases: 5,
+      faqCases: 3,
+      top1Recall: 1 / 3,
+      top5Recall: 2 / 3,
+      matchAccuracy: 2 / 5,
+      routingAccuracy: 4 / 5,
+      falsePositives: 2,
+      falsePositiveRate: 2 / 5,
+    });
+  });
+
+  it('reports recall as null without FAQ cases', () => {
+    const metrics = computeMetrics([RESULTS[3]]);
+    expect(metrics.top1Recall).toBeNull();
+    expect(metrics.top5Recall).toBeNull();
+  });
+});
+
+describe('buildReport', () => {
+  it('breaks metrics down by language', () => {
+    const report = buildReport(1, 'evals/faq-matching.json', RESULTS);
+    expect(Object.keys(report.byLanguage)).toEqual(['english', 'urdu', 'roman']);
+    expect(report.byLanguage.english?.cases).toBe(2);
+    expect(report.byLanguage.roman?.falsePositives).toBe(1);
+  });
+});
+
+describe('findRegressions', () => {
+  const baseline = buildReport(1, 'dataset', RESULTS);
+
+  it('passes an identical run', () => {
+    expect(findRegressions(baseline, buildReport(2, 'dataset', RESULTS))).toEqual([]);
+  });
+
+  it('flags lower accuracy and more false positives, per scope', () => {
+    const worse = RESULTS.map((r, i) => (i === 0 ? { ...r, matchedFaqId: 5, candidateIds: [5, 1] } : r));
+    const regressions = findRegressions(baseline, buildReport(2, 'dataset', worse));
+
+    expect(regressions.map(r => `${r.scope}:${r.metric}`)).toEqual([
+      'overall:top1Recall',
+      'overall:matchAccuracy',
+      'overall:falsePositiveRate',
+      'english:top1Recall',
+      'english:matchAccuracy',
+      'english:falsePositiveRate',
+    ]);
+  });
+
+  it('allows drops within the tolerance', () => {
+    const worse = RESULTS.map((r, i) => (i === 3 ? { ...r, route: 'FAQ' } : r));
+    expect(findRegressions(baseline, buildReport(2, 'dataset', worse), 0.5)).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Seed data and golden conversations for the chat pipeline tests
+ */
+
+import type { MockChatRule } from '../../lib/mockLlm';
+import type { SuggestionChip } from '../../types';
+
+export interface FixtureFaq {
+  id: number;
+  question: string;
+  answer: string;
+  intent: string;
+  media_ids: number[];
+}
+
+export interface FixtureMedia {
+  id: number;
+  title: string;
+  type: 'image' | 'video';
+  url: string;
+}
+
+export interface FixtureSuggestionGroup {
+  keywords: string;
+  chips: SuggestionChip[];
+}
+
+export interface GoldenConversation {
+  name: string;
+  message: string;
+  language: 'english' | 'urdu' | 'roman';
+  script: MockChatRule[]; // LLM replies the real model would give (translations)
+  expected: {
+    text: string;
+    faqId: number | null;
+    mediaUrls: string[];
+    route: string;
+    canonicalIntent: string;
+  };
+}
+
+export const MEDIA: FixtureMedia[] = [
+  { id: 1, title: 'Brushing with braces', type: 'image', url: 'https://example.com/media/brushing.jpg' },
+  { id: 2, title: 'Applying orthodontic wax', type: 'image', url: 'https://example.com/media/wax.jpg' },
+];
+
+export const FAQS: FixtureFaq[] = [
+  {
+    id: 1,
+    question: 'How do I clean my braces?',
+    answer: 'Brush around every bracket with a soft toothbrush after each meal.',
+    intent: 'clean braces properly',
+    media_ids: [1],
+  },
+  {
+    id: 2,
+    question: 'What do I do if a wire is poking my cheek?',
+    answer: 'Cover the end of the wire with orthodontic wax and call the clinic.',
+    intent: 'wire poking cheek',
+    media_ids: [2],
+  },
+  {
+    id: 3,
+    question: 'How can I relieve pain after tightening?',
+    answer: 'Soft foods and a cold drink help for the first few days.',
+    intent: 'braces pain after tightening',
+    media_ids: [],
+  },
+];
+
+export const SUGGESTION_GROUPS: FixtureSuggestionGroup[] = [
+  {
+    keywords: 'wax',
+    chips: [
+      { text_en: 'Wire poking cheek', text_ur: 'تار گال میں چبھ رہی ہے', text_roman: 'Taar gaal mein chubh rahi hai', linked_faq_id: 2 },
+    ],
+  },
+];
+
+export const GOLDEN_CONVERSATIONS: GoldenConversation[] = [
+  {
+    name: 'English FAQ question',
+    message: 'How do I clean my braces properly?',
+    language: 'english',
+    script: [],
+    expected: {
+      text: 'Brush around every bracket with a soft toothbrush after each meal.',
+      faqId: 1,
+      mediaUrls: ['https://example.com/media/brushing.jpg'],
+      route: 'FAQ',
+      canonicalIntent: 'clean braces properly',
+    },
+  },
+  {
+    name: 'Urdu script FAQ question',
+    message: 'میری تار گال میں چبھ رہی ہے',
+    language: 'urdu',
+    script: [
+      { match: 'میری تار گال میں چبھ رہی ہے', response: 'The wire is poking my cheek' },
+      { match: /Translate into Urdu script/, response: 'تار کے سرے پر آرتھوڈونٹک ویکس لگائیں اور کلینک کو کال کریں۔' },
+    ],
+    expected: {
+      text: 'تار کے سرے پر آرتھوڈونٹک ویکس لگائیں اور کلینک کو کال کریں۔',
+      faqId: 2,
+      mediaUrls: ['https://example.com/media/wax.jpg'],
+      route: 'FAQ',
+      canonicalIntent: 'wire poking cheek',
+    },
+  },
+  {
+    name: 'Roman Urdu FAQ question',
+    message: 'braces ko kaise saaf karna hai',
+    language: 'roman',
+    script: [
+      { match: 'braces ko kaise saaf karna hai', response: 'How to clean braces properly' },
+      { match: /Translate into Roman Urdu/, response: 'Har khane ke baad naram toothbrush se har bracket ke ird gird brush karein.' },
+    ],
+    expected: {
+      text: 'Har khane ke baad naram toothbrush se har bracket ke ird gird brush karein.',
+      faqId: 1,
+      mediaUrls: ['https://example.com/media/brushing.jpg'],
+      route: 'FAQ',
+      canonicalIntent: 'clean braces properly',
+    },
+  },
+];
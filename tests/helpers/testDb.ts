@@ -0,0 +1,97 @@
+/**
+ * In-memory libSQL database with the real schema, for handler tests
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createClient, type Client } from '@libsql/client';
+import { parseMigrationFilename, runMigrations, type Migration } from '../../lib/migrations';
+import { mockEmbedding } from '../../lib/mockLlm';
+import * as dbHelpers from '../../lib/dbHelpers';
+import type { FixtureFaq, FixtureMedia, FixtureSuggestionGroup } from '../fixtures/chatFixtures';
+
+const MIGRATIONS_DIR = join(process.cwd(), 'migrations');
+
+function loadMigrations(): Migration[] {
+  return readdirSync(MIGRATIONS_DIR)
+    .map(filename => {
+      const parsed = parseMigrationFilename(filename);
+      return parsed ? { ...parsed, sql: readFileSync(join(MIGRATIONS_DIR, filename), 'utf8') } : null;
+    })
+    .filter((m): m is Migration => m !== null);
+}
+
+export async function createTestDb(): Promise<Client> {
+  const db = createClient({ url: ':memory:' });
+  await runMigrations(db, loadMigrations());
+  return db;
+}
+
+/**
+ * FAQs get the same mock embedding of their intent that the stubbed LLM returns for queries
+ */
+export async function seedDb(
+  db: Client,
+  seed: { faqs?: FixtureFaq[]; media?: FixtureMedia[]; suggestions?: FixtureSuggestionGroup[] }
+) {
+  for (const item of seed.media || []) {
+    await dbHelpers.insert(db, 'media', item);
+  }
+  for (const faq of seed.faqs || []) {
+    await dbHelpers.insert(db, 'faqs', {
+      ...faq,
+      media_ids: JSON.stringify(faq.media_ids),
+      embedding: JSON.stringify(mockEmbedding(faq.intent)),
+    });
+  }
+  for (const group of seed.suggestions || []) {
+    await dbHelpers.insert(db, 'suggestions', { keywords: group.keywords, chips_json: JSON.stringify(group.chips) });
+  }
+}
+
+// Strictly increasing timestamps, so seeded turns come back from the history in order
+let clock = Date.parse('2026-01-01T00:00:00.000Z');
+export function nextTimestamp(): string {
+  clock += 1000;
+  return new Date(clock).toISOString();
+}
+
+/**
+ * An earlier user turn (/api/chat stores the message being answered itself)
+ */
+export async function insertUserMessage(db: Client, text: string, conversationId: number | null = null) {
+  return dbHelpers.insert(db, 'chat_messages', {
+    conversation_id: conversationId,
+    sender: 'user',
+    text,
+    created_at: nextTimestamp(),
+  });
+}
+
+/**
+ * An earlier bot turn
+ */
+export async function insertBotMessage(
+  db: Client,
+  reply: { text: string; mediaUrls: string[]; queryId: string | null },
+  conversationId: number | null = null
+) {
+  return dbHelpers.insert(db, 'chat_messages', {
+    conversation_id: conversationId,
+    sender: 'bot',
+    text: reply.text,
+    media_urls: JSON.stringify(reply.mediaUrls),
+    query_id: reply.queryId,
+    created_at: nextTimestamp(),
+  });
+}
+
+export async function createConversation(db: Client, title = 'Test conversation') {
+  await dbHelpers.insert(db, 'users', { id: 'test-user', name: 'Test User' }).catch(() => undefined);
+  return dbHelpers.insert(db, 'conversations', { user_id: 'test-user', title });
+}
+
+export async function getMessages(db: Client) {
+  const result = await db.execute('SELECT * FROM chat_messages ORDER BY created_at ASC, id ASC');
+  return result.rows as any[];
+}
@@ -0,0 +1,365 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Client } from '@libsql/client';
+import { MockLLM } from '../lib/mockLlm';
+import { openAICompatibleProvider, type LlmProvider } from '../lib/llmProvider';
+import { DEFAULT_LLM_POLICY, LlmCallError, resetCircuitBreakers, type LlmCallPolicy } from '../lib/llmResilience';
+import {
+  createLlm,
+  defaultAssignments,
+  loadLlmAssignments,
+  saveLlmAssignments,
+  stubProviders,
+  type LlmProviders,
+  type LlmRecorder,
+} from '../lib/llm';
+import {
+  NO_EVENTS,
+  DEFAULT_PIPELINE_VERSION,
+  SAFE_FALLBACKS,
+  createPipelineContext,
+  finishTrace,
+  getPipeline,
+  runPipeline,
+  saveTrace,
+  strictRouter,
+  summarizeFallbacks,
+  type PipelineContext,
+} from '../lib/pipeline';
+import type { LlmCallRecord, TraceFallback } from '../types';
+import { UNKNOWN_MODEL_PRICE, estimateCost } from '../lib/llmUsage';
+import { createTestDb } from './helpers/testDb';
+
+let db: Client;
+let openai: MockLLM;
+let local: MockLLM;
+let providers: LlmProviders;
+
+// No backoff and short timeouts, so failures resolve quickly; deadlines have their own tests
+const POLICY: LlmCallPolicy = {
+  ...DEFAULT_LLM_POLICY,
+  requestDeadlineMs: Infinity,
+  timeoutMs: { routing: 50, intent: 50, selection: 50, translation: 50, generation: 50, embedding: 50 },
+  baseDelayMs: 0,
+  circuitFailureThreshold: 3,
+};
+
+function apiError(status: number) {
+  return Object.assign(new Error(`${status} status code`), { status });
+}
+
+/** `provider` with its chat calls replaced by `chat` */
+function withChat(provider: LlmProvider, chat: LlmProvider['chat']): LlmProvider {
+  return { ...provider, chat };
+}
+
+function recorder(): LlmRecorder & { calls: LlmCallRecord[]; fallbacks: Omit<TraceFallback, 'stage'>[] } {
+  const calls: LlmCallRecord[] = [];
+  const fallbacks: Omit<TraceFallback, 'stage'>[] = [];
+  return { calls, fallbacks, call: call => calls.push(call), fallback: fallback => fallbacks.push(fallback) };
+}
+
+afterEach(() => {
+  resetCircuitBreakers();
+  vi.useRealTimers();
+});
+
+beforeEach(async () => {
+  db = await createTestDb();
+  openai = new MockLLM();
+  local = new MockLLM();
+  providers = {
+    openai: openAICompatibleProvider('openai', openai),
+    compatible: openAICompatibleProvider('compatible', local),
+  };
+});
+
+describe('createLlm', () => {
+  it('runs each task on its assigned provider and model and reports usage', async () => {
+    const record = recorder();
+    const { calls } = record;
+    const llm = createLlm(providers, {
+      ...defaultAssignments(),
+      translation: { provider: 'compatible', model: 'llama3.1:8b' },
+    }, record);
+
+    await llm.chat('translation', { messages: [{ role: 'system', content: 'Translate to English only.' }, { role: 'user', content: 'salam' }] });
+    await llm.embed('wire poking cheek');
+
+    expect(local.calls.map(call => call.params.model)).toEqual(['llama3.1:8b']);
+    expect(openai.calls.map(call => [call.type, call.params.model])).toEqual([['embedding', 'text-embedding-3-small']]);
+    expect(calls.map(call => [call.kind, call.model])).toEqual([['chat', 'llama3.1:8b'], ['embedding', 'text-embedding-3-small']]);
+    expect(calls[0].costUsd).toBe(0); // self-hosted model
+  });
+
+  it('parses JSON-mode replies and streams tokens', async () => {
+    const llm = createLlm(providers, defaultAssignments());
+    expect(await llm.chatJson('translation', { messages: [{ role: 'user', content: 'Phrase: "wax"' }] })).toEqual({ urdu: 'wax', roman: 'wax' });
+    expect(openai.calls[0].params.response_format).toEqual({ type: 'json_object' });
+
+    const tokens: string[] = [];
+    const text = await llm.chat('generation', { messages: [{ role: 'user', content: 'tell me more' }], onToken: token => tokens.push(token) });
+    expect(tokens.join('')).toBe(text);
+  });
+
+  it('costs models missing from the price table at the conservative default', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const record = recorder();
+    const llm = createLlm(providers, { ...defaultAssignments(), intent: { provider: 'openai', model: 'gpt-new' } }, record);
+
+    await llm.chat('intent', { messages: [{ role: 'user', content: 'wire poking cheek' }] });
+    const [call] = record.calls;
+    expect(call.costUsd).toBeCloseTo(estimateCost('gpt-new', call.promptTokens, call.completionTokens), 12);
+    expect(call.costUsd).toBeCloseTo((call.promptTokens * UNKNOWN_MODEL_PRICE.input + call.completionTokens * UNKNOWN_MODEL_PRICE.output) / 1_000_000, 12);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('No price for model "gpt-new"'));
+    warn.mockRestore();
+  });
+
+  it('fails calls to a provider that is not configured', async () => {
+    const llm = createLlm({}, defaultAssignments());
+    await expect(llm.embed('wax')).rejects.toThrow('LLM provider "openai" is not configured');
+  });
+});
+
+describe('strictRouter', () => {
+  it('falls back to OpenAI when the assigned routing model fails', async () => {
+    const record = recorder();
+    const llm = createLlm({ openai: providers.openai }, {
+      ...defaultAssignments(),
+      routing: { provider: 'compatible', model: 'llama3.1:8b' },
+    }, record);
+    expect(await strictRouter('wire poking cheek', 'Test User', llm)).toBe('FAQ');
+    expect(openai.calls).toHaveLength(1);
+    expect(record.fallbacks).toEqual([{
+      step: 'strictRouter',
+      reason: 'routing on compatible llama3.1:8b failed: LLM provider "compatible" is not configured',
+      fallback: 'openai gpt-4o-mini',
+    }]);
+  });
+
+  it('records invalid labels and the final EDUCATION fallback', async () => {
+    openai.script('STRICT request router', 'Probably FAQ?');
+    const record = recorder();
+    expect(await strictRouter('wire poking cheek', 'Test User', createLlm(providers, defaultAssignments(), record))).toBe('EDUCATION');
+    expect(record.fallbacks).toEqual([{
+      step: 'strictRouter',
+      reason: 'openai gpt-4o-mini replied with an invalid label "Probably FAQ?"',
+      fallback: 'EDUCATION',
+    }]);
+  });
+});
+
+describe('resilience', () => {
+  it('retries retryable errors and reports only the successful call', async () => {
+    let failures = 2;
+    const flaky = withChat(providers.openai!, (model, options) => failures-- > 0
+      ? Promise.reject(apiError(503))
+      : providers.openai!.chat(model, options));
+    const record = recorder();
+    const llm = createLlm({ ...providers, openai: flaky }, defaultAssignments(), record, POLICY);
+
+    expect(await llm.chat('generation', { messages: [{ role: 'user', content: 'hello' }] })).toBe('[mock] hello');
+    expect(record.calls).toHaveLength(1);
+  });
+
+  it('does not retry bad requests', async () => {
+    let attempts = 0;
+    const broken = withChat(providers.openai!, () => {
+      attempts++;
+      return Promise.reject(apiError(400));
+    });
+    const record = recorder();
+    const llm = createLlm({ openai: broken }, defaultAssignments(), record, POLICY);
+
+    await expect(llm.chat('intent', { messages: [] })).rejects.toThrow('intent on openai gpt-4o-mini failed: 400 status code');
+    expect(attempts).toBe(1);
+    // Rejected outright: nothing to pay for
+    expect(record.calls).toEqual([]);
+  });
+
+  it('times out hung calls and gives up after the last attempt', async () => {
+    let signal: AbortSignal | undefined;
+    const hung = withChat(providers.openai!, (_model, options) => {
+      signal = options.signal;
+      return new Promise(() => { });
+    });
+    const llm = createLlm({ openai: hung }, defaultAssignments(), recorder(), POLICY);
+
+    const error = await llm.chat('translation', { messages: [] }).catch(e => e);
+    expect(error).toBeInstanceOf(LlmCallError);
+    expect(error.message).toBe('translation on openai gpt-4o-mini failed after 3 attempts: timed out after 50ms');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('cuts attempts short at the request deadline and retries no further', async () => {
+    let attempts = 0;
+    const hung = withChat(providers.openai!, () => {
+      attempts++;
+      return new Promise(() => { });
+    });
+    const llm = createLlm({ openai: hung }, defaultAssignments(), recorder(), { ...POLICY, requestDeadlineMs: 80 });
+
+    const started = Date.now();
+    await expect(llm.chat('translation', { messages: [] })).rejects.toThrow(/failed after 2 attempts: timed out after \d+ms/);
+    expect(Date.now() - started).toBeLessThan(140);
+    expect(attempts).toBe(2);
+  });
+
+  it('shares the deadline across the calls of one request', async () => {
+    const hung = withChat(providers.openai!, () => new Promise(() => { }));
+    const llm = createLlm({ openai: hung }, defaultAssignments(), recorder(), { ...POLICY, requestDeadlineMs: 60 });
+
+    await llm.chat('translation', { messages: [] }).catch(() => { });
+    await expect(llm.recordingTo(recorder()).chat('generation', { messages: [] }))
+      .rejects.toThrow('generation on openai gpt-4o-mini failed: request deadline reached');
+  });
+
+  it('records estimated usage for attempts that timed out', async () => {
+    const hung = withChat(providers.openai!, () => new Promise(() => { }));
+    const record = recorder();
+    const llm = createLlm({ openai: hung }, defaultAssignments(), record, POLICY);
+
+    await llm.chat('translation', { messages: [{ role: 'user', content: 'Translate to English only: daant mein dard hai' }] }).catch(() => { });
+    expect(record.calls).toHaveLength(3);
+    expect(record.calls[0]).toMatchObject({ kind: 'chat', model: 'gpt-4o-mini', promptTokens: 12, completionTokens: 0 });
+    expect(record.calls[0].costUsd).toBeGreaterThan(0);
+  });
+
+  it('keeps the usage of a JSON reply that could not be parsed', async () => {
+    openai.script('Phrase: "wax"', 'not json');
+    const record = recorder();
+    const llm = createLlm(providers, defaultAssignments(), record, POLICY);
+
+    await expect(llm.chatJson('translation', { messages: [{ role: 'user', content: 'Phrase: "wax"' }] })).rejects.toThrow(LlmCallError);
+    expect(record.calls).toHaveLength(1);
+    expect(record.calls[0].completionTokens).toBeGreaterThan(0);
+  });
+
+  it('does not retry a streamed answer once tokens were sent', async () => {
+    let attempts = 0;
+    const dropped = withChat(providers.openai!, (_model, options) => {
+      attempts++;
+      options.onToken?.('Braces ');
+      return Promise.reject(apiError(502));
+    });
+    const llm = createLlm({ openai: dropped }, defaultAssignments(), recorder(), POLICY);
+
+    await expect(llm.chat('generation', { messages: [], onToken: () => { } })).rejects.toThrow('502 status code');
+    expect(attempts).toBe(1);
+  });
+
+  it('records the tokens streamed before a stream broke', async () => {
+    const dropped = withChat(providers.openai!, (_model, options) => {
+      options.onToken?.('Braces straighten teeth ');
+      return Promise.reject(apiError(502));
+    });
+    const record = recorder();
+    const llm = createLlm({ openai: dropped }, defaultAssignments(), record, POLICY);
+
+    await llm.chat('generation', { messages: [{ role: 'user', content: 'what do braces do' }], onToken: () => { } }).catch(() => { });
+    expect(record.calls).toEqual([expect.objectContaining({ promptTokens: 5, completionTokens: 6 })]);
+  });
+
+  it('skips a failing provider during the cool-down, then probes it again', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    let healthy = false;
+    let attempts = 0;
+    const flaky = withChat(providers.compatible!, (model, options) => {
+      attempts++;
+      return healthy ? providers.compatible!.chat(model, options) : Promise.reject(apiError(503));
+    });
+    const llm = createLlm({ ...providers, compatible: flaky }, {
+      ...defaultAssignments(),
+      intent: { provider: 'compatible', model: 'llama3.1:8b' },
+    }, recorder(), POLICY);
+
+    await expect(llm.chat('intent', { messages: [] })).rejects.toThrow('after 3 attempts: 503 status code');
+    await expect(llm.chat('intent', { messages: [] })).rejects.toThrow('intent on compatible llama3.1:8b failed: circuit open for compatible');
+    expect(attempts).toBe(3);
+    // Other providers are unaffected
+    expect(await llm.chat('generation', { messages: [{ role: 'user', content: 'hi' }] })).toBe('[mock] hi');
+
+    healthy = true;
+    vi.setSystemTime(Date.now() + POLICY.circuitCoolDownMs);
+    expect(await llm.chat('intent', { messages: [{ role: 'user', content: 'hi' }] })).toBe('[mock] hi');
+    expect(attempts).toBe(4);
+  });
+
+  function context(queryId: string, message: string, llm: ReturnType<typeof createLlm>): PipelineContext {
+    return createPipelineContext({
+      db,
+      llm,
+      events: NO_EVENTS,
+      log: () => { },
+      input: { message, userName: 'Test User' },
+      queryId,
+      pipelineVersion: DEFAULT_PIPELINE_VERSION,
+    });
+  }
+
+  const openaiDown = () => createLlm(
+    { ...providers, openai: withChat(providers.openai!, () => Promise.reject(apiError(500))) },
+    defaultAssignments(),
+    undefined,
+    { ...POLICY, maxAttempts: 1 }
+  );
+
+  it('records every fallback of a query in its trace', async () => {
+    const ctx = context('q-fallbacks', 'dard ho raha hai kya karoon braces mein', openaiDown());
+
+    const response = await runPipeline(getPipeline(), ctx);
+
+    expect(response.text).toBe(SAFE_FALLBACKS.english);
+    expect(ctx.trace.fallbacks.map(f => [f.stage, f.step, f.fallback])).toEqual([
+      ['translation', 'translateToEnglish', 'untranslated message'],
+      ['intent', 'rewriteToCanonicalIntent', 'query words as intent'],
+      ['routing', 'strictRouter', 'EDUCATION'],
+      ['education', 'generateAnswer', 'safe fallback reply'],
+      ['translateBack', 'translateFromEnglish', 'English answer'],
+    ]);
+    expect(ctx.trace.fallbacks[0].reason).toBe('translation on openai gpt-4o-mini failed: 500 status code');
+  });
+
+  it('counts the queries that fell back', async () => {
+    // Different questions, so the second is not answered from the response cache
+    for (const [queryId, message, llm] of [
+      ['q-ok', 'what are braces made of', createLlm(providers, defaultAssignments())],
+      ['q-down', 'what are retainers made of', openaiDown()],
+    ] as const) {
+      const ctx = context(queryId, message, llm);
+      await saveTrace(db, finishTrace(ctx, await runPipeline(getPipeline(), ctx)));
+    }
+
+    expect(await summarizeFallbacks(db, 7)).toEqual({
+      queries: 2,
+      degradedQueries: 1,
+      byStep: [
+        { step: 'generateAnswer', queries: 1 },
+        { step: 'rewriteToCanonicalIntent', queries: 1 },
+        { step: 'strictRouter', queries: 1 },
+      ],
+    });
+  });
+});
+
+describe('assignments', () => {
+  it('stores assignments over the defaults', async () => {
+    const error = await saveLlmAssignments(db, { intent: { provider: 'compatible', model: ' qwen2.5 ' } }, providers);
+    expect(error).toBeNull();
+    expect(await loadLlmAssignments(db)).toEqual({ ...defaultAssignments(), intent: { provider: 'compatible', model: 'qwen2.5' } });
+  });
+
+  it('rejects providers that are not configured and empty models', async () => {
+    expect(await saveLlmAssignments(db, { routing: { provider: 'openrouter', model: 'gemma' } }, providers))
+      .toBe('Provider "openrouter" is not configured on the server');
+    expect(await saveLlmAssignments(db, { routing: { provider: 'openai', model: '' } }, providers))
+      .toBe('Choose a provider and model for routing');
+    expect(await loadLlmAssignments(db)).toEqual(defaultAssignments());
+  });
+
+  it('backs every provider with the stub in tests and local mode', async () => {
+    const mock = new MockLLM();
+    const llm = createLlm(stubProviders(mock), { ...defaultAssignments(), generation: { provider: 'openrouter', model: 'any' } });
+    expect(await llm.chat('generation', { messages: [{ role: 'user', content: 'hello' }] })).toBe('[mock] hello');
+    expect(mock.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createClient } from '@libsql/client';
+import { runMigrations, splitStatements } from '../lib/migrations';
+
+describe('splitStatements', () => {
+  it('splits on semicolons and strips comments', () => {
+    const sql = `-- header; with a semicolon
+CREATE TABLE a (id INTEGER); /* block; comment */
+CREATE INDEX idx_a ON a(id); -- trailing
+`;
+    expect(splitStatements(sql)).toEqual(['CREATE TABLE a (id INTEGER)', 'CREATE INDEX idx_a ON a(id)']);
+  });
+
+  it('keeps -- and ; inside quoted text', () => {
+    const sql = `INSERT INTO notes (body) VALUES ('a -- b; c', 'it''s; fine');
+CREATE TABLE "odd;name" (value TEXT DEFAULT '--');`;
+    expect(splitStatements(sql)).toEqual([
+      `INSERT INTO notes (body) VALUES ('a -- b; c', 'it''s; fine')`,
+      `CREATE TABLE "odd;name" (value TEXT DEFAULT '--')`,
+    ]);
+  });
+
+  it('keeps a trigger body in one statement', () => {
+    const sql = `CREATE TRIGGER touch AFTER UPDATE ON a BEGIN
+  UPDATE a SET label = CASE WHEN new.id > 0 THEN 'x;' ELSE 'y' END WHERE id = new.id;
+  DELETE FROM b;
+END;
+DROP TABLE c;`;
+    const statements = splitStatements(sql);
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toMatch(/^CREATE TRIGGER touch[\s\S]*DELETE FROM b;\nEND$/);
+    expect(statements[1]).toBe('DROP TABLE c');
+  });
+});
+
+describe('runMigrations', () => {
+  it('applies quoted -- and ; unchanged', async () => {
+    const db = createClient({ url: ':memory:' });
+    await runMigrations(db, [{
+      version: 1,
+      name: 'seed',
+      sql: `CREATE TABLE notes (body TEXT NOT NULL DEFAULT 'a -- b; c');
+INSERT INTO notes DEFAULT VALUES;
+INSERT INTO notes (body) VALUES ('x;y');`,
+    }]);
+
+    const rows = (await db.execute('SELECT body FROM notes ORDER BY rowid')).rows.map(row => row.body);
+    expect(rows).toEqual(['a -- b; c', 'x;y']);
+  });
+});
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Client } from '@libsql/client';
+import { MockLLM } from '../lib/mockLlm';
+import { createLlm, defaultAssignments, stubProviders } from '../lib/llm';
+import {
+  DEFAULT_STAGES,
+  cacheWriteStage,
+  faqRetrievalStage,
+} from '../lib/pipeline/stages';
+import {
+  DEFAULT_PIPELINE_VERSION,
+  NO_EVENTS,
+  PIPELINES,
+  createPipelineContext,
+  getPipeline,
+  runPipeline,
+  selectPipelineVersion,
+  type PipelineContext,
+  type PipelineStage,
+} from '../lib/pipeline';
+import { createTestDb, seedDb } from './helpers/testDb';
+import { FAQS, MEDIA, SUGGESTION_GROUPS } from './fixtures/chatFixtures';
+
+let db: Client;
+let logs: string[];
+
+function context(message: string): PipelineContext {
+  return createPipelineContext({
+    db,
+    llm: createLlm(stubProviders(new MockLLM()), defaultAssignments()),
+    events: NO_EVENTS,
+    log: msg => logs.push(msg),
+    input: { message, userName: 'Test User' },
+    queryId: 'q-1',
+    pipelineVersion: DEFAULT_PIPELINE_VERSION,
+  });
+}
+
+beforeEach(async () => {
+  db = await createTestDb();
+  await seedDb(db, { faqs: FAQS, media: MEDIA, suggestions: SUGGESTION_GROUPS });
+  logs = [];
+});
+
+describe('pipeline registry', () => {
+  it('uses the default stages for the current version', () => {
+    expect(getPipeline()).toBe(DEFAULT_STAGES);
+    expect(getPipeline(DEFAULT_PIPELINE_VERSION)).toBe(DEFAULT_STAGES);
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => getPipeline(999)).toThrow('Unknown pipeline version 999');
+  });
+
+  it('selects the version from PIPELINE_VERSION and falls back to the default for unknown ones', () => {
+    const warn = vi.fn();
+    PIPELINES[2] = DEFAULT_STAGES.slice(1);
+    try {
+      expect(selectPipelineVersion('2', warn)).toBe(2);
+      expect(selectPipelineVersion(undefined, warn)).toBe(DEFAULT_PIPELINE_VERSION);
+      expect(warn).not.toHaveBeenCalled();
+
+      expect(selectPipelineVersion('3', warn)).toBe(DEFAULT_PIPELINE_VERSION);
+      expect(selectPipelineVersion('v2', warn)).toBe(DEFAULT_PIPELINE_VERSION);
+      expect(warn).toHaveBeenCalledTimes(2);
+      expect(warn).toHaveBeenCalledWith(`[PIPELINE] Unknown PIPELINE_VERSION "3", running v${DEFAULT_PIPELINE_VERSION}`);
+    } finally {
+      delete PIPELINES[2];
+    }
+  });
+});
+
+describe('runPipeline', () => {
+  it('logs the timing and decision of every stage', async () => {
+    const response = await runPipeline(DEFAULT_STAGES, context('How do I clean my braces properly?'));
+
+    expect(response.faqId).toBe(1);
+    expect(logs).toContain('[STAGE] suggestionClick skipped');
+    expect(logs).toContain('[STAGE] translation skipped');
+    expect(logs.some(line => /^\[STAGE\] routing \d+ms → FAQ$/.test(line))).toBe(true);
+    expect(logs.some(line => /^\[STAGE\] faqRetrieval \d+ms → FAQ 1$/.test(line))).toBe(true);
+    expect(logs.some(line => line.startsWith('[STAGE] cacheWrite'))).toBe(true);
+  });
+
+  it('stops at the stage that sets a response', async () => {
+    const answerEarly: PipelineStage = {
+      name: 'answerEarly',
+      async run(ctx) {
+        ctx.response = { text: 'early', mediaUrls: [], faqId: null, queryId: ctx.queryId };
+        return 'done';
+      },
+    };
+    const response = await runPipeline([answerEarly, cacheWriteStage], context('hello'));
+
+    expect(response.text).toBe('early');
+    expect(logs.some(line => line.startsWith('[STAGE] cacheWrite'))).toBe(false);
+  });
+
+  it('runs a variant with a stage removed', async () => {
+    const withoutRetrieval = DEFAULT_STAGES.filter(stage => stage !== faqRetrievalStage);
+    const ctx = context('How do I clean my braces properly?');
+    const response = await runPipeline(withoutRetrieval, ctx);
+
+    // Without retrieval the FAQ route falls back to a generated answer
+    expect(response.faqId).toBeNull();
+    expect(response.text).not.toBe(FAQS[0].answer);
+    expect(ctx.route).toBe('FAQ');
+    expect(ctx.resolvedFaqId).toBeNull();
+  });
+});
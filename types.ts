@@ -37,7 +37,9 @@ export interface BotRequest {
   message: string;
   userName: string;
   userId?: string | null;
+  conversationId?: number | null; // Where the exchange is stored; also lets the pipeline resolve follow-ups
   suggestionFaqId?: number; // If present, bypasses AI and loads this FAQ directly
+  clientMessageId?: string; // Idempotency key generated per message; a retry sends the same one
 }
 
 export interface BotResponse {
@@ -46,6 +48,8 @@ export interface BotResponse {
   faqId: number | null;
   queryId: string | null;
   suggestions?: SuggestionChip[]; // For short query suggestion chips
+  userMessageId?: number | null; // The chat_messages rows /api/chat stored for this exchange
+  botMessageId?: number | null;
 }
 
 export interface ChatMessage {
@@ -58,6 +62,15 @@ export interface ChatMessage {
   created_at: string; // ISO string for precise time
   queryId?: string | null; // For linking to logs
   suggestions?: SuggestionChip[];
+  safetyFlag?: SafetyFlag | null; // user messages screened out by the chat pipeline
+  send?: PendingSend; // Live chat only: how to resend a user message that failed
+}
+
+// What ChatbotPage needs to retry a send with the same idempotency key
+export interface PendingSend {
+  clientMessageId: string;
+  suggestionFaqId?: number;
+  failed?: boolean;
 }
 
 export interface User {
@@ -78,6 +91,8 @@ export interface Conversation {
   created_at: string;
   title?: string; // Optional: For display in a chat list, using the first message.
   is_deleted_by_user?: boolean;
+  urgent_flagged_at?: string | null; // last message with red-flag symptoms (URGENT route)
+  urgent_followed_up_at?: string | null; // set by staff; cleared when the conversation is flagged again
 }
 
 export interface ConversationWithStats extends Conversation {
@@ -93,4 +108,219 @@ export interface DashboardStats {
   uniqueUsers: number; // This will now represent total conversations
   totalFaqs: number;
   conversationTime: number; // in seconds
-}
\ No newline at end of file
+}
+
+export interface FAQRevision {
+  id: number;
+  faq_id: number;
+  question: string;
+  answer: string;
+  intent: string;
+  media_ids: string; // JSON stringified number[]
+  created_at: string; // When this version was replaced or deleted
+  created_by: string | null; // Admin who replaced or deleted it
+  reason: 'edit' | 'restore' | 'delete'; // 'delete' keeps the content a deleted FAQ had
+}
+
+export interface AuditLogEntry {
+  id: number;
+  created_at: string;
+  actor_id: number | null;
+  actor: string;
+  action: string; // create | update | restore | delete | delete_all | reorder | reset | revoke
+  route: string; // e.g. "PUT /api/faqs/12"
+  entity_type: string;
+  entity_id: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+export interface LlmCallRecord {
+  kind: 'chat' | 'embedding';
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number; // estimated from MODEL_PRICES (lib/llmUsage.ts)
+}
+
+/**
+ * A step that could not do its job and used a fallback (e.g. an LLM call timed out)
+ */
+export interface TraceFallback {
+  stage: string;
+  step: string; // e.g. translateToEnglish, strictRouter
+  reason: string;
+  fallback: string; // what was used instead
+}
+
+export interface TraceStep {
+  name: string;
+  status: 'ran' | 'skipped' | 'failed';
+  ms: number;
+  decision?: string;
+  llmCalls: LlmCallRecord[];
+}
+
+/**
+ * How far /api/chat is degraded to stay within the LLM budget, least to most
+ */
+export type BudgetLevel = 'normal' | 'top_hit' | 'faq_only' | 'fallback_only';
+
+/**
+ * Why a user message was answered with a fixed safety reply (lib/pipeline/safety.ts)
+ */
+export type SafetyFlag = 'prompt_injection' | 'self_harm' | 'abuse';
+
+export type CacheOutcome = 'full_hit' | 'partial_hit' | 'semantic_hit' | 'miss' | 'bypass' | 'disabled';
+
+/**
+ * A cached reply (GET /api/cache)
+ */
+export interface CacheEntry {
+  id: number;
+  query: string; // the normalized message
+  language: string;
+  pipelineVersion: number;
+  canonicalIntent: string;
+  route: string;
+  faqId: number | null;
+  faqQuestion: string | null;
+  answer: string | null; // null: only the decisions are kept, the reply is rebuilt on the next hit
+  hits: number;
+  pinned: boolean; // never expires
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Cache outcomes of the queries traced over the last `days` days (GET /api/cache/stats)
+ */
+export interface CacheOutcomeSummary {
+  days: number;
+  queries: number; // queries that reached the cache lookup
+  totals: Record<CacheOutcome, number>;
+  daily: Array<Record<CacheOutcome, number> & { date: string }>; // YYYY-MM-DD, oldest first, days without queries omitted
+}
+
+/**
+ * What the chat pipeline decided for one query, stored per queryId (GET /api/traces/:queryId)
+ */
+export interface PipelineTrace {
+  queryId: string;
+  conversationId: number | null;
+  pipelineVersion: number;
+  message: string;
+  language: string | null;
+  englishQuery: string | null; // translated and/or rewritten follow-up; null when unchanged
+  canonicalIntent: string | null;
+  route: string | null;
+  routeModel: string | null; // model that chose the route, "cache", "budget" when degraded, or "red flags" (URGENT)
+  cache: CacheOutcome | null;
+  semanticMatch: { intent: string; similarity: number } | null; // cached intent whose route and FAQ were reused
+  candidates: { faqId: number; score: number; intent: string }[]; // embedding top 5, best first
+  selection: { faqId: number | null; model: string | null } | null; // LLM pick among the candidates ("budget": top hit)
+  budgetLevel: BudgetLevel;
+  safetyFlag: SafetyFlag | null; // set when the message was screened out before routing
+  fallbacks: TraceFallback[]; // degraded steps, in order; empty when everything worked
+  faqId: number | null;
+  answer: string | null;
+  steps: TraceStep[];
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number; costUsd: number };
+  totalMs: number;
+  createdAt: string;
+}
+
+export interface LlmUsageTotals {
+  costUsd: number;
+  tokens: number;
+  calls: number;
+}
+
+/**
+ * LLM spend over the last `days` days (GET /api/usage)
+ */
+export interface LlmUsageSummary {
+  days: number;
+  totalCostUsd: number;
+  totalTokens: number;
+  calls: number;
+  daily: Array<LlmUsageTotals & { date: string }>; // YYYY-MM-DD, oldest first, days without calls omitted
+  byStage: Array<LlmUsageTotals & { stage: string }>; // most expensive first
+  conversations: {
+    count: number;
+    averageCostUsd: number;
+    top: { conversationId: number; title: string | null; costUsd: number; queries: number }[];
+  };
+}
+
+/**
+ * How many queries used a fallback over the last `days` days (GET /api/usage)
+ */
+export interface FallbackSummary {
+  queries: number;
+  degradedQueries: number;
+  byStep: { step: string; queries: number }[]; // most frequent first
+}
+
+/**
+ * Clinic contact details quoted in urgent-care replies (GET/PUT /api/settings/clinic)
+ */
+export interface ClinicContact {
+  name: string;
+  phone: string;
+  address: string;
+  hours: string;
+}
+
+/**
+ * A conversation flagged for staff follow-up (GET /api/conversations/urgent)
+ */
+export interface UrgentConversation {
+  id: number;
+  title: string | null;
+  userName: string | null;
+  flaggedAt: string;
+  followedUpAt: string | null;
+  message: string | null; // the latest user message routed to URGENT
+}
+
+export interface LlmBudget {
+  dailyUsd: number | null; // null: no limit
+  monthlyUsd: number | null;
+}
+
+/**
+ * Spend against the budget (GET /api/settings/budget); periods are UTC days and months
+ */
+export interface LlmBudgetStatus {
+  budget: LlmBudget;
+  spentTodayUsd: number;
+  spentThisMonthUsd: number;
+  usedFraction: number; // the larger of today's and this month's spend over its limit
+  level: BudgetLevel;
+  warning: boolean; // at or above the warning threshold
+}
+
+export type LlmProviderId = 'openai' | 'openrouter' | 'compatible' | 'stub';
+
+/**
+ * The kinds of LLM work the app does; each is assigned a provider and model in admin settings
+ */
+export type LlmTask = 'routing' | 'intent' | 'selection' | 'translation' | 'generation' | 'embedding';
+
+export interface LlmAssignment {
+  provider: LlmProviderId;
+  model: string;
+}
+
+export type LlmAssignments = Record<LlmTask, LlmAssignment>;
+
+/**
+ * GET/PUT /api/settings/llm
+ */
+export interface LlmSettings {
+  assignments: LlmAssignments;
+  defaults: LlmAssignments;
+  providers: { id: LlmProviderId; configured: boolean }[];
+}
@@ -12,17 +12,29 @@ function apiPlugin(): Plugin {
       const env = loadEnv(server.config.mode || 'development', process.cwd(), '');
 
       // Set environment variables for the API handlers
-      process.env.TURSO_DATABASE_URL = env.TURSO_DATABASE_URL || 'libsql://dentalcare-ai-zunxo7.aws-ap-south-1.turso.io';
+      process.env.TURSO_DATABASE_URL = env.TURSO_DATABASE_URL || '';
       process.env.TURSO_AUTH_TOKEN = env.TURSO_AUTH_TOKEN || '';
       process.env.OPENAI_API_KEY = env.OPENAI_API_KEY || '';
       process.env.ADMIN_PASSWORD = env.ADMIN_PASSWORD || '';
+      process.env.SESSION_SECRET = env.SESSION_SECRET || '';
+      process.env.LOCAL_MODE = process.env.LOCAL_MODE || env.LOCAL_MODE || '';
+      process.env.LOCAL_DATABASE_URL = env.LOCAL_DATABASE_URL || '';
+      process.env.MOCK_LLM_RESPONSES = env.MOCK_LLM_RESPONSES || '';
 
       // Check for critical variables
-      if (!process.env.TURSO_AUTH_TOKEN) {
-        console.warn('⚠️  WARNING: TURSO_AUTH_TOKEN is missing. Database connections will fail.');
+      const localMode = process.env.LOCAL_MODE === 'true' || process.env.LOCAL_MODE === '1';
+      if (localMode) {
+        console.log(`🧪 LOCAL_MODE: using ${process.env.LOCAL_DATABASE_URL || 'file:local.db'} and the mock LLM.`);
+      } else {
+        if (!process.env.TURSO_DATABASE_URL) {
+          console.warn('⚠️  WARNING: TURSO_DATABASE_URL is missing. Falling back to file:local.db.');
+        }
+        if (!process.env.OPENAI_API_KEY) {
+          console.warn('⚠️  WARNING: OPENAI_API_KEY is missing. AI features will fail.');
+        }
       }
-      if (!process.env.OPENAI_API_KEY) {
-        console.warn('⚠️  WARNING: OPENAI_API_KEY is missing. AI features will fail.');
+      if (!process.env.ADMIN_PASSWORD || !process.env.SESSION_SECRET) {
+        console.warn('⚠️  WARNING: ADMIN_PASSWORD or SESSION_SECRET is missing. Admin login will fail.');
       }
 
       server.middlewares.use('/api', async (req, res, next) => {
@@ -88,8 +100,16 @@ function apiPlugin(): Plugin {
               res.setHeader(key, value);
             });
 
-            const responseBody = await response.text();
-            res.end(responseBody);
+            // Pipe the body so streamed responses (text/event-stream) reach the browser as they are produced
+            if (response.body) {
+              const reader = response.body.getReader();
+              while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                res.write(value);
+              }
+            }
+            res.end();
           } else {
             next();
           }
@@ -120,11 +140,9 @@ export default defineConfig(({ mode }) => {
     define: {
       'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
       'process.env.OPENROUTER_API_KEY': JSON.stringify(env.OPENROUTER_API_KEY || env.VITE_OPENROUTER_API_KEY),
-      'process.env.TURSO_DATABASE_URL': JSON.stringify(env.TURSO_DATABASE_URL || 'libsql://dentalcare-ai-zunxo7.aws-ap-south-1.turso.io'),
+      'process.env.TURSO_DATABASE_URL': JSON.stringify(env.TURSO_DATABASE_URL || ''),
       'process.env.TURSO_AUTH_TOKEN': JSON.stringify(env.TURSO_AUTH_TOKEN || ''),
-      'process.env.ADMIN_PASSWORD': JSON.stringify(env.ADMIN_PASSWORD || ''),
-      // Expose to import.meta.env for frontend
-      'import.meta.env.ADMIN_PASSWORD': JSON.stringify(env.ADMIN_PASSWORD || ''),
+      // ADMIN_PASSWORD and SESSION_SECRET are deliberately never exposed to the client bundle
     },
     resolve: {
       alias: {
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept separate from vite.config.ts so tests don't start the dev API plugin
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+  },
+});